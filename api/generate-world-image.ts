@@ -0,0 +1,6 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleGenerateWorldImage, serveApiRequest } from '../server/handlers';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  return serveApiRequest(handleGenerateWorldImage, req, res);
+}
@@ -0,0 +1,158 @@
+import type { GenerationProgress } from '../src/types';
+import { formatEvent } from '../src/utils/eventStream';
+import {
+  createOfflineProvider,
+  getProvider,
+  toErrorResponse,
+  type AIProvider,
+  type EvolveRequest,
+  type GenerateWorldRequest,
+  type NarrateEvolutionRequest,
+  type OrganismImageRequest,
+  type ProgressListener,
+  type TextureRequest,
+  type WorldImageRequest
+} from './providers';
+
+/**
+ * The API routes, written once for both the Express dev server and the
+ * Vercel functions. Each takes the parts of a request it needs and answers
+ * with a status and JSON body, so the two servers are only adapters.
+ */
+
+export interface ApiRequest {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+// `onProgress` is given when the client asked for server-sent events
+export type ApiHandler = (request: ApiRequest, onProgress?: ProgressListener) => Promise<ApiResponse>;
+
+// What the adapters need of Express' and Vercel's responses
+export interface ServerResponse {
+  status(code: number): { json(body: unknown): unknown };
+  setHeader(name: string, value: string): unknown;
+  write(chunk: string): unknown;
+  end(): unknown;
+}
+
+export type ApiRoute =
+  | 'generate-world'
+  | 'evolve'
+  | 'generate-texture'
+  | 'generate-organism-image'
+  | 'generate-world-image';
+
+// The user's own key from the header, or the server's
+function getApiKey({ headers }: ApiRequest): string | undefined {
+  const userKey = headers['x-gemini-api-key'];
+  return (Array.isArray(userKey) ? userKey[0] : userKey) || process.env.GEMINI_API_KEY;
+}
+
+/**
+ * A POST route served by the request's provider. Failures are logged and
+ * answered with their status, unless `recover` has something to send instead.
+ */
+function route<T>(
+  action: string,
+  serve: (provider: AIProvider, body: T, onProgress?: ProgressListener) => Promise<unknown>,
+  recover?: (body: T) => Promise<unknown>
+): ApiHandler {
+  return async (request, onProgress) => {
+    if (request.method !== 'POST') {
+      return { status: 405, body: { error: 'Method not allowed' } };
+    }
+
+    const provider = getProvider(getApiKey(request));
+    if (!provider) {
+      return { status: 400, body: { error: 'GEMINI_API_KEY not configured. Please provide your own API key.' } };
+    }
+
+    const body = (request.body ?? {}) as T;
+    try {
+      return { status: 200, body: await serve(provider, body, onProgress) };
+    } catch (error) {
+      console.error(`Error ${action}:`, error);
+      if (recover) return { status: 200, body: await recover(body) };
+      return toErrorResponse(error);
+    }
+  };
+}
+
+export const handleGenerateWorld = route<GenerateWorldRequest>(
+  'generating world',
+  (provider, body, onProgress) => provider.generateWorld(body, onProgress)
+);
+
+// Hybrid evolution sends the rules' outcome for the AI to name and narrate
+export const handleEvolve = route<EvolveRequest | NarrateEvolutionRequest>(
+  'evolving world',
+  (provider, body, onProgress) => 'outcome' in body
+    ? provider.narrateEvolution(body, onProgress)
+    : provider.evolve(body, onProgress)
+);
+
+// Colors stand in for the texture when no image can be made
+export const handleGenerateTexture = route<TextureRequest>(
+  'generating texture',
+  (provider, body) => provider.generateTexture(body),
+  body => createOfflineProvider().generateTexture(body)
+);
+
+export const handleGenerateOrganismImage = route<OrganismImageRequest>(
+  'generating organism image',
+  (provider, body) => provider.generateOrganismImage(body)
+);
+
+export const handleGenerateWorldImage = route<WorldImageRequest>(
+  'generating world image',
+  (provider, body) => provider.generateWorldImage(body)
+);
+
+export const API_HANDLERS: Record<ApiRoute, ApiHandler> = {
+  'generate-world': handleGenerateWorld,
+  'evolve': handleEvolve,
+  'generate-texture': handleGenerateTexture,
+  'generate-organism-image': handleGenerateOrganismImage,
+  'generate-world-image': handleGenerateWorldImage
+};
+
+/**
+ * Answers a request with a handler. Clients that accept text/event-stream
+ * get "progress" events as the work goes on, then a "result" or "error"
+ * event. The stream only opens with the first progress, so a request that
+ * fails straight away is answered with plain JSON and its status.
+ */
+export async function serveApiRequest(handler: ApiHandler, request: ApiRequest, response: ServerResponse): Promise<void> {
+  let streaming = false;
+  const onProgress = acceptsEventStream(request)
+    ? (progress: GenerationProgress) => {
+      if (!streaming) {
+        streaming = true;
+        response.setHeader('Content-Type', 'text/event-stream');
+        response.setHeader('Cache-Control', 'no-cache');
+        response.setHeader('Connection', 'keep-alive');
+      }
+      response.write(formatEvent('progress', progress));
+    }
+    : undefined;
+
+  const { status, body } = await handler(request, onProgress);
+  if (!streaming) {
+    response.status(status).json(body);
+    return;
+  }
+  response.write(status === 200 ? formatEvent('result', body) : formatEvent('error', { ...(body as object), status }));
+  response.end();
+}
+
+function acceptsEventStream({ headers }: ApiRequest): boolean {
+  const accept = headers.accept;
+  return (Array.isArray(accept) ? accept.join(',') : accept || '').includes('text/event-stream');
+}
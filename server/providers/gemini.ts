@@ -0,0 +1,315 @@
+import type { EvolveResponse, Organism } from '../../src/types';
+import {
+  describeViolations,
+  parseEvolveResponse,
+  parseGenerateWorldResponse,
+  parseNarrationResponse,
+  parsePartialResponse,
+  retryPrompt,
+  type EvolutionNarration,
+  type GeneratedWorld,
+  type SchemaResult
+} from '../../src/types/schemas';
+import { isEventStream, readEventStream } from '../../src/utils/eventStream';
+import { createOfflineProvider } from './offline';
+import {
+  generateEvolvePrompt,
+  generateNarrationPrompt,
+  generateOrganismImagePrompt,
+  generateTexturePrompt,
+  generateWorldImagePrompt,
+  generateWorldPrompt
+} from './prompts';
+import { AIProvider, EvolveRequest, NarrateEvolutionRequest, ProgressListener, ProviderError } from './types';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent';
+const GEMINI_STREAM_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:streamGenerateContent';
+// Use Imagen 4 (fast version for quicker generation)
+const IMAGEN_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/imagen-4.0-fast-generate-001:predict';
+
+const WORLD_TEMPERATURE = 0.8;
+const DEFAULT_EVOLVE_TEMPERATURE = 0.9;
+const MAX_ATTEMPTS = 2;
+
+// Gemini for worlds and evolution, Imagen for pictures
+export function createGeminiProvider(apiKey: string): AIProvider {
+  // Textures fall back to colors when Imagen has nothing for us
+  const fallback = createOfflineProvider();
+
+  // Streams the answer when `onText` wants it as it grows
+  async function generateJson(
+    prompt: string,
+    temperature: number,
+    failure: string,
+    onText?: (text: string) => void
+  ): Promise<string> {
+    const url = onText ? `${GEMINI_STREAM_URL}?alt=sse&key=${apiKey}` : `${GEMINI_API_URL}?key=${apiKey}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }],
+        generationConfig: {
+          temperature,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 8192,
+          responseMimeType: "application/json"
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error('Gemini API error:', error);
+      throw new ProviderError(failure);
+    }
+
+    const generatedText = onText && isEventStream(response)
+      ? await readStreamedText(response, onText)
+      : getText(await response.json());
+
+    if (!generatedText) {
+      throw new ProviderError('No response from Gemini');
+    }
+    return generatedText;
+  }
+
+  // Unusable output gets one more try, told what was wrong with it
+  async function generateValid<T>(
+    prompt: string,
+    temperature: number,
+    parse: (text: string) => SchemaResult<T>,
+    messages: { failed: string; unusable: string },
+    onProgress?: ProgressListener
+  ): Promise<T> {
+    let result: SchemaResult<T> = { violations: [] };
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS && !result.data; attempt++) {
+      const text = attempt === 1 ? prompt : retryPrompt(prompt, result.violations);
+      onProgress?.({ stage: 'prompt-sent', attempt });
+      const onText = onProgress && reportPartialResponse(onProgress);
+      result = parse(await generateJson(text, temperature, messages.failed, onText));
+    }
+
+    if (!result.data) {
+      const violations = result.violations.filter(violation => !violation.repaired);
+      console.error(`${messages.unusable}:\n` + describeViolations(violations));
+      throw new ProviderError(messages.unusable, 502, violations);
+    }
+    if (result.violations.length > 0) {
+      console.warn('Repaired Gemini output:\n' + describeViolations(result.violations));
+    }
+    return result.data;
+  }
+
+  async function generateImage(prompt: string, aspectRatio: string, failure: string): Promise<string> {
+    // Using the models.predict endpoint for Imagen
+    const response = await fetch(`${IMAGEN_API_URL}?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        instances: [
+          { prompt }
+        ],
+        parameters: {
+          sampleCount: 1,
+          aspectRatio
+        }
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Imagen API error - Status:', response.status);
+      console.error('Imagen API error - Body:', errorText);
+      throw new ProviderError(failure);
+    }
+
+    const data = await response.json();
+
+    // Extract base64 image from response - try multiple possible formats
+    const generatedImage = data.generatedImages?.[0]?.image?.imageBytes ||
+                          data.predictions?.[0]?.bytesBase64Encoded ||
+                          data.images?.[0]?.bytesBase64Encoded;
+
+    if (!generatedImage) {
+      console.error('No image in Imagen response:', JSON.stringify(data).slice(0, 500));
+      throw new ProviderError('No image generated');
+    }
+    return `data:image/png;base64,${generatedImage}`;
+  }
+
+  return {
+    name: 'gemini',
+
+    generateWorld({ useRandom, worldConfig, realOrganismsOnly }, onProgress) {
+      const prompt = generateWorldPrompt(useRandom, worldConfig, realOrganismsOnly);
+      return generateValid<GeneratedWorld>(prompt, WORLD_TEMPERATURE, parseGenerateWorldResponse, {
+        failed: 'Failed to generate world',
+        unusable: 'Gemini returned a world that could not be used'
+      }, onProgress);
+    },
+
+    evolve(request, onProgress) {
+      const { generation, world, organisms, events, statistics, timeSeries, realOrganismsOnly } = request;
+      const prompt = generateEvolvePrompt(generation, world, organisms, events, statistics, timeSeries?.samples, realOrganismsOnly);
+      return generateValid<EvolveResponse>(
+        prompt,
+        getEvolveTemperature(request),
+        text => parseEvolveResponse(text, world),
+        {
+          failed: 'Failed to evolve world',
+          unusable: 'Gemini returned an evolution that could not be used'
+        },
+        onProgress
+      );
+    },
+
+    async narrateEvolution(request, onProgress) {
+      const newSpecies = getNewSpecies(request);
+      const narration = await generateValid<EvolutionNarration>(
+        generateNarrationPrompt(request, newSpecies),
+        getEvolveTemperature(request),
+        parseNarrationResponse,
+        {
+          failed: 'Failed to narrate evolution',
+          unusable: 'Gemini returned a narration that could not be used'
+        },
+        onProgress
+      );
+      return applyNarration(request.outcome, narration, newSpecies);
+    },
+
+    async generateTexture(request) {
+      const { biome, world, width = 1024, height = 768 } = request;
+      const prompt = generateTexturePrompt(biome, world);
+      try {
+        const aspectRatio = width > height ? '16:9' : (width < height ? '9:16' : '4:3');
+        const imageData = await generateImage(prompt, aspectRatio, 'Failed to generate texture');
+        return { type: 'image', imageData, prompt };
+      } catch (error) {
+        console.error('Error generating texture, using colors instead:', error);
+        return fallback.generateTexture(request);
+      }
+    },
+
+    async generateOrganismImage({ organism, worldBiome }) {
+      const prompt = generateOrganismImagePrompt(organism, worldBiome);
+      console.log('Generating organism image with prompt:', prompt);
+      const imageData = await generateImage(prompt, '1:1', 'Failed to generate organism image');
+      return { imageData, description: prompt };
+    },
+
+    async generateWorldImage({ world }) {
+      const prompt = generateWorldImagePrompt(world);
+      console.log('Generating world image with prompt:', prompt);
+      const imageData = await generateImage(prompt, '16:9', 'Failed to generate world image');
+      return { imageData, description: prompt };
+    }
+  };
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+// The text of a generateContent response, or of one chunk of a streamed one
+function getText(data: GeminiResponse): string | undefined {
+  return data.candidates?.[0]?.content?.parts?.[0]?.text;
+}
+
+// Gemini's streamed chunks put together, handed over as the text grows
+async function readStreamedText(response: Response, onText: (text: string) => void): Promise<string> {
+  let text = '';
+  await readEventStream(response, ({ data }) => {
+    let chunk: string | undefined;
+    try {
+      chunk = getText(JSON.parse(data));
+    } catch {
+      return;
+    }
+    if (!chunk) return;
+    text += chunk;
+    onText(text);
+  });
+  return text;
+}
+
+// Reports an answer as it streams in: its length, then the world and each organism once complete
+function reportPartialResponse(onProgress: ProgressListener): (text: string) => void {
+  let hasWorld = false;
+  let organismCount = 0;
+  return text => {
+    onProgress({ stage: 'tokens', received: text.length });
+    const { world, organisms } = parsePartialResponse(text);
+    if (world && !hasWorld) {
+      hasWorld = true;
+      onProgress({ stage: 'world', world });
+    }
+    organisms.slice(organismCount).forEach(organism => onProgress({ stage: 'organism', organism }));
+    organismCount = Math.max(organismCount, organisms.length);
+  };
+}
+
+function getEvolveTemperature({ temperature }: EvolveRequest): number {
+  return typeof temperature === 'number' ? Math.min(2, Math.max(0, temperature)) : DEFAULT_EVOLVE_TEMPERATURE;
+}
+
+// One member of each species in the outcome that the generation did not have
+function getNewSpecies({ organisms, outcome }: NarrateEvolutionRequest): Organism[] {
+  const known = new Set(organisms.map(org => org.species));
+  const found = new Map<string, Organism>();
+  outcome.organisms.forEach(org => {
+    if (!known.has(org.species) && !found.has(org.species)) found.set(org.species, org);
+  });
+  return Array.from(found.values());
+}
+
+/**
+ * The rules' outcome in Gemini's words. New species take the names it gave
+ * them unless that would merge them with another species, and events it
+ * did not retell keep the rules' text with the new names swapped in.
+ */
+function applyNarration(outcome: EvolveResponse, narration: EvolutionNarration, newSpecies: Organism[]): EvolveResponse {
+  const taken = new Set(outcome.organisms.map(org => org.species));
+  const renames = new Map<string, { species: string; name: string }>();
+  narration.species.forEach(({ from, species, name }) => {
+    const isNew = newSpecies.some(org => org.species === from);
+    if (!isNew || renames.has(from) || (species !== from && taken.has(species))) return;
+    renames.set(from, { species, name });
+    taken.add(species);
+  });
+
+  const rename = (text: string) => {
+    let renamed = text;
+    renames.forEach(({ species }, from) => {
+      renamed = renamed.split(from).join(species);
+    });
+    return renamed;
+  };
+  const retold = new Map(narration.events.map(event => [event.id, event]));
+
+  return {
+    ...outcome,
+    organisms: outcome.organisms.map(org => {
+      const renamed = renames.get(org.species);
+      return renamed ? { ...org, species: renamed.species, name: renamed.name } : org;
+    }),
+    events: outcome.events.map(event => {
+      const told = retold.get(event.id);
+      return told
+        ? { ...event, title: told.title, description: told.description }
+        : { ...event, title: rename(event.title), description: rename(event.description) };
+    }),
+    narrative: narration.narrative || rename(outcome.narrative),
+    nextGenerationSuggestions: narration.nextGenerationSuggestions.length > 0
+      ? narration.nextGenerationSuggestions
+      : outcome.nextGenerationSuggestions.map(rename)
+  };
+}
@@ -0,0 +1,23 @@
+import { createGeminiProvider } from './gemini';
+import { createOfflineProvider } from './offline';
+import type { AIProvider } from './types';
+
+export { createGeminiProvider } from './gemini';
+export { createOfflineProvider } from './offline';
+export * from './types';
+
+export type ProviderName = 'gemini' | 'offline';
+
+// AI_PROVIDER picks the backend, Gemini unless set to "offline"
+export function getProviderName(): ProviderName {
+  return process.env.AI_PROVIDER?.toLowerCase() === 'offline' ? 'offline' : 'gemini';
+}
+
+/**
+ * The provider to serve a request with. Returns undefined when Gemini is
+ * in use but there is no API key for it.
+ */
+export function getProvider(apiKey?: string): AIProvider | undefined {
+  if (getProviderName() === 'offline') return createOfflineProvider();
+  return apiKey ? createGeminiProvider(apiKey) : undefined;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationEngine } from '@/engine';
+import { createSeededRandom } from '@/utils';
+import { createOfflineProvider } from './offline';
+
+describe('offline provider', () => {
+  // The engine breeds from the genome, so a mutation it lacks is undone
+  it('evolves organisms whose genome matches their body', async () => {
+    const provider = createOfflineProvider(createSeededRandom(1));
+    const { world, organisms } = await provider.generateWorld({ useRandom: true });
+    const state = new SimulationEngine({ world, organisms, maxTicks: 300, seed: 1 }).run();
+
+    for (let generation = 1; generation <= 5; generation++) {
+      const evolved = await provider.evolve({
+        generation,
+        world: state.world,
+        organisms: state.organisms,
+        events: state.events,
+        statistics: { ...state.statistics }
+      });
+      evolved.organisms.filter(org => org.genome).forEach(org => {
+        expect(org.genome).toMatchObject({ size: org.size, speed: org.speed, color: org.color });
+        expect(org.genome!.traits).toEqual(
+          Object.fromEntries(org.traits.map(trait => [trait.name, trait.value]))
+        );
+      });
+      state.organisms = evolved.organisms;
+    }
+  });
+
+  it('generates the same world from the same seed', async () => {
+    const generate = () => createOfflineProvider(createSeededRandom(3)).generateWorld({ useRandom: true });
+    expect(await generate()).toEqual(await generate());
+  });
+});
@@ -0,0 +1,607 @@
+import type {
+  BehaviorType,
+  BiomeType,
+  Compounds,
+  DietType,
+  EvolveResponse,
+  LocomotionType,
+  Organism,
+  OrganismType,
+  SimulationEvent,
+  TraitCategory,
+  WorldConfig
+} from '../../src/types';
+import type { GeneratedWorld } from '../../src/types/schemas';
+import type { AIProvider, FallbackTexture, GenerateWorldRequest, EvolveRequest } from './types';
+import {
+  BIOME_PLACES,
+  CREATURE_ADJECTIVES,
+  CREATURE_NOUNS,
+  REAL_SPECIES,
+  TRAIT_NAMES,
+  VARIANT_PREFIXES,
+  WORLD_ADJECTIVES
+} from './wordLists';
+
+type Random = () => number;
+
+const BIOMES: BiomeType[] = ['ocean', 'forest', 'desert', 'tundra', 'swamp', 'volcanic', 'grassland', 'cave', 'alien'];
+
+// Most organisms an evolved generation grows to
+const MAX_POPULATION = 35;
+
+// Species per role and members per species, from producers up, so every
+// consumer has something to eat
+const COMMUNITY: { type: OrganismType; species: [number, number]; members: [number, number] }[] = [
+  { type: 'plant', species: [3, 4], members: [3, 5] },
+  { type: 'herbivore', species: [2, 3], members: [3, 5] },
+  { type: 'omnivore', species: [1, 2], members: [2, 3] },
+  { type: 'carnivore', species: [1, 2], members: [1, 3] },
+  { type: 'decomposer', species: [1, 1], members: [2, 3] },
+  { type: 'microbe', species: [1, 1], members: [2, 3] }
+];
+
+interface RoleProfile {
+  size: [number, number];
+  speed: [number, number];
+  maxAge: [number, number];
+  reproductionRate: [number, number];
+  behaviors: BehaviorType[];
+  traits: TraitCategory[];
+  diet?: DietType;
+  hues: [number, number]; // Range of the main color's hue
+  role: string; // What it does, for descriptions
+}
+
+const ROLES: Record<OrganismType, RoleProfile> = {
+  plant: {
+    size: [12, 30], speed: [0, 0], maxAge: [500, 800], reproductionRate: [0.05, 0.08],
+    behaviors: ['passive'], traits: ['armor', 'metabolism', 'fertility'], diet: 'photosynthesis',
+    hues: [70, 160], role: 'plant that feeds the ecosystem with sunlight'
+  },
+  herbivore: {
+    size: [12, 28], speed: [1.5, 3], maxAge: [300, 600], reproductionRate: [0.04, 0.06],
+    behaviors: ['grazing', 'social', 'migratory'], traits: ['camouflage', 'armor', 'fertility', 'senses'], diet: 'herbivore',
+    hues: [20, 60], role: 'grazer that feeds on plants'
+  },
+  carnivore: {
+    size: [22, 40], speed: [2.5, 3.5], maxAge: [400, 800], reproductionRate: [0.02, 0.035],
+    behaviors: ['ambush', 'aggressive', 'territorial', 'solitary'], traits: ['venom', 'senses', 'camouflage'], diet: 'carnivore',
+    hues: [340, 380], role: 'predator that hunts the grazers'
+  },
+  omnivore: {
+    size: [18, 32], speed: [1.8, 3], maxAge: [300, 700], reproductionRate: [0.03, 0.05],
+    behaviors: ['social', 'solitary', 'migratory', 'territorial'], traits: ['senses', 'metabolism', 'armor'], diet: 'omnivore',
+    hues: [180, 300], role: 'forager that eats whatever it finds'
+  },
+  decomposer: {
+    size: [8, 16], speed: [0.8, 1.5], maxAge: [300, 500], reproductionRate: [0.04, 0.06],
+    behaviors: ['passive', 'solitary'], traits: ['metabolism', 'fertility'], diet: 'decomposer',
+    hues: [25, 45], role: 'recycler that breaks down the remains of the dead'
+  },
+  microbe: {
+    size: [8, 12], speed: [1, 2], maxAge: [200, 350], reproductionRate: [0.06, 0.08],
+    behaviors: ['social', 'passive'], traits: ['fertility', 'venom'],
+    hues: [260, 320], role: 'microscopic organism that lives off its hosts'
+  }
+};
+
+// How animals get around in each biome
+const BIOME_LOCOMOTION: Record<BiomeType, LocomotionType[]> = {
+  ocean: ['swimming', 'swimming', 'floating', 'crawling'],
+  swamp: ['swimming', 'floating', 'crawling', 'hopping'],
+  forest: ['walking', 'flying', 'hopping', 'crawling', 'slithering'],
+  grassland: ['walking', 'flying', 'hopping', 'crawling', 'slithering'],
+  desert: ['walking', 'burrowing', 'slithering', 'hopping'],
+  tundra: ['walking', 'flying', 'swimming'],
+  cave: ['crawling', 'flying', 'slithering', 'burrowing'],
+  volcanic: ['flying', 'crawling', 'hopping'],
+  alien: ['gliding', 'floating', 'walking', 'flying', 'hopping', 'slithering']
+};
+
+const LOCOMOTION_WORDS: Record<LocomotionType, string> = {
+  walking: 'ground-dwelling',
+  swimming: 'swimming',
+  flying: 'flying',
+  hopping: 'hopping',
+  slithering: 'slithering',
+  burrowing: 'burrowing',
+  floating: 'drifting',
+  crawling: 'crawling',
+  gliding: 'gliding',
+  sessile: 'rooted'
+};
+
+const BIOME_CLIMATE: Record<BiomeType, { temperature: number; humidity: number }> = {
+  ocean: { temperature: 18, humidity: 95 },
+  forest: { temperature: 20, humidity: 70 },
+  desert: { temperature: 40, humidity: 10 },
+  tundra: { temperature: -15, humidity: 40 },
+  swamp: { temperature: 28, humidity: 90 },
+  volcanic: { temperature: 60, humidity: 30 },
+  grassland: { temperature: 24, humidity: 45 },
+  cave: { temperature: 12, humidity: 80 },
+  alien: { temperature: 30, humidity: 50 }
+};
+
+// Color-based textures, the same the client falls back to
+const TEXTURES: Record<BiomeType, Omit<FallbackTexture, 'type'>> = {
+  ocean: {
+    backgroundColor: '#0a1628', gradientColors: ['#0a1628', '#1a365d', '#2563eb'],
+    patternType: 'waves', patternColor: '#3b82f6', patternOpacity: 0.3, accentColors: ['#06b6d4', '#0284c7']
+  },
+  forest: {
+    backgroundColor: '#0f2419', gradientColors: ['#0f2419', '#14532d', '#166534'],
+    patternType: 'organic', patternColor: '#22c55e', patternOpacity: 0.2, accentColors: ['#84cc16', '#4ade80']
+  },
+  desert: {
+    backgroundColor: '#451a03', gradientColors: ['#451a03', '#78350f', '#a16207'],
+    patternType: 'dots', patternColor: '#fbbf24', patternOpacity: 0.15, accentColors: ['#f59e0b', '#d97706']
+  },
+  tundra: {
+    backgroundColor: '#1e3a5f', gradientColors: ['#1e3a5f', '#60a5fa', '#bfdbfe'],
+    patternType: 'crystalline', patternColor: '#e0f2fe', patternOpacity: 0.25, accentColors: ['#7dd3fc', '#38bdf8']
+  },
+  swamp: {
+    backgroundColor: '#1a2e1a', gradientColors: ['#1a2e1a', '#365314', '#3f6212'],
+    patternType: 'cellular', patternColor: '#84cc16', patternOpacity: 0.2, accentColors: ['#65a30d', '#4d7c0f']
+  },
+  volcanic: {
+    backgroundColor: '#1c1917', gradientColors: ['#1c1917', '#7c2d12', '#ea580c'],
+    patternType: 'organic', patternColor: '#f97316', patternOpacity: 0.3, accentColors: ['#ef4444', '#dc2626']
+  },
+  grassland: {
+    backgroundColor: '#1a2e05', gradientColors: ['#1a2e05', '#365314', '#4d7c0f'],
+    patternType: 'dots', patternColor: '#a3e635', patternOpacity: 0.15, accentColors: ['#bef264', '#84cc16']
+  },
+  cave: {
+    backgroundColor: '#0f0f0f', gradientColors: ['#0f0f0f', '#1f1f1f', '#2a2a2a'],
+    patternType: 'crystalline', patternColor: '#6b7280', patternOpacity: 0.2, accentColors: ['#9ca3af', '#6b7280']
+  },
+  alien: {
+    backgroundColor: '#1e1b4b', gradientColors: ['#1e1b4b', '#4c1d95', '#7c3aed'],
+    patternType: 'cellular', patternColor: '#a855f7', patternOpacity: 0.3, accentColors: ['#c084fc', '#e879f9']
+  }
+};
+
+/**
+ * A provider that needs no API key or network. Worlds get a balanced food
+ * web of species named from word lists, evolution grows, mutates and
+ * splits the survivors by simple rules, and pictures are drawn as SVG.
+ */
+export function createOfflineProvider(random: Random = Math.random): AIProvider {
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const betweenInt = (min: number, max: number) => Math.floor(between(min, max + 1));
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)];
+  const round = (value: number, digits = 0) => Number(value.toFixed(digits));
+  // IDs come from the random source too, so a seeded provider repeats them
+  const idTag = Math.floor(random() * 36 ** 6).toString(36);
+  let nextId = 0;
+  const createId = (prefix: string) => `${prefix}-${idTag}-${(nextId++).toString(36)}`;
+
+  function buildWorld({ useRandom, worldConfig }: GenerateWorldRequest): WorldConfig {
+    const config = useRandom ? {} : worldConfig ?? {};
+    const biome = config.biome && BIOMES.includes(config.biome) ? config.biome : pick(BIOMES);
+    const climate = BIOME_CLIMATE[biome];
+    const humidity = config.humidity ?? Math.round(Math.min(100, Math.max(0, climate.humidity + between(-10, 10))));
+    const compounds: Compounds = {
+      oxygen: Math.round(between(40, 70)),
+      water: humidity,
+      nitrogen: Math.round(between(40, 80)),
+      carbon: Math.round(between(20, 50)),
+      minerals: Math.round(between(30, 70)),
+      ...config.compounds
+    };
+
+    return {
+      name: config.name || `${pick(WORLD_ADJECTIVES)} ${pick(BIOME_PLACES[biome])}`,
+      width: config.width ?? 1000,
+      height: config.height ?? 700,
+      gravity: config.gravity ?? round(between(0.6, 1.4), 1),
+      temperature: config.temperature ?? Math.round(climate.temperature + between(-5, 5)),
+      humidity,
+      compounds,
+      biome
+    };
+  }
+
+  function speciesName(type: OrganismType, biome: BiomeType, realOnly: boolean, taken: Set<string>): string {
+    const candidates = realOnly
+      ? REAL_SPECIES[biome][type]
+      : CREATURE_ADJECTIVES.flatMap(adjective => CREATURE_NOUNS[type].map(noun => `${adjective} ${noun}`));
+    const free = candidates.filter(name => !taken.has(name));
+    const name = free.length > 0 ? pick(free) : `${pick(VARIANT_PREFIXES)} ${pick(candidates)}`;
+    taken.add(name);
+    return name;
+  }
+
+  function createSpecies(type: OrganismType, name: string, world: WorldConfig, generation: number): Organism {
+    const profile = ROLES[type];
+    const locomotion: LocomotionType = type === 'plant'
+      ? 'sessile'
+      : type === 'microbe' ? 'floating' : pick(BIOME_LOCOMOTION[world.biome]);
+    const hue = between(...profile.hues) % 360;
+    const categories = [...profile.traits].sort(() => random() - 0.5).slice(0, 2);
+    const behavior = locomotion === 'swimming' && type === 'herbivore' ? 'schooling' : pick(profile.behaviors);
+
+    return {
+      id: '',
+      name,
+      species: name,
+      description: `A ${LOCOMOTION_WORDS[locomotion]} ${profile.role}.`,
+      ancestry: [],
+      generation,
+      type,
+      x: 0,
+      y: 0,
+      size: Math.round(between(...profile.size)),
+      color: hslToHex(hue, between(60, 85), between(45, 60)),
+      secondaryColor: hslToHex(hue + between(30, 180), between(50, 80), between(30, 70)),
+      energy: Math.round(between(60, 100)),
+      age: 0,
+      maxAge: Math.round(between(...profile.maxAge)),
+      speed: round(between(...profile.speed), 1),
+      traits: categories.map(category => ({
+        ...pick(TRAIT_NAMES[category]),
+        value: Math.round(between(30, 90)),
+        category
+      })),
+      behavior,
+      locomotion,
+      diet: profile.diet,
+      reproductionRate: round(between(...profile.reproductionRate), 3)
+    };
+  }
+
+  // A member of a species placed near the others, plants anywhere
+  function createMember(template: Organism, center: { x: number; y: number }, world: WorldConfig): Organism {
+    const point = template.type === 'plant'
+      ? randomPoint(world)
+      : { x: center.x + between(-150, 150), y: center.y + between(-150, 150) };
+    return {
+      ...template,
+      id: createId('org'),
+      x: Math.round(Math.min(world.width, Math.max(0, point.x))),
+      y: Math.round(Math.min(world.height, Math.max(0, point.y))),
+      energy: Math.round(between(60, 100)),
+      age: 0
+    };
+  }
+
+  /**
+   * Small shifts in an offspring's size, speed, color and traits. A genome
+   * it carries takes the same shifts, as the engine breeds from the genome
+   * and would otherwise undo them in the next generation.
+   */
+  function mutateOrganism(org: Organism, strength: number): Organism {
+    const shift = (value: number) => value * (1 + between(-strength, strength));
+    const size = Math.round(Math.min(80, Math.max(2, shift(org.size))));
+    const speed = round(Math.min(10, Math.max(0, shift(org.speed))), 1);
+    const color = shiftColor(org.color, strength * 80);
+    const traits = org.traits.map(trait => ({
+      ...trait,
+      value: Math.round(Math.min(100, Math.max(0, trait.value + between(-strength, strength) * 50)))
+    }));
+    const genome = org.genome && {
+      ...org.genome,
+      size,
+      speed,
+      color,
+      traits: traits.reduce<Record<string, number>>((genes, trait) => ({ ...genes, [trait.name]: trait.value }), {})
+    };
+    return { ...org, size, speed, color, traits, genome };
+  }
+
+  function shiftColor(color: string, amount: number): string {
+    const match = /^#([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(color);
+    if (!match) return color;
+    const channels = match.slice(1).map(channel =>
+      Math.round(Math.min(255, Math.max(0, parseInt(channel, 16) + between(-amount, amount))))
+    );
+    return '#' + channels.map(channel => channel.toString(16).padStart(2, '0')).join('');
+  }
+
+  function randomPoint(world: WorldConfig) {
+    return { x: between(0.1, 0.9) * world.width, y: between(0.1, 0.9) * world.height };
+  }
+
+  function generateWorld(request: GenerateWorldRequest): GeneratedWorld {
+    const world = buildWorld(request);
+    const taken = new Set<string>();
+    const organisms: Organism[] = [];
+    const names: Partial<Record<OrganismType, string[]>> = {};
+
+    COMMUNITY.forEach(({ type, species, members }) => {
+      const count = betweenInt(...species);
+      for (let i = 0; i < count; i++) {
+        const name = speciesName(type, world.biome, !!request.realOrganismsOnly, taken);
+        const template = createSpecies(type, name, world, 1);
+        const center = randomPoint(world);
+        // Groups need numbers to look like groups
+        const memberCount = template.behavior === 'social' || template.behavior === 'schooling'
+          ? betweenInt(members[1], members[1] + 1)
+          : betweenInt(...members);
+        for (let j = 0; j < memberCount; j++) organisms.push(createMember(template, center, world));
+        names[type] = [...(names[type] || []), name];
+      }
+    });
+
+    const list = (items: string[] = []) =>
+      items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0] || 'nothing';
+    const narrative =
+      `${world.name} is a ${describeClimate(world)} ${world.biome} world. ` +
+      `${list(names.plant)} feed ${list([...(names.herbivore || []), ...(names.omnivore || [])])}, ` +
+      `while ${list(names.carnivore)} hunt among them. ${list(names.decomposer)} clear away what is left.`;
+
+    return { world, organisms, narrative };
+  }
+
+  function evolve({ generation, world, organisms, statistics, realOrganismsOnly }: EvolveRequest): EvolveResponse {
+    const next = generation + 1;
+    const events: SimulationEvent[] = [];
+    const addEvent = (event: Omit<SimulationEvent, 'id' | 'tick'>) =>
+      events.push({ ...event, id: createId('event'), tick: 0 });
+
+    (statistics.extinctions || []).forEach(species => addEvent({
+      type: 'extinction',
+      title: `The ${species} Vanishes`,
+      description: `The last of the ${species} died during generation ${generation}.`,
+      affectedOrganisms: [],
+      significance: 'major'
+    }));
+
+    if (organisms.length === 0) {
+      return {
+        organisms: [],
+        events,
+        worldChanges: {},
+        narrative: `Nothing survived generation ${generation} in ${world.name}. The world falls silent.`,
+        shouldContinue: false,
+        nextGenerationSuggestions: []
+      };
+    }
+
+    // Every species grows by its reproduction rate, plants the most
+    const groups = new Map<string, Organism[]>();
+    organisms.forEach(org => groups.set(org.species, [...(groups.get(org.species) || []), org]));
+    const targets = new Map<string, number>();
+    groups.forEach((members, species) => {
+      const rate = members.reduce((sum, org) => sum + org.reproductionRate, 0) / members.length;
+      const growth = Math.min(0.8, Math.max(0.2, rate * 10));
+      targets.set(species, Math.min(members.length + 4, Math.round(members.length * (1 + growth))));
+    });
+    const total = Array.from(targets.values()).reduce((sum, count) => sum + count, 0);
+    if (total > MAX_POPULATION) {
+      targets.forEach((count, species) =>
+        targets.set(species, Math.max(1, Math.floor(count * MAX_POPULATION / total))));
+    }
+
+    const nextOrganisms: Organism[] = [];
+    groups.forEach((members, species) => {
+      const target = targets.get(species)!;
+      const center = randomPoint(world);
+      const survivors = members.slice(0, target).map(org => createMember(org, center, world));
+      const offspring = Array.from({ length: Math.max(0, target - survivors.length) }, () =>
+        createMember(mutateOrganism(pick(members), 0.1), center, world));
+      nextOrganisms.push(...survivors, ...offspring);
+    });
+
+    // The biggest animal species may split off a new one
+    const animals = Array.from(groups.entries()).filter(([, members]) => members[0].type !== 'plant');
+    const largest = animals.sort((a, b) => b[1].length - a[1].length)[0];
+    let newSpecies: string | null = null;
+    if (largest && largest[1].length >= 3 && random() < 0.6) {
+      const parent = largest[1][0];
+      const noun = parent.name.split(' ').pop()!;
+      const taken = new Set(nextOrganisms.map(org => org.species));
+      const candidates = realOrganismsOnly
+        ? VARIANT_PREFIXES.map(prefix => `${prefix} ${parent.name}`)
+        : CREATURE_ADJECTIVES.map(adjective => `${adjective} ${noun}`);
+      const free = candidates.filter(name => !taken.has(name) && name !== parent.name);
+      if (free.length > 0) {
+        const name = pick(free);
+        newSpecies = name;
+        const splitters = nextOrganisms.filter(org => org.species === parent.species).slice(-2);
+        splitters.forEach(org => {
+          Object.assign(org, mutateOrganism(org, 0.25), {
+            name,
+            species: name,
+            ancestry: [...(org.ancestry || []), parent.name],
+            generation: next,
+            description: `A descendant of the ${parent.name} that has started to go its own way.`
+          });
+        });
+        addEvent({
+          type: 'speciation',
+          title: `The ${name} Emerges`,
+          description: `A group of ${parent.name} has drifted far enough from its kin to become the ${name}.`,
+          affectedOrganisms: splitters.map(org => org.id),
+          significance: 'major'
+        });
+      }
+    }
+
+    const [boom] = Array.from(groups.entries())
+      .map(([species, members]) => ({ species, growth: targets.get(species)! - members.length }))
+      .filter(({ growth }) => growth > 0)
+      .sort((a, b) => b.growth - a.growth);
+    if (boom) {
+      addEvent({
+        type: 'population_boom',
+        title: `The ${boom.species} Thrives`,
+        description: `The ${boom.species} had the best run and gained ${boom.growth} members.`,
+        affectedOrganisms: nextOrganisms.filter(org => org.species === boom.species).map(org => org.id),
+        significance: 'moderate'
+      });
+    }
+
+    const counts = new Map<string, number>();
+    nextOrganisms.forEach(org => counts.set(org.species, (counts.get(org.species) || 0) + 1));
+    const [dominant, dominantCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    if (dominantCount / nextOrganisms.length > 0.35) {
+      addEvent({
+        type: 'dominance',
+        title: `The ${dominant} Takes Over`,
+        description: `More than a third of all life in ${world.name} is now ${dominant}.`,
+        affectedOrganisms: [],
+        significance: 'moderate'
+      });
+    }
+
+    // Plants turn carbon into oxygen, animals the other way round
+    const plantShare = nextOrganisms.filter(org => org.type === 'plant').length / nextOrganisms.length;
+    const exchange = Math.round((plantShare - 0.4) * 10);
+    const clamp = (value: number) => Math.min(100, Math.max(0, value));
+    const worldChanges: Partial<WorldConfig> = {
+      compounds: {
+        ...world.compounds,
+        oxygen: clamp(world.compounds.oxygen + exchange),
+        carbon: clamp(world.compounds.carbon - exchange)
+      }
+    };
+    const drift = Math.round(between(-3, 3));
+    if (Math.abs(drift) >= 2) {
+      worldChanges.temperature = Math.min(100, Math.max(-50, world.temperature + drift));
+      addEvent({
+        type: 'climate_change',
+        title: drift > 0 ? 'A Warm Spell' : 'A Cold Snap',
+        description: `Temperatures ${drift > 0 ? 'rose' : 'fell'} by ${Math.abs(drift)}°C across ${world.name}.`,
+        affectedOrganisms: [],
+        significance: 'minor'
+      });
+    }
+
+    const rarest = Array.from(counts.entries()).sort((a, b) => a[1] - b[1])[0][0];
+    return {
+      organisms: nextOrganisms,
+      events,
+      worldChanges,
+      narrative:
+        `Generation ${next} of ${world.name} begins with ${nextOrganisms.length} organisms. ` +
+        (events.length > 0 ? events.map(event => event.description).join(' ') : 'It was a quiet generation.'),
+      shouldContinue: true,
+      nextGenerationSuggestions: [
+        `Will the ${dominant} keep its lead?`,
+        newSpecies ? `The ${newSpecies} must find a niche of its own` : `A new species may branch off the ${largest?.[0] ?? dominant}`,
+        `The ${rarest} is close to dying out`
+      ]
+    };
+  }
+
+  return {
+    name: 'offline',
+
+    async generateWorld(request, onProgress) {
+      const generated = generateWorld(request);
+      onProgress?.({ stage: 'world', world: generated.world });
+      generated.organisms.forEach(organism => onProgress?.({ stage: 'organism', organism }));
+      return generated;
+    },
+
+    async evolve(request, onProgress) {
+      const evolved = evolve(request);
+      evolved.organisms.forEach(organism => onProgress?.({ stage: 'organism', organism }));
+      return evolved;
+    },
+
+    // The rules' own names and account are as good as ours
+    async narrateEvolution({ outcome }) {
+      return outcome;
+    },
+
+    async generateTexture({ biome }) {
+      return { type: 'fallback', ...textureFor(biome) };
+    },
+
+    async generateOrganismImage({ organism, worldBiome }) {
+      return {
+        imageData: toDataUrl(drawPortrait(organism, textureFor(worldBiome))),
+        description: `A procedural portrait of the ${organism.name}`
+      };
+    },
+
+    async generateWorldImage({ world }) {
+      return {
+        imageData: toDataUrl(drawLandscape(textureFor(world.biome || 'forest'), random)),
+        description: `A procedural landscape of ${world.name || 'this world'}`
+      };
+    }
+  };
+}
+
+function textureFor(biome: string): Omit<FallbackTexture, 'type'> {
+  return TEXTURES[biome?.toLowerCase() as BiomeType] || TEXTURES.forest;
+}
+
+function describeClimate(world: WorldConfig): string {
+  const warmth = world.temperature < 0 ? 'frozen' : world.temperature > 40 ? 'scorching' : 'temperate';
+  const moisture = world.humidity > 70 ? 'humid' : world.humidity < 30 ? 'dry' : 'mild';
+  return `${warmth}, ${moisture}`;
+}
+
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+function toDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+// The organism's shape in its colors, over its biome's gradient
+function drawPortrait(org: Organism, texture: Omit<FallbackTexture, 'type'>): string {
+  const [top, middle, bottom] = texture.gradientColors;
+  const accent = org.secondaryColor || texture.patternColor;
+  const radius = 90 + Math.min(80, org.size * 2);
+  let body: string;
+
+  if (org.type === 'plant') {
+    const leaves = [-60, -25, 10, 45].map((angle, i) =>
+      `<ellipse cx="256" cy="${330 - i * 45}" rx="${radius * 0.5}" ry="${radius * 0.18}" fill="${org.color}" ` +
+      `transform="rotate(${angle} 256 ${330 - i * 45})"/>`
+    ).join('');
+    body = `<rect x="248" y="150" width="16" height="300" rx="8" fill="${accent}"/>${leaves}` +
+      `<circle cx="256" cy="150" r="${radius * 0.25}" fill="${accent}"/>`;
+  } else if (org.type === 'microbe') {
+    body = `<circle cx="256" cy="256" r="${radius}" fill="${org.color}" opacity="0.75"/>` +
+      `<circle cx="236" cy="236" r="${radius * 0.35}" fill="${accent}"/>`;
+  } else {
+    const spots = [[-0.4, -0.2], [0.1, -0.35], [0.35, 0.15], [-0.15, 0.3]].map(([dx, dy]) =>
+      `<circle cx="${256 + dx * radius}" cy="${276 + dy * radius * 0.7}" r="${radius * 0.12}" fill="${accent}"/>`
+    ).join('');
+    const eye = (x: number) =>
+      `<circle cx="${x}" cy="${276 - radius * 0.3}" r="${radius * 0.13}" fill="#ffffff"/>` +
+      `<circle cx="${x}" cy="${276 - radius * 0.28}" r="${radius * 0.06}" fill="#111111"/>`;
+    body = `<ellipse cx="256" cy="276" rx="${radius}" ry="${radius * 0.7}" fill="${org.color}"/>${spots}` +
+      eye(256 - radius * 0.3) + eye(256 + radius * 0.3);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">` +
+    `<defs><linearGradient id="bg" x1="0" y1="0" x2="0" y2="1">` +
+    `<stop offset="0" stop-color="${top}"/><stop offset="0.5" stop-color="${middle}"/><stop offset="1" stop-color="${bottom}"/>` +
+    `</linearGradient></defs><rect width="512" height="512" fill="url(#bg)"/>${body}</svg>`;
+}
+
+// Rolling hills in the biome's colors under a glowing sky
+function drawLandscape(texture: Omit<FallbackTexture, 'type'>, random: Random): string {
+  const [top, middle, bottom] = texture.gradientColors;
+  const hills = [texture.accentColors[0], texture.patternColor, texture.backgroundColor].map((color, layer) => {
+    const base = 330 + layer * 80;
+    const points = Array.from({ length: 9 }, (_, i) => `${i * 128},${Math.round(base - random() * 90)}`);
+    return `<polygon points="0,576 ${points.join(' ')} 1024,576" fill="${color}" opacity="${0.6 + layer * 0.2}"/>`;
+  }).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="576" viewBox="0 0 1024 576">` +
+    `<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">` +
+    `<stop offset="0" stop-color="${bottom}"/><stop offset="0.6" stop-color="${middle}"/><stop offset="1" stop-color="${top}"/>` +
+    `</linearGradient></defs><rect width="1024" height="576" fill="url(#sky)"/>` +
+    `<circle cx="${Math.round(200 + random() * 600)}" cy="140" r="60" fill="${texture.accentColors[1]}" opacity="0.8"/>` +
+    `${hills}</svg>`;
+}
@@ -0,0 +1,421 @@
+import type { Organism } from '../../src/types';
+import type { GenerateWorldRequest, NarrateEvolutionRequest, TextureRequest, TimeSeriesSample, WorldImageRequest } from './types';
+
+// Prompts for Gemini and Imagen, one per kind of request
+
+export function generateWorldPrompt(useRandom?: boolean, worldConfig?: GenerateWorldRequest['worldConfig'], realOrganismsOnly?: boolean): string {
+  const organismInstruction = realOrganismsOnly 
+    ? `CRITICAL: ONLY generate organisms that ACTUALLY EXIST ON EARTH. Use real species like "Ladybug", "Tree Frog", "Clownfish", "Mushroom", "Oak Tree", "Garden Snail", etc.
+Do NOT invent fictional creatures. Each organism must be a real Earth species (plant, animal, fungus, or microbe) appropriate for the chosen biome.`
+    : `IMPORTANT: Use COMMON, FRIENDLY NAMES for organisms - like "Spotted Floater", "Crystal Muncher", "Swamp Hopper", etc.
+Avoid scientific Latin-style names. Make names fun, descriptive, and easy to remember.`;
+
+  return `You are a world generation AI for a life simulation game called Petridise. 
+Generate a complete starting environment with MANY diverse organisms in JSON format.
+The simulation should be VISUALLY IMPRESSIVE and ACTIVE with lots of movement and interactions.
+
+${useRandom ? 'Create a completely random and unique world with interesting characteristics.' : 
+`Use these world parameters as a starting point:
+${JSON.stringify(worldConfig, null, 2)}`}
+
+${organismInstruction}
+
+Return a JSON object with this exact structure:
+{
+  "world": {
+    "name": "string - creative name for this world",
+    "width": number (800-1600),
+    "height": number (600-1200),
+    "gravity": number (0.1-2.0, where 1.0 is Earth-like),
+    "temperature": number (-50 to 100 Celsius),
+    "humidity": number (0-100 percentage),
+    "compounds": {
+      "oxygen": number (0-100),
+      "water": number (0-100),
+      "nitrogen": number (0-100),
+      "carbon": number (0-100),
+      "minerals": number (0-100)
+    },
+    "biome": "ocean" | "forest" | "desert" | "tundra" | "swamp" | "volcanic" | "grassland" | "cave" | "alien"
+  },
+  "organisms": [
+    {
+      "id": "unique string id",
+      "name": "friendly common name like 'Fuzzy Bouncer' or 'Golden Drifter'",
+      "species": "short species group name like 'Bouncers' or 'Drifters'",
+      "description": "One sentence describing what makes this creature unique",
+      "ancestry": [],
+      "generation": 1,
+      "type": "plant" | "herbivore" | "carnivore" | "omnivore" | "decomposer" | "microbe",
+      "x": number (0 to world width),
+      "y": number (0 to world height),
+      "size": number (8-45 pixels),
+      "color": "hex color string like #FF5733",
+      "secondaryColor": "hex color string for patterns/details",
+      "energy": number (60-100),
+      "age": 0,
+      "maxAge": number (200-800 ticks),
+      "speed": number (1.0-4.0 - make things FASTER for visual interest),
+      "traits": [
+        {
+          "name": "trait name",
+          "value": number (0-100),
+          "description": "what this trait does",
+          "category": "camouflage" | "armor" | "venom" | "senses" | "metabolism" | "fertility" (what the trait does in the simulation)
+        }
+      ],
+      "behavior": "passive" | "aggressive" | "territorial" | "social" | "solitary" | "migratory" | "schooling" | "ambush" | "grazing",
+      "locomotion": "walking" | "swimming" | "flying" | "hopping" | "slithering" | "burrowing" | "floating" | "crawling" | "gliding" | "sessile",
+      "diet": "photosynthesis" | "herbivore" | "carnivore" | "omnivore" | "decomposer",
+      "reproductionRate": number (0.02-0.08)
+    }
+  ],
+  "narrative": "A creative 2-3 sentence description of this world and its ecosystem"
+}
+
+CRITICAL REQUIREMENTS FOR AN IMPRESSIVE SIMULATION:
+1. Generate 20-30 diverse organisms for a lively ecosystem
+2. Include MULTIPLE organisms of the same species (3-5 of social/schooling species) for group behaviors
+3. Use varied locomotion types appropriate for the biome:
+   - Ocean/Swamp: mostly "swimming", "floating", some "crawling"
+   - Forest/Grassland: "walking", "flying", "hopping", "crawling", "slithering"
+   - Desert: "walking", "burrowing", "slithering", "hopping"
+   - Tundra: "walking", "flying", "swimming"
+   - Cave: "crawling", "flying", "slithering", "burrowing"
+   - Volcanic: "flying", "crawling", "hopping"
+   - Alien: mix of all types including "gliding", "floating"
+4. Plants should have locomotion: "sessile"
+5. Include social/schooling behaviors for fish-like or herd animals (they look amazing in groups)
+6. Use "ambush" for predators that hide and strike
+7. Use "grazing" for peaceful herbivores
+8. Make speeds between 1.5-3.5 for active movement (except plants)
+9. Spread organisms across the ENTIRE world - don't cluster them
+10. Use vibrant, contrasting colors for visual appeal
+11. Create a balanced food chain with producers, primary consumers, and apex predators
+
+${realOrganismsOnly 
+    ? 'Use ONLY real Earth species appropriate for the biome. Include real plants, animals, fungi, and microbes that would naturally exist in this environment.'
+    : `Make the organisms creative and unique with interesting traits that match the biome.
+Use fun, memorable names that describe the creature (e.g., "Bubble Blower", "Spike Runner", "Glow Crawler").`}
+
+Ensure organisms are placed at VARIED coordinates throughout the world dimensions for visual spread.`;
+}
+
+// Condense the run's samples into a dozen rows, summing births, deaths and
+// predations over each row's span so nothing is dropped
+function summarizeTimeSeries(samples: TimeSeriesSample[] = []): string {
+  if (samples.length === 0) return 'Not recorded.';
+
+  const span = Math.ceil(samples.length / 12);
+  const rows: string[] = [];
+  for (let i = 0; i < samples.length; i += span) {
+    const bucket = samples.slice(i, i + span);
+    const last = bucket[bucket.length - 1];
+    const sum = (key: 'births' | 'deaths' | 'predations') =>
+      bucket.reduce((total, sample) => total + sample[key], 0);
+    const species = Object.entries(last.bySpecies)
+      .map(([name, count]) => `${name} ${count}`)
+      .join(', ');
+    rows.push(
+      `tick ${last.tick}: ${last.population} alive (${species || 'none'}), mean energy ${last.meanEnergy}, ` +
+      `births ${sum('births')}, deaths ${sum('deaths')}, predations ${sum('predations')}`
+    );
+  }
+  return rows.join('\n');
+}
+
+export function generateEvolvePrompt(
+  generation: number,
+  world: object,
+  organisms: object[],
+  events: object[],
+  statistics: object,
+  samples?: TimeSeriesSample[],
+  realOrganismsOnly?: boolean
+): string {
+  const organismInstruction = realOrganismsOnly
+    ? `CRITICAL: ONLY use organisms that ACTUALLY EXIST ON EARTH. All organisms must be real species.
+When new organisms appear or evolve, they must still be real Earth species appropriate for the biome.
+Use subspecies or regional variants if needed (e.g., "Arctic Fox" from "Red Fox"), but never invent fictional creatures.
+Track ancestry - each evolved organism should include its parent's name in the ancestry array.`
+    : `IMPORTANT: Use COMMON, FRIENDLY NAMES for all organisms - like "Spotted Floater", "Crystal Muncher", "Swamp Hopper", etc.
+When new species evolve, give them fun descriptive names based on their parent (e.g., "Swift Floater" evolved from "Spotted Floater").
+Track ancestry - each evolved organism should include its parent's name in the ancestry array.`;
+
+  return `You are an evolution AI for a life simulation called Petridise.
+Analyze the current state of the simulation and generate the next generation.
+
+${organismInstruction}
+
+Current Generation: ${generation}
+Current World State:
+${JSON.stringify(world, null, 2)}
+
+Surviving Organisms (${organisms.length} total):
+${JSON.stringify(organisms, null, 2)}
+
+Events that occurred this generation (logged by the simulation as they happened, base your narrative on them):
+${JSON.stringify(events, null, 2)}
+
+Statistics (biodiversityIndex is Simpson's diversity from 0 to 1, shannonIndex is Shannon's H', deathsByCause splits deaths into starvation, old age, predation and disease, extinctions lists species that died out during the run):
+${JSON.stringify(statistics, null, 2)}
+
+Population over time during this generation:
+${summarizeTimeSeries(samples)}
+
+Based on this data, generate the evolved state for generation ${generation + 1}.
+Consider:
+- Natural selection based on organism traits and survival, and on what killed the dead (traits have real effects: camouflage hides from predators, armor resists attacks, venom makes attacks succeed, senses widen detection, metabolism saves energy, fertility speeds reproduction)
+- Possible mutations and evolution of surviving species
+- New species that might emerge (with creative common names)
+- Environmental changes based on organism activity (worldChanges drive the next run: carbon, water and humidity feed photosynthesis, cold slows cold-blooded organisms, low oxygen limits activity, heat and dryness drain energy)
+- Population dynamics and carrying capacity (use the population over time: booms, crashes and predator/prey cycles)
+- Possible disease outbreaks or natural disasters
+- Symbiotic relationships that may form
+- Evolution of locomotion types (organisms might develop flight, swimming, burrowing abilities)
+
+Return a JSON object with this exact structure:
+{
+  "organisms": [
+    // Each organism should have: id, name (common friendly name), species, description, ancestry (array of ancestor names), 
+    // generation (first generation this species appeared), type, x, y, size, color, secondaryColor, energy, age, maxAge, speed, traits, 
+    // behavior (passive|aggressive|territorial|social|solitary|migratory|schooling|ambush|grazing),
+    // locomotion (walking|swimming|flying|hopping|slithering|burrowing|floating|crawling|gliding|sessile),
+    // diet, reproductionRate
+    // Each trait: { name, value (0-100), description, category (camouflage|armor|venom|senses|metabolism|fertility) }
+  ],
+  "events": [
+    {
+      "id": "unique event id",
+      "tick": 0,
+      "type": "birth" | "death" | "evolution" | "mutation" | "migration" | "disease" | "extinction" | "speciation" | "climate_change" | "natural_disaster" | "symbiosis" | "predation" | "population_boom" | "population_crash" | "dominance",
+      "title": "Short event title",
+      "description": "Detailed description of what happened",
+      "affectedOrganisms": ["list of organism ids affected"],
+      "significance": "minor" | "moderate" | "major" | "catastrophic"
+    }
+  ],
+  "worldChanges": {
+    // Any changes to the world parameters (temperature, humidity, compounds, etc.)
+    // Only include fields that changed
+  },
+  "narrative": "A 2-4 sentence story about what happened in this generation and what to expect next",
+  "shouldContinue": boolean (true if the simulation should continue, false if all life is extinct or a major milestone was reached),
+  "nextGenerationSuggestions": ["List of 2-3 interesting things that might happen next generation"]
+}
+
+IMPORTANT FOR VISUAL IMPRESSIVENESS:
+- Maintain 20-35 organisms for an active simulation
+- Include multiple organisms of social/schooling species (3-6 of the same species)
+- Evolved organisms should have appropriate locomotion for their biome
+- Use vibrant, contrasting colors and secondary colors for patterns
+- Create dramatic events with major significance occasionally
+- Make speeds between 1.5-3.5 for active movement
+
+Be creative but scientifically plausible. Create dramatic moments and evolutionary breakthroughs.
+Generate at least 2-5 significant events. If organisms are thriving, allow reproduction to increase population (up to ~35 organisms).
+If organisms are struggling, show realistic die-offs and adaptations.`;
+}
+
+export function generateNarrationPrompt(
+  { generation, world, outcome, realOrganismsOnly }: NarrateEvolutionRequest,
+  newSpecies: Organism[]
+): string {
+  const namingInstruction = realOrganismsOnly
+    ? `CRITICAL: New species must be named after organisms that ACTUALLY EXIST ON EARTH.
+Use subspecies or regional variants of the parent (e.g., "Arctic Fox" from "Red Fox"), never invent fictional creatures.`
+    : `IMPORTANT: Give new species COMMON, FRIENDLY NAMES based on their parent and what changed about them
+(e.g., "Swift Floater" evolved from "Spotted Floater"). Avoid scientific Latin-style names.`;
+
+  const counts: Record<string, number> = {};
+  outcome.organisms.forEach(org => {
+    counts[org.species] = (counts[org.species] || 0) + 1;
+  });
+  const population = Object.keys(counts).map(species => `${species}: ${counts[species]}`).join(', ');
+
+  const species = newSpecies.map(org => ({
+    species: org.species,
+    name: org.name,
+    parentSpecies: org.ancestry?.[org.ancestry.length - 1],
+    type: org.type,
+    diet: org.diet,
+    locomotion: org.locomotion,
+    size: org.size,
+    speed: org.speed,
+    traits: org.traits.map(trait => `${trait.name} (${trait.value})`)
+  }));
+
+  const events = outcome.events.map(({ id, type, title, description, significance }) =>
+    ({ id, type, title, description, significance }));
+
+  return `You are the narrator of a life simulation called Petridise.
+The simulation's rules have already decided how generation ${generation} of "${world.name}" (a ${world.biome} world at ${world.temperature}°C) evolved into generation ${generation + 1}.
+Your job is only to name what is new and tell the story. Do not change what happened.
+
+${namingInstruction}
+
+New species that split off this generation (current placeholder names):
+${species.length > 0 ? JSON.stringify(species, null, 2) : 'None this generation.'}
+
+Population going into generation ${generation + 1}:
+${population || 'Nothing is left alive.'}
+
+What happened, as the rules logged it:
+${JSON.stringify(events, null, 2)}
+
+Changes to the world:
+${JSON.stringify(outcome.worldChanges, null, 2)}
+
+Return a JSON object with this exact structure:
+{
+  "species": [
+    { "from": "placeholder species name", "species": "your new species name", "name": "common name for its members" }
+  ],
+  "events": [
+    { "id": "id of the event being retold", "title": "Short event title", "description": "What happened, vividly but faithfully" }
+  ],
+  "narrative": "A 2-4 sentence story about what happened in this generation and what to expect next",
+  "nextGenerationSuggestions": ["List of 2-3 interesting things that might happen next generation"]
+}
+
+Name every new species listed above and nothing else. Retell each event under its own id, and use your new species names in event text and the narrative.`;
+}
+
+export function generateTexturePrompt(biome: string, world: TextureRequest['world']): string {
+  const temp = world.temperature ?? 20;
+  const humidity = world.humidity ?? 50;
+  
+  // Build color palette based on temperature
+  let colorPalette = '';
+  if (temp > 40) colorPalette = 'warm orange and red tones';
+  else if (temp < 0) colorPalette = 'cool blue and white tones';
+  else colorPalette = 'natural earth tones, greens and browns';
+
+  // Texture type based on humidity
+  let textureType = '';
+  if (humidity > 70) textureType = 'fluid, organic, flowing patterns';
+  else if (humidity < 30) textureType = 'cracked, granular, dusty patterns';
+  else textureType = 'smooth cellular patterns';
+
+  // Biome-specific texture descriptions
+  const biomeTextures: Record<string, string> = {
+    'aquatic': 'water caustics texture, rippling light patterns, deep blue-green gradient',
+    'forest': 'moss texture, leaf litter pattern, dappled green surface',
+    'desert': 'sand grain texture, tan and beige gradients, subtle dune ripples',
+    'volcanic': 'lava rock texture, dark basalt with orange cracks, molten highlights',
+    'arctic': 'ice crystal texture, frost patterns, pale blue-white surface',
+    'swamp': 'murky water texture, algae patterns, dark green-brown gradients',
+    'grassland': 'grass blade texture pattern, yellow-green gradient surface',
+    'cave': 'stone texture, mineral deposits, dark grey with crystal highlights'
+  };
+
+  const biomeTexture = biomeTextures[biome.toLowerCase()] || 'organic cellular texture, natural gradient';
+
+  return `Abstract texture pattern for game background. ${biomeTexture}. 
+${colorPalette}. ${textureType}.
+Style: flat digital illustration, hand-painted game asset, stylized texture.
+Requirements: seamless tileable texture, soft gradients, no distinct objects or creatures.
+This is a subtle backdrop - not busy or distracting. Minimal detail.
+No realistic photographs, no 3D rendering, no text labels.`;
+}
+
+export function generateOrganismImagePrompt(organism: Organism, worldBiome: string): string {
+  // Build a detailed description of the organism for photorealistic rendering
+  const typeDescriptions: Record<string, string> = {
+    'plant': 'plant organism, botanical illustration style',
+    'herbivore': 'peaceful herbivorous creature, gentle eyes',
+    'carnivore': 'predatory creature with sharp features, intense gaze',
+    'omnivore': 'versatile creature with adaptive features',
+    'decomposer': 'fungal or bacterial organism, organic decomposition specialist',
+    'microbe': 'microscopic organism, cellular structures visible'
+  };
+
+  const biomeEnvironments: Record<string, string> = {
+    'ocean': 'underwater environment, aquatic, bioluminescent depths',
+    'forest': 'lush forest floor, dappled sunlight, green foliage',
+    'desert': 'arid sandy environment, harsh sunlight, dry conditions',
+    'tundra': 'frozen tundra, snow and ice, cold environment',
+    'swamp': 'murky swamp waters, humid, dense vegetation',
+    'volcanic': 'volcanic environment, heat resistant, ash and lava nearby',
+    'grassland': 'open grassland, sunny meadow, waving grass',
+    'cave': 'dark cave environment, stalactites, mysterious lighting',
+    'alien': 'otherworldly alien planet, strange bioluminescent environment'
+  };
+
+  const typeDesc = typeDescriptions[organism.type] || 'mysterious creature';
+  const envDesc = biomeEnvironments[worldBiome?.toLowerCase()] || 'natural environment';
+  
+  // Build trait description
+  const traitList = organism.traits?.map(t => t.name).join(', ') || 'unique features';
+  
+  // Size description
+  let sizeDesc = 'medium-sized';
+  if (organism.size < 15) sizeDesc = 'tiny, microscopic';
+  else if (organism.size < 25) sizeDesc = 'small';
+  else if (organism.size > 40) sizeDesc = 'large, imposing';
+  
+  // Behavior description
+  const behaviorDesc: Record<string, string> = {
+    'passive': 'calm and docile appearance',
+    'aggressive': 'fierce and intimidating stance',
+    'territorial': 'alert and watchful posture',
+    'social': 'friendly and approachable demeanor',
+    'solitary': 'isolated and self-reliant look',
+    'migratory': 'streamlined for travel'
+  };
+
+  const behaviorText = behaviorDesc[organism.behavior || ''] || '';
+
+  return `Photorealistic nature documentary photograph of a ${sizeDesc} ${typeDesc} called "${organism.name}".
+Species: ${organism.species}. 
+${organism.description ? `Description: ${organism.description}.` : ''}
+Color: ${organism.color} dominant coloring.
+Traits: ${traitList}.
+Personality: ${behaviorText}.
+Environment: ${envDesc}.
+Style: National Geographic wildlife photography, studio quality, dramatic lighting.
+Sharp focus on the creature, shallow depth of field, professional nature photography.
+Highly detailed, lifelike textures, anatomically plausible fantasy creature design.`;
+}
+
+export function generateWorldImagePrompt(world: WorldImageRequest['world']): string {
+  const biome = world.biome || 'forest';
+  const temp = world.temperature ?? 20;
+  const humidity = world.humidity ?? 50;
+  
+  // Biome-specific landscape descriptions
+  const biomeScenes: Record<string, string> = {
+    'ocean': 'vast underwater seascape, coral reefs, sunlight filtering through water, schools of fish silhouettes, deep blue gradient',
+    'forest': 'lush ancient forest, towering trees, dappled sunlight through canopy, moss-covered ground, mystical atmosphere',
+    'desert': 'sweeping sand dunes, golden hour lighting, distant rocky outcrops, heat shimmer, clear sky with few clouds',
+    'tundra': 'frozen arctic landscape, snow-covered plains, aurora borealis in sky, ice formations, distant mountains',
+    'swamp': 'misty wetland, cypress trees draped with moss, murky water reflections, fog rising, twilight atmosphere',
+    'volcanic': 'dramatic volcanic landscape, glowing lava rivers, black rock formations, ash clouds, fiery orange sky',
+    'grassland': 'endless rolling hills of grass, wildflowers, dramatic clouds, golden savanna sunset, scattered acacia trees',
+    'cave': 'majestic underground cavern, bioluminescent formations, crystal stalactites, underground lake, ethereal lighting',
+    'alien': 'otherworldly alien planet, strange rock formations, multiple moons in sky, bioluminescent plants, purple and cyan colors'
+  };
+  
+  // Temperature-based atmosphere
+  let atmosphereDesc = '';
+  if (temp < 0) atmosphereDesc = 'cold and icy atmosphere, frost crystals in air';
+  else if (temp > 40) atmosphereDesc = 'hot and hazy atmosphere, heat distortion';
+  else atmosphereDesc = 'temperate and comfortable atmosphere';
+  
+  // Humidity effects
+  let humidityDesc = '';
+  if (humidity > 70) humidityDesc = 'misty and humid, water droplets visible';
+  else if (humidity < 30) humidityDesc = 'dry and arid, dust particles in air';
+  else humidityDesc = 'balanced moisture in air';
+  
+  const sceneDesc = biomeScenes[biome.toLowerCase()] || biomeScenes['forest'];
+  
+  return `Breathtaking panoramic landscape photograph of "${world.name}", a ${biome} environment.
+Scene: ${sceneDesc}.
+Atmosphere: ${atmosphereDesc}, ${humidityDesc}.
+Temperature feels like ${temp}°C.
+Style: National Geographic landscape photography, cinematic wide angle shot, golden hour lighting.
+Ultra-detailed, 8K quality, dramatic composition, nature documentary style.
+No text, no people, no animals in focus - pure landscape vista.
+Photorealistic, awe-inspiring natural beauty.`;
+}
@@ -0,0 +1,117 @@
+import type { EvolveResponse, GenerationProgress, Organism, SimulationEvent, WorldConfig } from '../../src/types';
+import type { GeneratedWorld, SchemaViolation } from '../../src/types/schemas';
+
+export interface GenerateWorldRequest {
+  useRandom?: boolean;
+  realOrganismsOnly?: boolean;
+  worldConfig?: Partial<WorldConfig>;
+}
+
+export interface TimeSeriesSample {
+  tick: number;
+  population: number;
+  bySpecies: Record<string, number>;
+  meanEnergy: number;
+  births: number;
+  deaths: number;
+  predations: number;
+}
+
+export interface EvolveRequest {
+  generation: number;
+  world: WorldConfig;
+  organisms: Organism[];
+  events: SimulationEvent[];
+  statistics: {
+    extinctions?: string[];
+    [key: string]: unknown;
+  };
+  timeSeries?: { interval: number; samples: TimeSeriesSample[] };
+  realOrganismsOnly?: boolean;
+  temperature?: number; // Sampling temperature for the model, 0-2
+}
+
+// An evolution the rules already decided, for the AI to name and narrate
+export interface NarrateEvolutionRequest extends EvolveRequest {
+  outcome: EvolveResponse;
+}
+
+export interface TextureRequest {
+  biome: string;
+  world: Partial<WorldConfig>;
+  width?: number;
+  height?: number;
+}
+
+export interface OrganismImageRequest {
+  organism: Organism;
+  worldBiome: string;
+}
+
+export interface WorldImageRequest {
+  world: Partial<WorldConfig>;
+}
+
+// Same shapes as TextureConfig in src/game/MainScene.ts
+export interface FallbackTexture {
+  type: 'fallback';
+  backgroundColor: string;
+  gradientColors: string[];
+  patternType: 'dots' | 'waves' | 'cellular' | 'organic' | 'crystalline' | 'cloudy';
+  patternColor: string;
+  patternOpacity: number;
+  accentColors: string[];
+}
+
+export interface ImageTexture {
+  type: 'image';
+  imageData: string; // Base64 data URL
+  prompt: string;
+}
+
+export type Texture = FallbackTexture | ImageTexture;
+
+export interface GeneratedImage {
+  imageData: string; // Data URL
+  description: string;
+}
+
+// Told how a world or evolution is coming along, when the client streams it
+export type ProgressListener = (progress: GenerationProgress) => void;
+
+/**
+ * Where worlds, evolution and images come from. Each API route calls one
+ * of these, so a backend only has to turn requests into these shapes.
+ */
+export interface AIProvider {
+  name: string;
+  generateWorld(request: GenerateWorldRequest, onProgress?: ProgressListener): Promise<GeneratedWorld>;
+  evolve(request: EvolveRequest, onProgress?: ProgressListener): Promise<EvolveResponse>;
+  // Names the outcome's new species and retells it, without changing what happened
+  narrateEvolution(request: NarrateEvolutionRequest, onProgress?: ProgressListener): Promise<EvolveResponse>;
+  // Never fails, a provider falls back to a color-based texture
+  generateTexture(request: TextureRequest): Promise<Texture>;
+  generateOrganismImage(request: OrganismImageRequest): Promise<GeneratedImage>;
+  generateWorldImage(request: WorldImageRequest): Promise<GeneratedImage>;
+}
+
+// A failure to report to the client as is, with the status to send
+export class ProviderError extends Error {
+  status: number;
+  violations?: SchemaViolation[];
+
+  constructor(message: string, status = 500, violations?: SchemaViolation[]) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.violations = violations;
+  }
+}
+
+// The status and body to answer a failed request with
+export function toErrorResponse(error: unknown): { status: number; body: { error: string; violations?: SchemaViolation[] } } {
+  if (error instanceof ProviderError) {
+    return { status: error.status, body: { error: error.message, violations: error.violations } };
+  }
+  return { status: 500, body: { error: 'Internal server error' } };
+}
@@ -0,0 +1,143 @@
+import type { BiomeType, OrganismType, TraitCategory } from '../../src/types';
+
+// Words the offline provider builds its names from
+
+export const WORLD_ADJECTIVES = [
+  'Whispering', 'Glimmering', 'Verdant', 'Shattered', 'Sunken', 'Drifting',
+  'Hollow', 'Ember', 'Frosted', 'Tangled', 'Luminous', 'Silent', 'Restless', 'Ancient'
+];
+
+export const BIOME_PLACES: Record<BiomeType, string[]> = {
+  ocean: ['Reef', 'Shallows', 'Lagoon', 'Trench'],
+  forest: ['Grove', 'Thicket', 'Canopy', 'Woods'],
+  desert: ['Dunes', 'Wastes', 'Mesa', 'Flats'],
+  tundra: ['Icefield', 'Barrens', 'Permafrost', 'Snowfields'],
+  swamp: ['Bog', 'Mire', 'Fen', 'Bayou'],
+  volcanic: ['Caldera', 'Vents', 'Ashlands', 'Crater'],
+  grassland: ['Meadow', 'Plains', 'Savanna', 'Prairie'],
+  cave: ['Grotto', 'Cavern', 'Hollows', 'Depths'],
+  alien: ['Nebula', 'Expanse', 'Rift', 'Spires']
+};
+
+export const CREATURE_ADJECTIVES = [
+  'Spotted', 'Crystal', 'Swift', 'Golden', 'Glow', 'Fuzzy', 'Striped', 'Velvet',
+  'Ember', 'Frost', 'Dusky', 'Pebble', 'Thorny', 'Bubble', 'Shimmer', 'Moss',
+  'Copper', 'Silver', 'Ruby', 'Murky', 'Ringed', 'Tiny', 'Giant', 'Painted'
+];
+
+// The last word of a made-up name says what the creature is
+export const CREATURE_NOUNS: Record<OrganismType, string[]> = {
+  plant: ['Fern', 'Bloom', 'Reed', 'Frond', 'Sprout', 'Vine', 'Creeper', 'Tuft'],
+  herbivore: ['Grazer', 'Hopper', 'Nibbler', 'Muncher', 'Drifter', 'Bouncer', 'Browser'],
+  carnivore: ['Stalker', 'Fang', 'Hunter', 'Snapper', 'Prowler', 'Lurker'],
+  omnivore: ['Forager', 'Scrounger', 'Rummager', 'Wanderer', 'Gobbler'],
+  decomposer: ['Rotcap', 'Crumbler', 'Mulcher', 'Sporecap'],
+  microbe: ['Mote', 'Speck', 'Blob', 'Wisp']
+};
+
+// Prefixes for a real species' regional variants
+export const VARIANT_PREFIXES = ['Northern', 'Southern', 'Dwarf', 'Giant', 'Highland', 'Lowland', 'Spotted', 'Pale'];
+
+// Real species by biome, for worlds limited to Earth life
+export const REAL_SPECIES: Record<BiomeType, Record<OrganismType, string[]>> = {
+  ocean: {
+    plant: ['Kelp', 'Sea Grass', 'Red Algae'],
+    herbivore: ['Parrotfish', 'Sea Urchin', 'Green Sea Turtle', 'Surgeonfish'],
+    carnivore: ['Reef Shark', 'Moray Eel', 'Barracuda'],
+    omnivore: ['Blue Crab', 'Clownfish', 'Octopus'],
+    decomposer: ['Sea Cucumber', 'Bristle Worm'],
+    microbe: ['Diatom', 'Dinoflagellate']
+  },
+  forest: {
+    plant: ['Oak Tree', 'Fern', 'Moss', 'Wild Strawberry'],
+    herbivore: ['White-tailed Deer', 'Rabbit', 'Red Squirrel', 'Caterpillar'],
+    carnivore: ['Red Fox', 'Great Horned Owl', 'Garter Snake'],
+    omnivore: ['Black Bear', 'Raccoon', 'Blue Jay'],
+    decomposer: ['Oyster Mushroom', 'Earthworm', 'Woodlouse'],
+    microbe: ['Soil Bacteria', 'Amoeba']
+  },
+  desert: {
+    plant: ['Saguaro Cactus', 'Creosote Bush', 'Desert Marigold'],
+    herbivore: ['Desert Tortoise', 'Jackrabbit', 'Kangaroo Rat'],
+    carnivore: ['Rattlesnake', 'Roadrunner', 'Scorpion'],
+    omnivore: ['Coyote', 'Harvester Ant'],
+    decomposer: ['Darkling Beetle', 'Desert Termite'],
+    microbe: ['Cyanobacteria', 'Amoeba']
+  },
+  tundra: {
+    plant: ['Arctic Moss', 'Reindeer Lichen', 'Arctic Willow'],
+    herbivore: ['Caribou', 'Arctic Hare', 'Lemming'],
+    carnivore: ['Snowy Owl', 'Gray Wolf', 'Ermine'],
+    omnivore: ['Arctic Fox', 'Grizzly Bear', 'Raven'],
+    decomposer: ['Springtail', 'Snow Mold'],
+    microbe: ['Snow Algae', 'Tardigrade']
+  },
+  swamp: {
+    plant: ['Water Lily', 'Cattail', 'Duckweed'],
+    herbivore: ['Nutria', 'Apple Snail', 'Tadpole'],
+    carnivore: ['Alligator', 'Great Blue Heron', 'Cottonmouth'],
+    omnivore: ['Snapping Turtle', 'Crayfish', 'Raccoon'],
+    decomposer: ['Tubifex Worm', 'Slime Mold'],
+    microbe: ['Euglena', 'Paramecium']
+  },
+  volcanic: {
+    plant: ['Fireweed', 'Silversword', 'Lava Cactus'],
+    herbivore: ['Marine Iguana', 'Land Iguana', 'Grasshopper'],
+    carnivore: ['Peregrine Falcon', 'Lava Heron', 'Wolf Spider'],
+    omnivore: ['Raven', 'Hawaiian Crow'],
+    decomposer: ['Fire Morel', 'Springtail'],
+    microbe: ['Thermophile Bacteria', 'Archaea']
+  },
+  grassland: {
+    plant: ['Tall Grass', 'Sunflower', 'Clover', 'Acacia Tree'],
+    herbivore: ['Zebra', 'Gazelle', 'Bison', 'Grasshopper'],
+    carnivore: ['Lion', 'Cheetah', 'Red-tailed Hawk'],
+    omnivore: ['Warthog', 'Baboon', 'Meerkat'],
+    decomposer: ['Dung Beetle', 'Termite'],
+    microbe: ['Soil Bacteria', 'Nematode']
+  },
+  cave: {
+    plant: ['Cave Moss', 'Liverwort'],
+    herbivore: ['Cave Cricket', 'Cave Snail'],
+    carnivore: ['Cave Spider', 'Olm', 'Horseshoe Bat'],
+    omnivore: ['Cave Crayfish', 'Packrat'],
+    decomposer: ['Cave Millipede', 'Bracket Fungus'],
+    microbe: ['Iron Bacteria', 'Amoeba']
+  },
+  // The strangest life Earth has to offer
+  alien: {
+    plant: ['Bioluminescent Algae', 'Pitcher Plant', 'Stromatolite'],
+    herbivore: ['Sea Pig', 'Okapi', 'Sea Butterfly'],
+    carnivore: ['Anglerfish', 'Mantis Shrimp', 'Axolotl'],
+    omnivore: ['Aye-aye', 'Pink Fairy Armadillo'],
+    decomposer: ['Slime Mold', 'Ghost Fungus'],
+    microbe: ['Archaea', 'Tardigrade']
+  }
+};
+
+export const TRAIT_NAMES: Record<TraitCategory, { name: string; description: string }[]> = {
+  camouflage: [
+    { name: 'Mottled Skin', description: 'Blends into its surroundings' },
+    { name: 'Shifting Colors', description: 'Changes color to match what is nearby' }
+  ],
+  armor: [
+    { name: 'Thick Shell', description: 'Shrugs off bites and claws' },
+    { name: 'Spiny Hide', description: 'Spines make it painful to attack' }
+  ],
+  venom: [
+    { name: 'Venom Glands', description: 'A bite that subdues prey quickly' },
+    { name: 'Toxic Sting', description: 'Stings that make attacks land' }
+  ],
+  senses: [
+    { name: 'Keen Eyes', description: 'Spots food and danger from far away' },
+    { name: 'Whisker Sense', description: 'Feels movement in the surroundings' }
+  ],
+  metabolism: [
+    { name: 'Slow Metabolism', description: 'Needs little energy to get by' },
+    { name: 'Efficient Digestion', description: 'Gets more out of every meal' }
+  ],
+  fertility: [
+    { name: 'Rapid Breeding', description: 'Reproduces early and often' },
+    { name: 'Large Broods', description: 'Has many young at once' }
+  ]
+};
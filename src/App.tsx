@@ -1,4 +1,4 @@
-import { ConfigPanel, SimulationView, ResultsPanel, DebugPanel } from '@/components';
+import { ConfigPanel, SimulationView, ResultsPanel, BranchPanel, ComparisonView, DebugPanel, GeneratingView } from '@/components';
 import { useSimulation } from '@/hooks';
 import { useState } from 'react';
 
@@ -7,29 +7,45 @@ function App() {
     status,
     isGenerating,
     isEvolving,
+    preview,
     generation,
     world,
     organisms,
     events,
     stats,
+    timeSeries,
+    lineage,
+    history,
+    branches,
+    activeBranchId,
     texture,
     narrative,
     maxTicks,
+    seed,
     error,
     evolveResult,
+    evolutionMode,
+    updateEvolutionMode,
     generateWorld,
     continueSimulation,
     completeRun,
+    forkBranch,
+    switchBranch,
     reset,
     apiDebugHistory,
     clearDebugHistory,
     userApiKey,
     updateApiKey,
     downloadWorld,
-    importWorld
+    importWorld,
+    resumeWorld
   } = useSimulation();
 
   const [isImmersive, setIsImmersive] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const activeBranch = branches.find(branch => branch.id === activeBranchId);
+  // Comparing replaces the screen, so it waits until nothing is running
+  const canCompare = status === 'configuring' || status === 'completed';
 
   return (
     <div className="min-h-screen bg-petri-dark text-white">
@@ -46,114 +62,136 @@ function App() {
             </div>
           </div>
 
-          {status !== 'configuring' && (
-            <div className="flex items-center gap-4">
-              <div className="text-gray-400">
-                Generation: <span className="text-petri-glow font-bold">{generation}</span>
-              </div>
-              {world && (
+          <div className="flex items-center gap-4">
+            {status !== 'configuring' && (
+              <>
                 <div className="text-gray-400">
-                  World: <span className="text-white">{world.name}</span>
+                  Generation: <span className="text-petri-glow font-bold">{generation}</span>
                 </div>
-              )}
-            </div>
-          )}
+                {world && (
+                  <div className="text-gray-400">
+                    World: <span className="text-white">{world.name}</span>
+                  </div>
+                )}
+                {activeBranch && branches.length > 1 && (
+                  <div className="text-gray-400">
+                    Timeline: <span className="text-white">{activeBranch.name}</span>
+                  </div>
+                )}
+              </>
+            )}
+            {canCompare && (
+              <button
+                onClick={() => setIsComparing(prev => !prev)}
+                className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                  isComparing ? 'bg-petri-glow text-white' : 'bg-petri-accent text-gray-300 hover:text-white'
+                }`}
+                title="Compare two worlds or timelines"
+              >
+                ⚖️ Compare
+              </button>
+            )}
+          </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
-        {error && (
-          <div className="bg-red-900 border border-red-500 rounded-xl p-4 mb-6 flex items-center gap-3">
-            <span className="text-2xl">⚠️</span>
-            <div>
-              <h3 className="font-bold text-red-200">Error</h3>
-              <p className="text-red-300">{error}</p>
-            </div>
-            <button
-              onClick={reset}
-              className="ml-auto px-4 py-2 bg-red-800 rounded-lg hover:bg-red-700 transition-colors"
-            >
-              Dismiss
-            </button>
-          </div>
-        )}
+        {isComparing && canCompare ? (
+          <ComparisonView
+            branches={branches}
+            activeBranchId={activeBranchId}
+            onClose={() => setIsComparing(false)}
+          />
+        ) : (
+          <>
+            {error && (
+              <div className="bg-red-900 border border-red-500 rounded-xl p-4 mb-6 flex items-center gap-3">
+                <span className="text-2xl">⚠️</span>
+                <div>
+                  <h3 className="font-bold text-red-200">Error</h3>
+                  <p className="text-red-300">{error}</p>
+                </div>
+                <button
+                  onClick={reset}
+                  className="ml-auto px-4 py-2 bg-red-800 rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
 
-        {status === 'configuring' && (
-          <div className="max-w-xl mx-auto">
-            <div className="text-center mb-8">
-              <h2 className="text-3xl font-bold mb-3">Welcome to Petridise</h2>
-              <p className="text-gray-400 text-lg">
-                Create a world, seed it with life, and watch evolution unfold.
-                <br />
-                Powered by AI, driven by nature's algorithms.
-              </p>
-            </div>
-            <ConfigPanel
-              onStart={generateWorld}
-              isLoading={isGenerating}
-              userApiKey={userApiKey}
-              onApiKeyChange={updateApiKey}
-              onImport={importWorld}
-            />
-          </div>
-        )}
+            {status === 'configuring' && (
+              <div className="max-w-xl mx-auto">
+                <div className="text-center mb-8">
+                  <h2 className="text-3xl font-bold mb-3">Welcome to Petridise</h2>
+                  <p className="text-gray-400 text-lg">
+                    Create a world, seed it with life, and watch evolution unfold.
+                    <br />
+                    Powered by AI, driven by nature's algorithms.
+                  </p>
+                </div>
+                <ConfigPanel
+                  onStart={generateWorld}
+                  isLoading={isGenerating}
+                  userApiKey={userApiKey}
+                  onApiKeyChange={updateApiKey}
+                  onImport={importWorld}
+                  onResume={resumeWorld}
+                />
+              </div>
+            )}
 
-        {status === 'generating' && (
-          <div className="flex flex-col items-center justify-center py-20">
-            <div className="animate-pulse text-6xl mb-6">🌍</div>
-            <h2 className="text-2xl font-bold mb-2">Generating World...</h2>
-            <p className="text-gray-400">
-              Gemini AI is crafting your unique ecosystem
-            </p>
-            <div className="mt-8 flex gap-2">
-              {['🦠', '🌿', '🐛', '🦎', '🌸'].map((emoji, i) => (
-                <span
-                  key={i}
-                  className="text-3xl animate-bounce"
-                  style={{ animationDelay: `${i * 0.1}s` }}
-                >
-                  {emoji}
-                </span>
-              ))}
-            </div>
-          </div>
-        )}
+            {status === 'generating' && (
+              <GeneratingView kind="world" preview={preview} />
+            )}
 
-        {status === 'running' && world && texture && (
-          <SimulationView
-            world={world}
-            organisms={organisms}
-            texture={texture}
-            maxTicks={maxTicks}
-            onComplete={completeRun}
-            onImmersiveModeChange={setIsImmersive}
-          />
-        )}
+            {status === 'running' && world && texture && (
+              <SimulationView
+                world={world}
+                organisms={organisms}
+                texture={texture}
+                maxTicks={maxTicks}
+                seed={seed}
+                generation={generation}
+                onComplete={completeRun}
+                onImmersiveModeChange={setIsImmersive}
+              />
+            )}
 
-        {status === 'completed' && world && (
-          <ResultsPanel
-            generation={generation}
-            organisms={organisms}
-            events={events}
-            stats={stats}
-            narrative={narrative}
-            evolveResult={evolveResult ?? undefined}
-            onContinue={continueSimulation}
-            onReset={reset}
-            isEvolving={isEvolving}
-            onExport={downloadWorld}
-          />
-        )}
+            {status === 'completed' && world && (
+              <div className="space-y-6">
+                <ResultsPanel
+                  generation={generation}
+                  organisms={organisms}
+                  events={events}
+                  stats={stats}
+                  timeSeries={timeSeries}
+                  lineage={lineage}
+                  worldBiome={world.biome}
+                  narrative={narrative}
+                  evolveResult={evolveResult ?? undefined}
+                  evolutionMode={evolutionMode}
+                  onEvolutionModeChange={updateEvolutionMode}
+                  onContinue={continueSimulation}
+                  onReset={reset}
+                  isEvolving={isEvolving}
+                  onExport={downloadWorld}
+                />
+                <BranchPanel
+                  branches={branches}
+                  activeBranchId={activeBranchId}
+                  history={history}
+                  onFork={forkBranch}
+                  onSwitch={switchBranch}
+                />
+              </div>
+            )}
 
-        {status === 'evolving' && (
-          <div className="flex flex-col items-center justify-center py-20">
-            <div className="animate-spin text-6xl mb-6">🧬</div>
-            <h2 className="text-2xl font-bold mb-2">Evolution in Progress...</h2>
-            <p className="text-gray-400">
-              Analyzing survival data and generating the next generation
-            </p>
-          </div>
+            {status === 'evolving' && (
+              <GeneratingView kind="evolution" preview={preview} />
+            )}
+          </>
         )}
       </main>
 
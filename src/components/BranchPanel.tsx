@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { Branch, ForkOptions, GenerationRecord, WorldConfig } from '@/types';
+import { generateSeed } from '@/utils';
+
+interface BranchPanelProps {
+  branches: Branch[];
+  activeBranchId: string;
+  history: GenerationRecord[];
+  onFork: (options: ForkOptions) => void;
+  onSwitch: (id: string) => void;
+}
+
+// What the evolve endpoint samples with unless a branch says otherwise
+const DEFAULT_AI_TEMPERATURE = 0.9;
+
+type WorldTweaks = Pick<WorldConfig, 'temperature' | 'humidity' | 'gravity'>;
+
+/**
+ * The project's timelines. Lists every branch with where it was forked
+ * from, and forks the active one at a past generation with a new seed,
+ * world parameters or AI temperature to see how else things could go.
+ */
+export const BranchPanel: React.FC<BranchPanelProps> = ({
+  branches,
+  activeBranchId,
+  history,
+  onFork,
+  onSwitch
+}) => {
+  const [isForking, setIsForking] = useState(false);
+  const active = branches.find(branch => branch.id === activeBranchId);
+  // Generations migrated from 1.0 files lack the population to start from
+  const forkable = history.filter(record => record.world && record.organisms);
+
+  if (!active) return null;
+
+  return (
+    <div className="bg-petri-accent rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold text-white">🌿 Timelines</h3>
+        {forkable.length > 0 && !isForking && (
+          <button
+            onClick={() => setIsForking(true)}
+            className="px-4 py-2 rounded-lg bg-petri-glow text-white font-medium hover:scale-[1.02] transition-all"
+          >
+            🍴 Fork a Generation
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {branches.map(branch => {
+          const latest = branch.history[branch.history.length - 1];
+          const parent = branches.find(candidate => candidate.id === branch.parentId);
+          const isActive = branch.id === activeBranchId;
+          return (
+            <div
+              key={branch.id}
+              className={`bg-petri-bg rounded-lg p-3 flex items-center justify-between gap-3 border ${
+                isActive ? 'border-petri-glow' : 'border-transparent'
+              }`}
+            >
+              <div>
+                <div className="text-white font-medium">{branch.name}</div>
+                <div className="text-gray-400 text-sm">
+                  {parent ? `Forked from ${parent.name} at generation ${branch.forkGeneration}` : 'Original timeline'}
+                  {' · '}generation {latest?.generation ?? 1}
+                  {branch.aiTemperature !== undefined && ` · AI temperature ${branch.aiTemperature.toFixed(1)}`}
+                </div>
+              </div>
+              {isActive ? (
+                <span className="text-petri-glow text-sm font-medium">Viewing</span>
+              ) : (
+                <button
+                  onClick={() => onSwitch(branch.id)}
+                  className="px-3 py-1 rounded-lg bg-petri-highlight text-white text-sm hover:bg-petri-accent transition-all"
+                >
+                  Switch
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isForking && (
+        <ForkForm
+          branch={active}
+          forkable={forkable}
+          branchCount={branches.length}
+          onFork={options => {
+            setIsForking(false);
+            onFork(options);
+          }}
+          onCancel={() => setIsForking(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface ForkFormProps {
+  branch: Branch;
+  forkable: GenerationRecord[];
+  branchCount: number;
+  onFork: (options: ForkOptions) => void;
+  onCancel: () => void;
+}
+
+const ForkForm: React.FC<ForkFormProps> = ({ branch, forkable, branchCount, onFork, onCancel }) => {
+  const [generation, setGeneration] = useState(forkable[forkable.length - 1].generation);
+  const [name, setName] = useState(`Timeline ${branchCount + 1}`);
+  const [seed, setSeed] = useState(() => String(generateSeed()));
+  const [aiTemperature, setAiTemperature] = useState(branch.aiTemperature ?? DEFAULT_AI_TEMPERATURE);
+  const source = forkable.find(record => record.generation === generation)!;
+  const [tweaks, setTweaks] = useState<WorldTweaks>(() => getTweaks(source.world!));
+
+  const selectGeneration = (next: number) => {
+    setGeneration(next);
+    setTweaks(getTweaks(forkable.find(record => record.generation === next)!.world!));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Only what was actually changed goes into the fork
+    const original = getTweaks(source.world!);
+    const worldChanges: Partial<WorldConfig> = {};
+    (Object.keys(tweaks) as (keyof WorldTweaks)[]).forEach(key => {
+      if (tweaks[key] !== original[key]) worldChanges[key] = tweaks[key];
+    });
+
+    onFork({
+      generation,
+      name: name.trim() || `Timeline ${branchCount + 1}`,
+      seed: seed ? Number(seed) : generateSeed(),
+      worldChanges,
+      aiTemperature
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 bg-petri-bg rounded-lg p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-gray-300 mb-2">Fork From</label>
+          <select
+            value={generation}
+            onChange={e => selectGeneration(Number(e.target.value))}
+            className="w-full px-4 py-2 bg-petri-accent border border-petri-highlight rounded-lg text-white focus:outline-none focus:border-petri-glow"
+          >
+            {forkable.map(record => (
+              <option key={record.generation} value={record.generation}>
+                Generation {record.generation} of {branch.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-gray-300 mb-2">Timeline Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="w-full px-4 py-2 bg-petri-accent border border-petri-highlight rounded-lg text-white focus:outline-none focus:border-petri-glow"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-300 mb-2">Simulation Seed</label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={seed}
+              onChange={e => setSeed(e.target.value.replace(/\D/g, ''))}
+              placeholder="Random"
+              className="w-full px-4 py-2 bg-petri-accent border border-petri-highlight rounded-lg text-white focus:outline-none focus:border-petri-glow"
+            />
+            <button
+              type="button"
+              onClick={() => setSeed(String(generateSeed()))}
+              className="px-3 rounded-lg bg-petri-highlight text-white hover:bg-petri-accent"
+              title="New random seed"
+            >
+              🎲
+            </button>
+          </div>
+          {source.seed !== undefined && (
+            <p className="text-xs text-gray-500 mt-1">Generation {generation} ran with seed {source.seed}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-gray-300 mb-2">
+            AI Temperature: {aiTemperature.toFixed(1)}
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="2"
+            step="0.1"
+            value={aiTemperature}
+            onChange={e => setAiTemperature(parseFloat(e.target.value))}
+            className="w-full accent-petri-glow"
+          />
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>Predictable</span>
+            <span>Wild</span>
+          </div>
+        </div>
+        <div>
+          <label className="block text-gray-300 mb-2">
+            Temperature: {tweaks.temperature}°C
+          </label>
+          <input
+            type="range"
+            min="-50"
+            max="100"
+            step="5"
+            value={tweaks.temperature}
+            onChange={e => setTweaks({ ...tweaks, temperature: parseInt(e.target.value) })}
+            className="w-full accent-petri-glow"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-300 mb-2">
+            Humidity: {tweaks.humidity}%
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="5"
+            value={tweaks.humidity}
+            onChange={e => setTweaks({ ...tweaks, humidity: parseInt(e.target.value) })}
+            className="w-full accent-petri-glow"
+          />
+        </div>
+        <div>
+          <label className="block text-gray-300 mb-2">
+            Gravity: {tweaks.gravity.toFixed(1)}x
+          </label>
+          <input
+            type="range"
+            min="0.1"
+            max="2"
+            step="0.1"
+            value={tweaks.gravity}
+            onChange={e => setTweaks({ ...tweaks, gravity: parseFloat(e.target.value) })}
+            className="w-full accent-petri-glow"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          className="flex-1 py-3 rounded-lg font-bold bg-petri-glow text-white hover:scale-[1.01] transition-all"
+        >
+          🍴 Fork & Run
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-6 py-3 rounded-lg font-bold bg-petri-highlight text-white hover:bg-petri-accent transition-all"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+function getTweaks(world: WorldConfig): WorldTweaks {
+  return {
+    temperature: world.temperature,
+    humidity: world.humidity,
+    gravity: world.gravity
+  };
+}
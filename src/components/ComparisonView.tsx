@@ -0,0 +1,406 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Branch, GenerationRecord, Organism, SimulationEvent, WorldConfig } from '@/types';
+import { parseWorldFile } from '@/hooks';
+import { getEventEmoji } from '@/utils';
+import { ChartFrame, Legend, PLOT_H, PLOT_W, linePath, scaleLinear } from './PopulationCharts';
+
+interface ComparisonViewProps {
+  branches: Branch[]; // Timelines of the world being played, if any
+  activeBranchId: string;
+  onClose: () => void;
+}
+
+// Something to compare: a timeline of this world or of a loaded file
+interface ComparisonSource {
+  id: string;
+  label: string;
+  branch: Branch;
+}
+
+interface ComparisonSide {
+  label: string;
+  history: GenerationRecord[];
+  generation: number; // Its latest
+  world?: WorldConfig; // As its latest generation began
+  organisms: Organism[]; // Its latest population
+}
+
+const SIDE_COLORS = ['#22d3ee', '#f472b6'];
+const ALL_LIFE = '';
+
+/**
+ * Two worlds or two timelines side by side: how their settings differ,
+ * which species they share, their populations over every generation and
+ * the events that only happened in one of them.
+ */
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ branches, activeBranchId, onClose }) => {
+  const [files, setFiles] = useState<ComparisonSource[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sources = useMemo(
+    () => [...branches.map(branch => ({ id: branch.id, label: branch.name, branch })), ...files],
+    [branches, files]
+  );
+  const [selected, setSelected] = useState<[string, string]>(() => [
+    activeBranchId,
+    branches.find(branch => branch.id !== activeBranchId)?.id ?? ''
+  ]);
+
+  const sides = selected.map(id => sources.find(source => source.id === id)).map(source => source && toSide(source));
+  const [a, b] = sides;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    try {
+      const data = parseWorldFile(await file.text());
+      const loaded = (data.branches || []).map(branch => ({
+        id: `${file.name}:${branch.id}`,
+        label: `${data.world.name} · ${branch.name}`,
+        branch
+      }));
+      setFiles(prev => [...prev.filter(source => !loaded.some(l => l.id === source.id)), ...loaded]);
+      setError(null);
+      // Fill an empty slot with the file's timeline
+      const active = loaded.find(source => source.branch.id === data.activeBranch) ?? loaded[0];
+      if (active) {
+        setSelected(prev => (!prev[0] ? [active.id, prev[1]] : !prev[1] ? [prev[0], active.id] : prev));
+      }
+    } catch (err) {
+      console.error('Error loading world for comparison:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load world');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gradient-to-r from-petri-highlight to-petri-accent rounded-xl p-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-bold text-white mb-1">⚖️ Compare Worlds</h2>
+          <p className="text-gray-300">Pick two timelines of this world, or load exported worlds to compare.</p>
+        </div>
+        <div className="flex gap-3">
+          <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleFile} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 rounded-lg font-bold bg-blue-600 text-white hover:bg-blue-500 transition-all"
+          >
+            📥 Load World File
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg font-bold bg-petri-highlight text-white hover:bg-petri-accent transition-all"
+          >
+            ✕ Close
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-300">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {selected.map((id, i) => (
+          <div key={i} className="bg-petri-accent rounded-xl p-4">
+            <label className="flex items-center gap-2 text-gray-300 mb-2">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SIDE_COLORS[i] }} />
+              {i === 0 ? 'World A' : 'World B'}
+            </label>
+            <select
+              value={id}
+              onChange={e => setSelected(prev => (i === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value]))}
+              className="w-full px-4 py-2 bg-petri-bg border border-petri-highlight rounded-lg text-white focus:outline-none focus:border-petri-glow"
+            >
+              <option value="">Choose a timeline…</option>
+              {sources.map(source => (
+                <option key={source.id} value={source.id}>{source.label}</option>
+              ))}
+            </select>
+            {sides[i] && (
+              <p className="text-gray-400 text-sm mt-2">
+                Generation {sides[i]!.generation} · {sides[i]!.organisms.length} organisms
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {a && b ? (
+        <>
+          <WorldDiff a={a} b={b} />
+          <SpeciesOverlap a={a} b={b} />
+          <PopulationOverlay a={a} b={b} />
+          <DivergentEvents a={a} b={b} />
+        </>
+      ) : (
+        <p className="text-gray-400 text-center py-10">Choose two timelines to compare.</p>
+      )}
+    </div>
+  );
+};
+
+interface PairProps {
+  a: ComparisonSide;
+  b: ComparisonSide;
+}
+
+const WorldDiff: React.FC<PairProps> = ({ a, b }) => {
+  const settingsA = describeWorld(a.world);
+  const settingsB = describeWorld(b.world);
+  const changed = Object.keys({ ...settingsA, ...settingsB }).filter(key => settingsA[key] !== settingsB[key]);
+
+  return (
+    <div className="bg-petri-accent rounded-xl p-6">
+      <h3 className="text-xl font-bold text-white mb-4">🌍 World Settings</h3>
+      {changed.length === 0 ? (
+        <p className="text-gray-400">Both worlds have the same settings.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="py-1 font-medium">Setting</th>
+              <th className="py-1 font-medium" style={{ color: SIDE_COLORS[0] }}>{a.label}</th>
+              <th className="py-1 font-medium" style={{ color: SIDE_COLORS[1] }}>{b.label}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changed.map(key => (
+              <tr key={key} className="border-t border-petri-highlight/40">
+                <td className="py-1.5 text-gray-300">{key}</td>
+                <td className="py-1.5 text-white">{settingsA[key] ?? '—'}</td>
+                <td className="py-1.5 text-white">{settingsB[key] ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const SpeciesOverlap: React.FC<PairProps> = ({ a, b }) => {
+  const countsA = countSpecies(a.organisms);
+  const countsB = countSpecies(b.organisms);
+  const shared = Object.keys(countsA).filter(name => countsB[name]);
+  const onlyA = Object.keys(countsA).filter(name => !countsB[name]);
+  const onlyB = Object.keys(countsB).filter(name => !countsA[name]);
+
+  const column = (title: string, names: string[], render: (name: string) => string, color?: string) => (
+    <div className="bg-petri-bg rounded-lg p-3">
+      <h4 className="text-sm font-bold mb-2" style={{ color: color ?? '#9ca3af' }}>
+        {title} ({names.length})
+      </h4>
+      {names.length === 0 ? (
+        <p className="text-gray-500 text-sm">None</p>
+      ) : (
+        <ul className="space-y-1 text-sm text-gray-300">
+          {names.map(name => <li key={name}>{render(name)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-petri-accent rounded-xl p-6">
+      <h3 className="text-xl font-bold text-white mb-4">🧬 Species Overlap</h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {column(`Only in ${a.label}`, onlyA, name => `${name} · ${countsA[name]}`, SIDE_COLORS[0])}
+        {column('In both', shared, name => `${name} · ${countsA[name]} vs ${countsB[name]}`)}
+        {column(`Only in ${b.label}`, onlyB, name => `${name} · ${countsB[name]}`, SIDE_COLORS[1])}
+      </div>
+    </div>
+  );
+};
+
+const PopulationOverlay: React.FC<PairProps> = ({ a, b }) => {
+  const [species, setSpecies] = useState(ALL_LIFE);
+  const names = Array.from(new Set([...getSeriesSpecies(a.history), ...getSeriesSpecies(b.history)])).sort();
+  const curves = [a, b].map(side => getCurve(side.history, species));
+  const points = curves.flatMap(curve => curve.points);
+  if (points.length === 0) return null;
+
+  const maxTick = Math.max(1, ...points.map(([tick]) => tick));
+  const maxCount = Math.max(1, ...points.map(([, count]) => count));
+  const x = scaleLinear(0, maxTick, 0, PLOT_W);
+  const y = scaleLinear(0, maxCount, PLOT_H, 0);
+  const divergence = findDivergence(a.history, b.history);
+  const divergenceTick = divergence !== null ? curves[0].starts[divergence] : undefined;
+
+  return (
+    <div className="bg-petri-accent rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold text-white">📈 Populations</h3>
+        <select
+          value={species}
+          onChange={e => setSpecies(e.target.value)}
+          className="px-3 py-1 bg-petri-bg border border-petri-highlight rounded-lg text-white text-sm focus:outline-none focus:border-petri-glow"
+        >
+          <option value={ALL_LIFE}>All life</option>
+          {names.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </div>
+      <ChartFrame xLabel="Tick, across generations" yMax={maxCount} xMin={0} xMax={maxTick}>
+        {divergenceTick !== undefined && (
+          <g>
+            <line x1={x(divergenceTick)} x2={x(divergenceTick)} y1={0} y2={PLOT_H} stroke="white" strokeOpacity={0.4} strokeDasharray="4 4" />
+            <text x={x(divergenceTick) + 4} y={10} fill="#9ca3af" fontSize={10}>Generation {divergence} diverges</text>
+          </g>
+        )}
+        {curves.map((curve, i) => (
+          <path key={i} d={linePath(curve.points.map(([tick, count]) => [x(tick), y(count)]))} fill="none" stroke={SIDE_COLORS[i]} strokeWidth={2} />
+        ))}
+      </ChartFrame>
+      <Legend items={[a, b].map((side, i) => ({ name: side.label, color: SIDE_COLORS[i] }))} />
+    </div>
+  );
+};
+
+const DivergentEvents: React.FC<PairProps> = ({ a, b }) => {
+  const divergence = findDivergence(a.history, b.history);
+  if (divergence === null) {
+    return (
+      <div className="bg-petri-accent rounded-xl p-6">
+        <h3 className="text-xl font-bold text-white mb-2">📜 Divergent Events</h3>
+        <p className="text-gray-400">These timelines have not diverged.</p>
+      </div>
+    );
+  }
+
+  const generations = Array.from(new Set([...a.history, ...b.history].map(record => record.generation)))
+    .filter(generation => generation >= divergence)
+    .sort((x, y) => x - y);
+
+  return (
+    <div className="bg-petri-accent rounded-xl p-6">
+      <h3 className="text-xl font-bold text-white mb-1">📜 Divergent Events</h3>
+      <p className="text-gray-400 text-sm mb-4">
+        The timelines part ways at generation {divergence}. Events that only happened in one of them:
+      </p>
+      <div className="space-y-4 max-h-96 overflow-y-auto">
+        {generations.map(generation => {
+          const eventsA = getEvents(a.history, generation);
+          const eventsB = getEvents(b.history, generation);
+          const titlesA = new Set(eventsA.map(event => event.title));
+          const titlesB = new Set(eventsB.map(event => event.title));
+          const columns = [
+            eventsA.filter(event => !titlesB.has(event.title)),
+            eventsB.filter(event => !titlesA.has(event.title))
+          ];
+          if (columns[0].length === 0 && columns[1].length === 0) return null;
+          return (
+            <div key={generation}>
+              <h4 className="text-sm font-bold text-gray-400 mb-2">Generation {generation}</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {columns.map((column, i) => (
+                  <div key={i} className="space-y-2 border-l-2 pl-3" style={{ borderColor: SIDE_COLORS[i] }}>
+                    {column.length === 0 ? (
+                      <p className="text-gray-500 text-sm">Nothing of its own</p>
+                    ) : (
+                      column.map((event, j) => (
+                        <div key={event.id || j} className="bg-petri-bg rounded-lg p-2">
+                          <div className="text-white text-sm font-medium">
+                            {getEventEmoji(event.type)} {event.title}
+                          </div>
+                          <div className="text-gray-400 text-xs">{event.description}</div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+function toSide(source: ComparisonSource): ComparisonSide {
+  const { history } = source.branch;
+  const latest = history[history.length - 1];
+  return {
+    label: source.label,
+    history,
+    generation: latest?.generation ?? 1,
+    world: [...history].reverse().find(record => record.world)?.world,
+    organisms: latest?.survivors ?? latest?.organisms ?? []
+  };
+}
+
+// Settings worth comparing, by label
+function describeWorld(world?: WorldConfig): Record<string, string> {
+  if (!world) return {};
+  const settings: Record<string, string> = {
+    Name: world.name,
+    Biome: world.biome,
+    Gravity: `${world.gravity}x`,
+    Temperature: `${world.temperature}°C`,
+    Humidity: `${world.humidity}%`,
+    Size: `${world.width} × ${world.height}`
+  };
+  Object.entries(world.compounds).forEach(([compound, value]) => {
+    settings[compound.charAt(0).toUpperCase() + compound.slice(1)] = `${value}%`;
+  });
+  if (world.carryingCapacity !== undefined) settings['Carrying capacity'] = String(world.carryingCapacity);
+  if (world.mutation) {
+    settings['Mutation rate'] = `${Math.round(world.mutation.rate * 100)}%`;
+    settings['Mutation strength'] = `${Math.round(world.mutation.strength * 100)}%`;
+    settings['Sexual reproduction'] = world.mutation.sexualReproduction ? 'On' : 'Off';
+  }
+  if (world.foodWeb) settings['Food web'] = JSON.stringify(world.foodWeb);
+  return settings;
+}
+
+function countSpecies(organisms: Organism[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  organisms.forEach(org => {
+    counts[org.species] = (counts[org.species] || 0) + 1;
+  });
+  return counts;
+}
+
+function getSeriesSpecies(history: GenerationRecord[]): string[] {
+  return history.flatMap(record => record.timeSeries?.samples.flatMap(sample => Object.keys(sample.bySpecies)) ?? []);
+}
+
+/**
+ * Every generation's samples laid end to end. `starts` holds the tick each
+ * generation begins at on that shared axis.
+ */
+function getCurve(history: GenerationRecord[], species: string) {
+  const points: [number, number][] = [];
+  const starts: Record<number, number> = {};
+  let offset = 0;
+  history.forEach(record => {
+    starts[record.generation] = offset;
+    const samples = record.timeSeries?.samples ?? [];
+    samples.forEach(sample => {
+      points.push([offset + sample.tick, species === ALL_LIFE ? sample.population : sample.bySpecies[species] || 0]);
+    });
+    if (samples.length > 0) offset += samples[samples.length - 1].tick;
+  });
+  return { points, starts };
+}
+
+// First generation in which the two histories differ, null if they never do
+function findDivergence(a: GenerationRecord[], b: GenerationRecord[]): number | null {
+  const length = Math.max(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (!a[i] || !b[i]) return (a[i] ?? b[i]).generation;
+    if (a[i] !== b[i] && recordKey(a[i]) !== recordKey(b[i])) return a[i].generation;
+  }
+  return null;
+}
+
+// Enough of how a generation began to tell two apart
+function recordKey(record: GenerationRecord): string {
+  return JSON.stringify([record.generation, record.seed, record.world, record.narrative, record.organisms?.length]);
+}
+
+// What happened in a generation's run and in evolving out of it
+function getEvents(history: GenerationRecord[], generation: number): SimulationEvent[] {
+  const record = history.find(candidate => candidate.generation === generation);
+  return [...(record?.events ?? []), ...(record?.evolutionEvents ?? [])];
+}
@@ -1,5 +1,12 @@
 import React, { useState, useRef } from "react";
-import { WorldConfig, BiomeType, ConfigFormState } from "@/types";
+import {
+  WorldConfig,
+  BiomeType,
+  ConfigFormState,
+  MutationSettings,
+} from "@/types";
+import { DEFAULT_CARRYING_CAPACITY, DEFAULT_MUTATION } from "@/engine";
+import { WorldLibrary } from "./WorldLibrary";
 
 interface ConfigPanelProps {
   onStart: (config: ConfigFormState) => void;
@@ -7,6 +14,7 @@ interface ConfigPanelProps {
   userApiKey: string;
   onApiKeyChange: (key: string) => void;
   onImport: (file: File) => Promise<boolean>;
+  onResume: (id: string) => Promise<boolean>;
 }
 
 const BIOMES: BiomeType[] = [
@@ -44,12 +52,18 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
   userApiKey,
   onApiKeyChange,
   onImport,
+  onResume,
 }) => {
   const [useRandom, setUseRandom] = useState(true);
   const [realOrganismsOnly, setRealOrganismsOnly] = useState(false);
   const [worldConfig, setWorldConfig] =
     useState<Partial<WorldConfig>>(DEFAULT_CONFIG);
   const [simulationDuration, setSimulationDuration] = useState(30);
+  const [seed, setSeed] = useState("");
+  const [carryingCapacity, setCarryingCapacity] = useState(
+    DEFAULT_CARRYING_CAPACITY,
+  );
+  const [mutation, setMutation] = useState<MutationSettings>(DEFAULT_MUTATION);
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -61,6 +75,9 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
       worldConfig: useRandom ? {} : worldConfig,
       simulationDuration,
       realOrganismsOnly,
+      seed: seed.trim() ? Number(seed) : undefined,
+      carryingCapacity,
+      mutation,
     });
   };
 
@@ -97,6 +114,8 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
         <span className="text-3xl">🧬</span> World Configuration
       </h2>
 
+      <WorldLibrary onResume={onResume} />
+
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* API Key Section */}
         <div className="p-4 bg-petri-bg rounded-lg border border-petri-highlight">
@@ -412,6 +431,105 @@ export const ConfigPanel: React.FC<ConfigPanelProps> = ({
           />
         </div>
 
+        {/* Carrying Capacity */}
+        <div>
+          <label className="block text-gray-300 mb-2">
+            Carrying Capacity: {carryingCapacity} organisms
+          </label>
+          <input
+            type="range"
+            min="100"
+            max="2000"
+            step="100"
+            value={carryingCapacity}
+            onChange={(e) => setCarryingCapacity(parseInt(e.target.value))}
+            className="w-full accent-petri-glow"
+          />
+        </div>
+
+        {/* Evolution */}
+        <div className="p-4 bg-petri-bg rounded-lg space-y-4">
+          <div>
+            <label className="block text-gray-300 mb-2">
+              Mutation Rate: {Math.round(mutation.rate * 100)}% of genes
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              value={mutation.rate * 100}
+              onChange={(e) =>
+                setMutation({ ...mutation, rate: parseInt(e.target.value) / 100 })
+              }
+              className="w-full accent-petri-glow"
+            />
+          </div>
+          <div>
+            <label className="block text-gray-300 mb-2">
+              Mutation Strength: ±{Math.round(mutation.strength * 100)}%
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="50"
+              step="5"
+              value={mutation.strength * 100}
+              onChange={(e) =>
+                setMutation({
+                  ...mutation,
+                  strength: parseInt(e.target.value) / 100,
+                })
+              }
+              className="w-full accent-petri-glow"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-white font-medium">
+                Sexual Reproduction
+              </label>
+              <p className="text-xs text-gray-400 mt-1">
+                Animals need a nearby mate and offspring mix both genomes
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() =>
+                setMutation({
+                  ...mutation,
+                  sexualReproduction: !mutation.sexualReproduction,
+                })
+              }
+              className={`relative w-14 h-7 rounded-full transition-colors flex items-center ${
+                mutation.sexualReproduction ? "bg-petri-glow" : "bg-gray-600"
+              }`}
+            >
+              <span
+                className={`absolute w-5 h-5 bg-white rounded-full shadow-md transition-all duration-200 ${
+                  mutation.sexualReproduction ? "left-8" : "left-1"
+                }`}
+              />
+            </button>
+          </div>
+        </div>
+
+        {/* Simulation Seed */}
+        <div>
+          <label className="block text-gray-300 mb-2">Simulation Seed</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value.replace(/\D/g, ""))}
+            placeholder="Random"
+            className="w-full px-4 py-2 bg-petri-bg border border-petri-highlight rounded-lg text-white focus:outline-none focus:border-petri-glow"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            The same seed replays the same run of a world
+          </p>
+        </div>
+
         {/* Start Button */}
         <button
           type="submit"
@@ -0,0 +1,159 @@
+import React from 'react';
+import { GenerationPreview, GenerationStage, Organism } from '@/types';
+
+interface GeneratingViewProps {
+  kind: 'world' | 'evolution';
+  preview: GenerationPreview | null;
+}
+
+interface Step {
+  stage: GenerationStage;
+  label: string;
+}
+
+// In the order a generation goes through them
+const STAGES: GenerationStage[] = ['prompt-sent', 'tokens', 'world', 'organism', 'texture-started', 'texture-finished'];
+
+const WORLD_STEPS: Step[] = [
+  { stage: 'prompt-sent', label: 'Prompt sent' },
+  { stage: 'tokens', label: 'Receiving' },
+  { stage: 'world', label: 'World' },
+  { stage: 'organism', label: 'Organisms' },
+  { stage: 'texture-started', label: 'Texture' }
+];
+
+const EVOLUTION_STEPS: Step[] = [
+  { stage: 'prompt-sent', label: 'Prompt sent' },
+  { stage: 'tokens', label: 'Receiving' },
+  { stage: 'organism', label: 'Organisms' }
+];
+
+const STAGE_MESSAGES: Record<GenerationStage, string> = {
+  'prompt-sent': 'Prompt sent, waiting for the first words',
+  tokens: 'The answer is streaming in',
+  world: 'The world has taken shape, life comes next',
+  organism: 'Life is arriving',
+  'texture-started': 'Painting the world\'s background',
+  'texture-finished': 'Almost ready'
+};
+
+/**
+ * The screen shown while a world is generated or a generation evolves.
+ * When the server streams its progress it fills in as the answer arrives:
+ * the steps reached, the world's stats, then each species as it appears.
+ */
+export const GeneratingView: React.FC<GeneratingViewProps> = ({ kind, preview }) => {
+  const isWorld = kind === 'world';
+  const stage = preview?.stage;
+  const current = stage ? STAGES.indexOf(stage) : -1;
+  const steps = isWorld ? WORLD_STEPS : EVOLUTION_STEPS;
+  const species = groupBySpecies(preview?.organisms ?? []);
+
+  const fallbackMessage = isWorld
+    ? 'Gemini AI is crafting your unique ecosystem'
+    : 'Analyzing survival data and generating the next generation';
+  let message = stage ? STAGE_MESSAGES[stage] : fallbackMessage;
+  if (preview && preview.attempt > 1 && stage) message += ` (attempt ${preview.attempt})`;
+
+  return (
+    <div className="flex flex-col items-center justify-center py-20">
+      <div className={`${isWorld ? 'animate-pulse' : 'animate-spin'} text-6xl mb-6`}>
+        {isWorld ? '🌍' : '🧬'}
+      </div>
+      <h2 className="text-2xl font-bold mb-2">
+        {isWorld ? 'Generating World...' : 'Evolution in Progress...'}
+      </h2>
+      <p className="text-gray-400">
+        {message}
+        {stage === 'tokens' && preview && ` · ${preview.received.toLocaleString()} characters`}
+      </p>
+
+      {stage && (
+        <div className="mt-6 flex flex-wrap justify-center gap-2">
+          {steps.map(step => {
+            const index = STAGES.indexOf(step.stage);
+            const isDone = current > index;
+            const isActive = current === index;
+            return (
+              <span
+                key={step.stage}
+                className={`px-3 py-1 rounded-full text-sm ${
+                  isDone
+                    ? 'bg-petri-glow text-white'
+                    : isActive
+                      ? 'bg-petri-highlight text-white animate-pulse'
+                      : 'bg-petri-accent text-gray-500'
+                }`}
+              >
+                {isDone ? '✓' : isActive ? '•' : '○'} {step.label}
+                {step.stage === 'organism' && preview && preview.organisms.length > 0 && ` (${preview.organisms.length})`}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {preview?.world && (
+        <div className="mt-8 w-full max-w-2xl bg-petri-accent rounded-xl p-4">
+          <h3 className="text-lg font-bold text-white mb-3">
+            {preview.world.name}
+            <span className="ml-2 text-sm font-normal text-gray-400 capitalize">{preview.world.biome}</span>
+          </h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <WorldStat label="Temperature" value={`${Math.round(preview.world.temperature)}°C`} />
+            <WorldStat label="Humidity" value={`${Math.round(preview.world.humidity)}%`} />
+            <WorldStat label="Gravity" value={`${preview.world.gravity.toFixed(1)}g`} />
+            <WorldStat label="Size" value={`${preview.world.width}×${preview.world.height}`} />
+          </div>
+        </div>
+      )}
+
+      {species.length > 0 && (
+        <div className="mt-4 w-full max-w-2xl flex flex-wrap justify-center gap-2">
+          {species.map(({ organism, count }) => (
+            <span
+              key={organism.species}
+              className="flex items-center gap-2 px-3 py-1 rounded-lg bg-petri-accent text-sm text-gray-200"
+            >
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: organism.color }} />
+              {organism.name}
+              <span className="text-gray-500">×{count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {!stage && isWorld && (
+        <div className="mt-8 flex gap-2">
+          {['🦠', '🌿', '🐛', '🦎', '🌸'].map((emoji, i) => (
+            <span
+              key={i}
+              className="text-3xl animate-bounce"
+              style={{ animationDelay: `${i * 0.1}s` }}
+            >
+              {emoji}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const WorldStat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-petri-bg rounded-lg p-2 text-center">
+    <div className="text-gray-400 text-xs">{label}</div>
+    <div className="text-white font-medium">{value}</div>
+  </div>
+);
+
+// The first of each species to arrive, with how many have so far
+function groupBySpecies(organisms: Organism[]): { organism: Organism; count: number }[] {
+  const groups = new Map<string, { organism: Organism; count: number }>();
+  organisms.forEach(organism => {
+    const group = groups.get(organism.species);
+    if (group) group.count++;
+    else groups.set(organism.species, { organism, count: 1 });
+  });
+  return Array.from(groups.values());
+}
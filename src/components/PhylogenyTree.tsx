@@ -0,0 +1,200 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Lineage, LineageNode, Organism } from '@/types';
+import { getLineageOrder } from '@/engine';
+import { SpeciesDetailPanel } from './SpeciesDetailPanel';
+
+interface PhylogenyTreeProps {
+  lineage: Lineage;
+  generation: number;
+  organisms: Organism[];
+  worldBiome: string;
+}
+
+// Layout before zooming, one column per generation and one row per species
+const GEN_W = 110;
+const ROW_H = 28;
+const PAD = { top: 28, right: 200, bottom: 12, left: 16 };
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.5, 2, 3];
+const DEFAULT_ZOOM = 2;
+
+// Pointer travel that turns a click into a drag
+const DRAG_THRESHOLD = 4;
+
+/**
+ * Cladogram of every species the world has seen. Each species is a bar from
+ * the generation it appeared in to the one it died out in (or today), with
+ * an elbow joining it to the species it branched off from. Clicking a
+ * species opens its details, using a living member when there is one.
+ */
+export const PhylogenyTree: React.FC<PhylogenyTreeProps> = ({
+  lineage,
+  generation,
+  organisms,
+  worldBiome
+}) => {
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Organism | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; y: number; left: number; top: number; moved: boolean } | null>(null);
+
+  const order = useMemo(() => getLineageOrder(lineage), [lineage]);
+  const rows = useMemo(() => new Map(order.map((node, i) => [node.species, i])), [order]);
+
+  if (order.length === 0) return null;
+
+  const zoom = ZOOM_LEVELS[zoomIndex];
+  const lastGeneration = Math.max(generation, ...order.map(node => node.extinctGeneration ?? node.originGeneration));
+  const width = PAD.left + lastGeneration * GEN_W + PAD.right;
+  const height = PAD.top + order.length * ROW_H + PAD.bottom;
+  const x = (gen: number) => PAD.left + (gen - 1) * GEN_W;
+  const y = (row: number) => PAD.top + row * ROW_H + ROW_H / 2;
+  const extinctCount = order.filter(node => node.extinctGeneration !== undefined).length;
+
+  const openDetails = (node: LineageNode) => {
+    if (drag.current?.moved) return;
+    setSelected(organisms.find(org => org.species === node.species) ?? node.specimen);
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const container = containerRef.current;
+    if (!container) return;
+    drag.current = { x: e.clientX, y: e.clientY, left: container.scrollLeft, top: container.scrollTop, moved: false };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const container = containerRef.current;
+    const start = drag.current;
+    if (!container || !start || e.buttons !== 1) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (Math.abs(dx) + Math.abs(dy) > DRAG_THRESHOLD) start.moved = true;
+    container.scrollLeft = start.left - dx;
+    container.scrollTop = start.top - dy;
+  };
+
+  return (
+    <div className="bg-petri-accent rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-white">🌳 Tree of Life</h3>
+          <p className="text-gray-400 text-sm">
+            {order.length} species seen, {extinctCount} extinct
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setZoomIndex(i => Math.max(0, i - 1))}
+            disabled={zoomIndex === 0}
+            className="w-8 h-8 rounded-lg bg-petri-bg text-white hover:bg-petri-highlight disabled:opacity-40"
+            title="Zoom out"
+          >
+            −
+          </button>
+          <button
+            onClick={() => setZoomIndex(DEFAULT_ZOOM)}
+            className="px-2 h-8 rounded-lg bg-petri-bg text-gray-400 text-sm hover:text-white"
+            title="Reset zoom"
+          >
+            {Math.round(zoom * 100)}%
+          </button>
+          <button
+            onClick={() => setZoomIndex(i => Math.min(ZOOM_LEVELS.length - 1, i + 1))}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            className="w-8 h-8 rounded-lg bg-petri-bg text-white hover:bg-petri-highlight disabled:opacity-40"
+            title="Zoom in"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="bg-petri-bg rounded-lg overflow-auto max-h-96 cursor-grab active:cursor-grabbing select-none"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+      >
+        <svg width={width * zoom} height={height * zoom} viewBox={`0 0 ${width} ${height}`}>
+          {/* Generation columns */}
+          {Array.from({ length: lastGeneration }, (_, i) => i + 1).map(gen => (
+            <g key={gen}>
+              <line x1={x(gen)} x2={x(gen)} y1={PAD.top - 8} y2={height - PAD.bottom} stroke="#374151" strokeDasharray="2 4" />
+              <text x={x(gen) + 4} y={PAD.top - 12} fill="#9ca3af" fontSize={10}>
+                Gen {gen}
+              </text>
+            </g>
+          ))}
+
+          {/* Branches back to the parent species */}
+          {order.map(node => {
+            const parentRow = node.parent !== undefined ? rows.get(node.parent) : undefined;
+            if (parentRow === undefined) return null;
+            const bx = x(node.originGeneration);
+            return (
+              <path
+                key={`branch-${node.species}`}
+                d={`M${bx},${y(parentRow)} V${y(rows.get(node.species)!)}`}
+                stroke={node.color}
+                strokeWidth={2}
+                fill="none"
+                opacity={0.7}
+              />
+            );
+          })}
+
+          {/* Species */}
+          {order.map((node, row) => {
+            const extinct = node.extinctGeneration !== undefined;
+            const start = x(node.originGeneration);
+            const end = x((node.extinctGeneration ?? lastGeneration) + 1);
+            const isHovered = hovered === node.species;
+            return (
+              <g
+                key={node.species}
+                className="cursor-pointer"
+                onClick={() => openDetails(node)}
+                onMouseEnter={() => setHovered(node.species)}
+                onMouseLeave={() => setHovered(null)}
+              >
+                <title>
+                  {`${node.species} (${node.type}), gen ${node.originGeneration}${
+                    extinct ? `–${node.extinctGeneration}, extinct` : ' to today'
+                  }${node.parent ? `, from ${node.parent}` : ''}`}
+                </title>
+                <rect x={start} y={y(row) - ROW_H / 2} width={end - start + PAD.right} height={ROW_H} fill={isHovered ? '#ffffff10' : 'transparent'} />
+                <line
+                  x1={start}
+                  x2={end}
+                  y1={y(row)}
+                  y2={y(row)}
+                  stroke={node.color}
+                  strokeWidth={isHovered ? 8 : 6}
+                  strokeLinecap="round"
+                  strokeDasharray={extinct ? '6 4' : undefined}
+                  opacity={extinct ? 0.45 : 0.9}
+                />
+                <circle cx={start} cy={y(row)} r={5} fill={node.color} stroke="#111827" strokeWidth={2} />
+                <text x={end + 8} y={y(row) + 4} fill={extinct ? '#6b7280' : '#e5e7eb'} fontSize={12}>
+                  {extinct ? `† ${node.species}` : node.species}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <p className="text-gray-500 text-xs mt-2">
+        Drag to pan, click a species for details. Dashed branches have died out.
+      </p>
+
+      {selected && (
+        <SpeciesDetailPanel
+          organism={selected}
+          worldBiome={worldBiome}
+          onClose={() => setSelected(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,461 @@
+import React, { useMemo, useState } from 'react';
+import { Organism, OrganismType, TimeSeries, TimeSeriesSample } from '@/types';
+
+interface PopulationChartsProps {
+  generation: number;
+  timeSeries: TimeSeries[];
+  organisms: Organism[];
+}
+
+type ChartTab = 'species' | 'biodiversity' | 'phase' | 'energy';
+
+const TABS: { id: ChartTab; label: string }[] = [
+  { id: 'species', label: '📈 Species' },
+  { id: 'biodiversity', label: '🌈 Biodiversity' },
+  { id: 'phase', label: '🦁 Predator / Prey' },
+  { id: 'energy', label: '⚡ Energy' }
+];
+
+// Shared SVG layout, charts scale to their container width
+const WIDTH = 640;
+const HEIGHT = 240;
+const PAD = { top: 12, right: 16, bottom: 28, left: 40 };
+export const PLOT_W = WIDTH - PAD.left - PAD.right;
+export const PLOT_H = HEIGHT - PAD.top - PAD.bottom;
+
+// Colors for species that are no longer around to lend their own
+const FALLBACK_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa', '#f87171', '#22d3ee', '#a3e635', '#fb923c', '#e879f9'];
+
+const TYPE_COLORS: Record<OrganismType, string> = {
+  plant: '#4ade80',
+  herbivore: '#60a5fa',
+  carnivore: '#f87171',
+  omnivore: '#fbbf24',
+  decomposer: '#a78bfa',
+  microbe: '#22d3ee'
+};
+
+const PREY_TYPES: OrganismType[] = ['herbivore'];
+const PREDATOR_TYPES: OrganismType[] = ['carnivore', 'omnivore'];
+
+/**
+ * Charts over the recorded time series: species populations for the
+ * finished generation, biodiversity across every generation, a
+ * predator/prey phase plot and the survivors' energy distribution.
+ */
+export const PopulationCharts: React.FC<PopulationChartsProps> = ({
+  generation,
+  timeSeries,
+  organisms
+}) => {
+  const [tab, setTab] = useState<ChartTab>('species');
+  const current = timeSeries.find(series => series.generation === generation);
+  const history = useMemo(
+    () => [...timeSeries].sort((a, b) => a.generation - b.generation),
+    [timeSeries]
+  );
+  const colors = useMemo(() => getSpeciesColors(history, organisms), [history, organisms]);
+
+  if (!current || current.samples.length === 0) return null;
+
+  return (
+    <div className="bg-petri-accent rounded-xl p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-bold text-white">📊 Population Charts</h3>
+        <div className="flex flex-wrap gap-1">
+          {TABS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-3 py-1 rounded-lg text-sm transition-all ${
+                tab === id ? 'bg-petri-glow text-white' : 'bg-petri-bg text-gray-400 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {tab === 'species' && <SpeciesLines samples={current.samples} colors={colors} />}
+      {tab === 'biodiversity' && <BiodiversityArea history={history} colors={colors} />}
+      {tab === 'phase' && <PhasePlot samples={current.samples} />}
+      {tab === 'energy' && <EnergyHistogram organisms={organisms} samples={current.samples} />}
+    </div>
+  );
+};
+
+interface SpeciesLinesProps {
+  samples: TimeSeriesSample[];
+  colors: Record<string, string>;
+}
+
+// One line per species, click the legend to hide a species
+const SpeciesLines: React.FC<SpeciesLinesProps> = ({ samples, colors }) => {
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [hover, setHover] = useState<number | null>(null);
+
+  const species = getSpeciesNames(samples);
+  const visible = species.filter(name => !hidden.has(name));
+  const maxCount = Math.max(1, ...samples.flatMap(s => visible.map(name => s.bySpecies[name] || 0)));
+  const x = scaleLinear(samples[0].tick, samples[samples.length - 1].tick, 0, PLOT_W);
+  const y = scaleLinear(0, maxCount, PLOT_H, 0);
+
+  const toggle = (name: string) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const hovered = hover !== null ? samples[hover] : null;
+
+  return (
+    <div>
+      <ChartFrame
+        xLabel="Tick"
+        yMax={maxCount}
+        xMin={samples[0].tick}
+        xMax={samples[samples.length - 1].tick}
+        onHover={fraction => setHover(fraction === null ? null : Math.round(fraction * (samples.length - 1)))}
+      >
+        {visible.map(name => (
+          <path
+            key={name}
+            d={linePath(samples.map(s => [x(s.tick), y(s.bySpecies[name] || 0)]))}
+            fill="none"
+            stroke={colors[name]}
+            strokeWidth={2}
+          />
+        ))}
+        {hovered && <line x1={x(hovered.tick)} x2={x(hovered.tick)} y1={0} y2={PLOT_H} stroke="white" strokeOpacity={0.3} />}
+      </ChartFrame>
+
+      {hovered && (
+        <p className="text-xs text-gray-400 mt-2">
+          Tick {hovered.tick}:{' '}
+          {visible.map(name => `${name} ${hovered.bySpecies[name] || 0}`).join(' · ')}
+        </p>
+      )}
+
+      <Legend
+        items={species.map(name => ({ name, color: colors[name], muted: hidden.has(name) }))}
+        onToggle={toggle}
+      />
+    </div>
+  );
+};
+
+interface BiodiversityAreaProps {
+  history: TimeSeries[];
+  colors: Record<string, string>;
+}
+
+// Stacked species counts over every generation laid end to end
+const BiodiversityArea: React.FC<BiodiversityAreaProps> = ({ history, colors }) => {
+  const [hover, setHover] = useState<number | null>(null);
+
+  // Continuous timeline: each generation starts where the previous one ended
+  const points = useMemo(() => {
+    let offset = 0;
+    return history.flatMap(series => {
+      const start = offset;
+      const last = series.samples[series.samples.length - 1];
+      offset += (last?.tick ?? 0) + series.interval;
+      return series.samples.map(sample => ({ t: start + sample.tick, generation: series.generation, sample }));
+    });
+  }, [history]);
+
+  if (points.length === 0) return null;
+
+  const species = getSpeciesNames(points.map(p => p.sample));
+  const maxTotal = Math.max(1, ...points.map(p => p.sample.population));
+  const x = scaleLinear(points[0].t, points[points.length - 1].t, 0, PLOT_W);
+  const y = scaleLinear(0, maxTotal, PLOT_H, 0);
+
+  // Running totals give each species its band
+  const stacks = points.map(p => {
+    let total = 0;
+    return species.map(name => {
+      const low = total;
+      total += p.sample.bySpecies[name] || 0;
+      return [low, total] as const;
+    });
+  });
+
+  const boundaries = points.filter((p, i) => i > 0 && p.generation !== points[i - 1].generation);
+  const hovered = hover !== null ? points[hover] : null;
+
+  return (
+    <div>
+      <ChartFrame
+        xLabel="Generations"
+        yMax={maxTotal}
+        onHover={fraction => setHover(fraction === null ? null : Math.round(fraction * (points.length - 1)))}
+      >
+        {species.map((name, s) => (
+          <path
+            key={name}
+            d={areaPath(
+              points.map((p, i) => [x(p.t), y(stacks[i][s][1])]),
+              points.map((p, i) => [x(p.t), y(stacks[i][s][0])])
+            )}
+            fill={colors[name]}
+            fillOpacity={0.75}
+          />
+        ))}
+        {boundaries.map(p => (
+          <g key={p.generation}>
+            <line x1={x(p.t)} x2={x(p.t)} y1={0} y2={PLOT_H} stroke="white" strokeOpacity={0.25} strokeDasharray="4 4" />
+            <text x={x(p.t) + 4} y={12} fill="#9ca3af" fontSize={10}>Gen {p.generation}</text>
+          </g>
+        ))}
+        {hovered && <line x1={x(hovered.t)} x2={x(hovered.t)} y1={0} y2={PLOT_H} stroke="white" strokeOpacity={0.4} />}
+      </ChartFrame>
+
+      {hovered && (
+        <p className="text-xs text-gray-400 mt-2">
+          Gen {hovered.generation}, tick {hovered.sample.tick}: {hovered.sample.population} organisms,{' '}
+          {Object.keys(hovered.sample.bySpecies).length} species
+        </p>
+      )}
+
+      <Legend items={species.map(name => ({ name, color: colors[name] }))} />
+    </div>
+  );
+};
+
+interface PhasePlotProps {
+  samples: TimeSeriesSample[];
+}
+
+// Prey against predators over time; Lotka-Volterra cycles show up as loops
+const PhasePlot: React.FC<PhasePlotProps> = ({ samples }) => {
+  const [hover, setHover] = useState<number | null>(null);
+
+  const points = samples.map(s => ({
+    tick: s.tick,
+    prey: sumTypes(s, PREY_TYPES),
+    predators: sumTypes(s, PREDATOR_TYPES)
+  }));
+  const maxPrey = Math.max(1, ...points.map(p => p.prey));
+  const maxPredators = Math.max(1, ...points.map(p => p.predators));
+  const x = scaleLinear(0, maxPrey, 0, PLOT_W);
+  const y = scaleLinear(0, maxPredators, PLOT_H, 0);
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const hovered = hover !== null ? points[hover] : null;
+
+  return (
+    <div>
+      <ChartFrame xLabel="Prey (herbivores)" yLabel="Predators" yMax={maxPredators} xMin={0} xMax={maxPrey}>
+        <path d={linePath(points.map(p => [x(p.prey), y(p.predators)]))} fill="none" stroke="#f472b6" strokeWidth={1.5} strokeOpacity={0.8} />
+        {points.map((p, i) => (
+          <circle
+            key={p.tick}
+            cx={x(p.prey)}
+            cy={y(p.predators)}
+            r={hover === i ? 5 : 2.5}
+            fill="#f472b6"
+            fillOpacity={hover === i ? 1 : 0.5}
+            onMouseEnter={() => setHover(i)}
+            onMouseLeave={() => setHover(null)}
+          />
+        ))}
+        <circle cx={x(first.prey)} cy={y(first.predators)} r={5} fill="#4ade80" />
+        <circle cx={x(last.prey)} cy={y(last.predators)} r={5} fill="#f87171" />
+      </ChartFrame>
+
+      <p className="text-xs text-gray-400 mt-2">
+        {hovered
+          ? `Tick ${hovered.tick}: ${hovered.prey} prey, ${hovered.predators} predators`
+          : '🟢 start · 🔴 end · hover a point for its tick'}
+      </p>
+    </div>
+  );
+};
+
+interface EnergyHistogramProps {
+  organisms: Organism[];
+  samples: TimeSeriesSample[];
+}
+
+const ENERGY_BINS = 10;
+
+// Survivors' energy, stacked by organism type, with mean energy over the run
+const EnergyHistogram: React.FC<EnergyHistogramProps> = ({ organisms, samples }) => {
+  const [hover, setHover] = useState<number | null>(null);
+
+  const types = Object.keys(TYPE_COLORS) as OrganismType[];
+  const bins = Array.from({ length: ENERGY_BINS }, () => ({} as Partial<Record<OrganismType, number>>));
+  organisms.forEach(org => {
+    const bin = Math.min(ENERGY_BINS - 1, Math.max(0, Math.floor(org.energy / (100 / ENERGY_BINS))));
+    bins[bin][org.type] = (bins[bin][org.type] || 0) + 1;
+  });
+  const totals = bins.map(bin => types.reduce((sum, type) => sum + (bin[type] || 0), 0));
+  const maxCount = Math.max(1, ...totals);
+  const y = scaleLinear(0, maxCount, PLOT_H, 0);
+  const barWidth = PLOT_W / ENERGY_BINS;
+
+  const meanEnergy = samples.map(s => s.meanEnergy);
+  const mean = scaleLinear(0, 100, PLOT_H, 0);
+  const tickX = scaleLinear(0, samples.length - 1, 0, PLOT_W);
+
+  return (
+    <div>
+      <ChartFrame xLabel="Energy" yMax={maxCount} xMin={0} xMax={100}>
+        {bins.map((bin, i) => {
+          let top = 0;
+          return (
+            <g key={i} onMouseEnter={() => setHover(i)} onMouseLeave={() => setHover(null)}>
+              {types.map(type => {
+                const count = bin[type] || 0;
+                if (!count) return null;
+                const y0 = y(top);
+                top += count;
+                return (
+                  <rect
+                    key={type}
+                    x={i * barWidth + 2}
+                    y={y(top)}
+                    width={barWidth - 4}
+                    height={y0 - y(top)}
+                    fill={TYPE_COLORS[type]}
+                    fillOpacity={hover === null || hover === i ? 0.85 : 0.4}
+                  />
+                );
+              })}
+            </g>
+          );
+        })}
+        <path d={linePath(meanEnergy.map((e, i) => [tickX(i), mean(e)]))} fill="none" stroke="white" strokeOpacity={0.5} strokeDasharray="3 3" />
+      </ChartFrame>
+
+      <p className="text-xs text-gray-400 mt-2">
+        {hover !== null
+          ? `${hover * 10}–${hover * 10 + 10}⚡: ${totals[hover]} organisms`
+          : 'Bars: survivors by energy · dashed line: mean energy over the run (0–100)'}
+      </p>
+
+      <Legend items={types.map(type => ({ name: type, color: TYPE_COLORS[type] }))} />
+    </div>
+  );
+};
+
+interface ChartFrameProps {
+  xLabel: string;
+  yLabel?: string;
+  yMax: number;
+  xMin?: number;
+  xMax?: number;
+  onHover?: (fraction: number | null) => void;
+  children: React.ReactNode;
+}
+
+// Axes, gridlines and hover tracking shared by every chart
+export const ChartFrame: React.FC<ChartFrameProps> = ({ xLabel, yLabel, yMax, xMin, xMax, onHover, children }) => {
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!onHover) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const plotX = ((e.clientX - rect.left) / rect.width) * WIDTH - PAD.left;
+    onHover(plotX < 0 || plotX > PLOT_W ? null : plotX / PLOT_W);
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto bg-petri-bg rounded-lg"
+      onMouseMove={handleMove}
+      onMouseLeave={() => onHover?.(null)}
+    >
+      <g transform={`translate(${PAD.left},${PAD.top})`}>
+        {[0, 0.25, 0.5, 0.75, 1].map(f => (
+          <g key={f}>
+            <line x1={0} x2={PLOT_W} y1={PLOT_H * (1 - f)} y2={PLOT_H * (1 - f)} stroke="white" strokeOpacity={0.08} />
+            <text x={-6} y={PLOT_H * (1 - f) + 3} textAnchor="end" fill="#6b7280" fontSize={10}>
+              {Math.round(yMax * f)}
+            </text>
+          </g>
+        ))}
+        {children}
+      </g>
+      {xMin !== undefined && (
+        <text x={PAD.left} y={HEIGHT - 8} fill="#6b7280" fontSize={10}>{xMin}</text>
+      )}
+      {xMax !== undefined && (
+        <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" fill="#6b7280" fontSize={10}>{xMax}</text>
+      )}
+      <text x={PAD.left + PLOT_W / 2} y={HEIGHT - 8} textAnchor="middle" fill="#9ca3af" fontSize={11}>{xLabel}</text>
+      {yLabel && (
+        <text x={12} y={PAD.top + PLOT_H / 2} textAnchor="middle" fill="#9ca3af" fontSize={11} transform={`rotate(-90 12 ${PAD.top + PLOT_H / 2})`}>
+          {yLabel}
+        </text>
+      )}
+    </svg>
+  );
+};
+
+interface LegendProps {
+  items: { name: string; color: string; muted?: boolean }[];
+  onToggle?: (name: string) => void;
+}
+
+export const Legend: React.FC<LegendProps> = ({ items, onToggle }) => (
+  <div className="flex flex-wrap gap-2 mt-3">
+    {items.map(item => (
+      <button
+        key={item.name}
+        onClick={() => onToggle?.(item.name)}
+        disabled={!onToggle}
+        className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-petri-bg text-xs transition-opacity ${
+          item.muted ? 'opacity-40' : ''
+        } ${onToggle ? 'hover:bg-petri-highlight' : 'cursor-default'}`}
+      >
+        <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: item.color }} />
+        <span className="text-gray-300 capitalize">{item.name}</span>
+      </button>
+    ))}
+  </div>
+);
+
+export function scaleLinear(d0: number, d1: number, r0: number, r1: number) {
+  const span = d1 - d0 || 1;
+  return (value: number) => r0 + ((value - d0) / span) * (r1 - r0);
+}
+
+export function linePath(points: [number, number][]): string {
+  return points.map(([px, py], i) => `${i === 0 ? 'M' : 'L'}${px.toFixed(1)},${py.toFixed(1)}`).join('');
+}
+
+function areaPath(top: [number, number][], bottom: [number, number][]): string {
+  return `${linePath(top)}${linePath([...bottom].reverse()).replace(/^M/, 'L')}Z`;
+}
+
+function sumTypes(sample: TimeSeriesSample, types: OrganismType[]): number {
+  return types.reduce((sum, type) => sum + (sample.byType[type] || 0), 0);
+}
+
+// Species in order of first appearance
+function getSpeciesNames(samples: TimeSeriesSample[]): string[] {
+  const names = new Set<string>();
+  samples.forEach(s => Object.keys(s.bySpecies).forEach(name => names.add(name)));
+  return Array.from(names);
+}
+
+// Survivors keep their own color, everyone else gets one from the palette
+function getSpeciesColors(history: TimeSeries[], organisms: Organism[]): Record<string, string> {
+  const colors: Record<string, string> = {};
+  organisms.forEach(org => {
+    if (!colors[org.species]) colors[org.species] = org.color;
+  });
+  let next = 0;
+  history.forEach(series => {
+    getSpeciesNames(series.samples).forEach(name => {
+      if (!colors[name]) colors[name] = FALLBACK_COLORS[next++ % FALLBACK_COLORS.length];
+    });
+  });
+  return colors;
+}
@@ -1,13 +1,27 @@
 import React from 'react';
-import { SimulationEvent, SimulationStats, Organism, EvolveResponse } from '@/types';
+import { SimulationEvent, SimulationStats, Organism, EvolveResponse, EvolutionMode, TimeSeries, DeathCause, Phenotype, Lineage } from '@/types';
+import { getEventEmoji } from '@/utils';
+import { PopulationCharts } from './PopulationCharts';
+import { PhylogenyTree } from './PhylogenyTree';
+
+const EVOLUTION_MODES: { mode: EvolutionMode; label: string; description: string }[] = [
+  { mode: 'ai', label: '🤖 AI', description: 'Gemini decides what happens and tells the story' },
+  { mode: 'rules', label: '📐 Rule-based', description: 'Selection, mutation and speciation by fixed rules, no API needed' },
+  { mode: 'hybrid', label: '🔀 Hybrid', description: 'The rules decide, Gemini only names new species and narrates' }
+];
 
 interface ResultsPanelProps {
   generation: number;
   organisms: Organism[];
   events: SimulationEvent[];
   stats: SimulationStats;
+  timeSeries?: TimeSeries[];
+  lineage?: Lineage;
+  worldBiome: string;
   narrative: string;
   evolveResult?: EvolveResponse;
+  evolutionMode: EvolutionMode;
+  onEvolutionModeChange: (mode: EvolutionMode) => void;
   onContinue: () => void;
   onReset: () => void;
   isEvolving: boolean;
@@ -19,13 +33,20 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
   organisms,
   events,
   stats,
+  timeSeries = [],
+  lineage = {},
+  worldBiome,
   narrative,
   evolveResult,
+  evolutionMode,
+  onEvolutionModeChange,
   onContinue,
   onReset,
   isEvolving,
   onExport
 }) => {
+  const currentSeries = timeSeries.find(series => series.generation === generation);
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -64,6 +85,20 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
         />
       </div>
 
+      {/* Causes of Death */}
+      {stats.deathsByCause && stats.deaths > 0 && <DeathSummary stats={stats} />}
+
+      {/* Population Dynamics */}
+      {currentSeries && currentSeries.samples.length > 0 && (
+        <PopulationSummary series={currentSeries} />
+      )}
+
+      {/* Charts */}
+      <PopulationCharts generation={generation} timeSeries={timeSeries} organisms={organisms} />
+
+      {/* Phylogeny */}
+      <PhylogenyTree lineage={lineage} generation={generation} organisms={organisms} worldBiome={worldBiome} />
+
       {/* Events Timeline */}
       <div className="bg-petri-accent rounded-xl p-6">
         <h3 className="text-xl font-bold text-white mb-4">📜 Notable Events</h3>
@@ -117,12 +152,38 @@ export const ResultsPanel: React.FC<ResultsPanelProps> = ({
                 <div className="text-gray-400 text-sm">
                   {species.count} individuals
                 </div>
+                {currentSeries && <PhenotypeDrift series={currentSeries} species={species.name} />}
               </div>
             </div>
           ))}
         </div>
       </div>
 
+      {/* Evolution Mode */}
+      <div className="bg-petri-accent rounded-xl p-4">
+        <h4 className="text-sm font-bold text-gray-400 mb-2">How should the world evolve?</h4>
+        <div className="grid grid-cols-3 gap-2">
+          {EVOLUTION_MODES.map(({ mode, label, description }) => (
+            <button
+              key={mode}
+              onClick={() => onEvolutionModeChange(mode)}
+              disabled={isEvolving}
+              title={description}
+              className={`px-3 py-2 rounded-lg text-sm transition-all ${
+                evolutionMode === mode
+                  ? 'bg-petri-glow text-white'
+                  : 'bg-petri-bg text-gray-400 hover:bg-petri-highlight'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <p className="text-gray-400 text-xs mt-2">
+          {EVOLUTION_MODES.find(option => option.mode === evolutionMode)?.description}
+        </p>
+      </div>
+
       {/* Action Buttons */}
       <div className="flex gap-4">
         <button
@@ -180,6 +241,102 @@ const StatBox: React.FC<StatBoxProps> = ({ label, value, icon, color }) => (
   </div>
 );
 
+interface PopulationSummaryProps {
+  series: TimeSeries;
+}
+
+const PopulationSummary: React.FC<PopulationSummaryProps> = ({ series }) => {
+  const { samples } = series;
+  const peak = samples.reduce((best, s) => (s.population > best.population ? s : best), samples[0]);
+  const low = samples.reduce((worst, s) => (s.population < worst.population ? s : worst), samples[0]);
+  const predations = samples.reduce((sum, s) => sum + s.predations, 0);
+  const last = samples[samples.length - 1];
+
+  return (
+    <div className="bg-petri-accent rounded-xl p-6">
+      <h3 className="text-xl font-bold text-white mb-4">📈 Population Dynamics</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+        <div className="bg-petri-bg rounded-lg p-3">
+          <div className="text-gray-400">Peak</div>
+          <div className="text-white font-medium">{peak.population} at tick {peak.tick}</div>
+        </div>
+        <div className="bg-petri-bg rounded-lg p-3">
+          <div className="text-gray-400">Low</div>
+          <div className="text-white font-medium">{low.population} at tick {low.tick}</div>
+        </div>
+        <div className="bg-petri-bg rounded-lg p-3">
+          <div className="text-gray-400">Kills</div>
+          <div className="text-white font-medium">{predations}</div>
+        </div>
+        <div className="bg-petri-bg rounded-lg p-3">
+          <div className="text-gray-400">Final mean energy</div>
+          <div className="text-white font-medium">{last.meanEnergy.toFixed(0)}⚡</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface PhenotypeDriftProps {
+  series: TimeSeries;
+  species: string;
+}
+
+// How far a species' average body moved during the run
+const PhenotypeDrift: React.FC<PhenotypeDriftProps> = ({ series, species }) => {
+  const phenotypes = series.samples
+    .map(sample => sample.phenotypes?.[species])
+    .filter((phenotype): phenotype is Phenotype => !!phenotype);
+  if (phenotypes.length < 2) return null;
+
+  const first = phenotypes[0];
+  const last = phenotypes[phenotypes.length - 1];
+  const changes = [
+    { icon: '📏', label: 'size', change: relativeChange(first.size, last.size) },
+    { icon: '💨', label: 'speed', change: relativeChange(first.speed, last.speed) },
+    { icon: '⌛', label: 'lifespan', change: relativeChange(first.maxAge, last.maxAge) }
+  ].filter(({ change }) => Math.abs(change) >= 1);
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="text-xs text-gray-500" title="Change in the species' average during this run">
+      {changes.map(({ icon, label, change }) => (
+        <span key={label} className="mr-2">
+          {icon} {change > 0 ? '+' : ''}{change}%
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const DEATH_CAUSE_LABELS: Record<DeathCause, string> = {
+  starvation: '🍂 Starvation',
+  'old-age': '⌛ Old age',
+  predation: '🦷 Predation',
+  disease: '🦠 Disease'
+};
+
+interface DeathSummaryProps {
+  stats: SimulationStats;
+}
+
+const DeathSummary: React.FC<DeathSummaryProps> = ({ stats }) => (
+  <div className="bg-petri-accent rounded-xl p-6">
+    <h3 className="text-xl font-bold text-white mb-4">⚰️ Causes of Death</h3>
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+      {(Object.keys(DEATH_CAUSE_LABELS) as DeathCause[]).map(cause => (
+        <div key={cause} className="bg-petri-bg rounded-lg p-3">
+          <div className="text-gray-400">{DEATH_CAUSE_LABELS[cause]}</div>
+          <div className="text-white font-medium">{stats.deathsByCause?.[cause] ?? 0}</div>
+        </div>
+      ))}
+    </div>
+    {stats.extinctions.length > 0 && (
+      <p className="text-sm text-red-300 mt-3">Died out: {stats.extinctions.join(', ')}</p>
+    )}
+  </div>
+);
+
 interface EventCardProps {
   event: SimulationEvent;
 }
@@ -229,24 +386,6 @@ const LoadingSpinner: React.FC = () => (
   </svg>
 );
 
-function getEventEmoji(type: string): string {
-  const emojis: Record<string, string> = {
-    birth: '🐣',
-    death: '💀',
-    evolution: '🧬',
-    mutation: '🔬',
-    migration: '🦅',
-    disease: '🦠',
-    extinction: '☠️',
-    speciation: '🌟',
-    climate_change: '🌡️',
-    natural_disaster: '💥',
-    symbiosis: '🤝',
-    predation: '🦁'
-  };
-  return emojis[type] || '📝';
-}
-
 function getTypeEmoji(type: string): string {
   const emojis: Record<string, string> = {
     plant: '🌿',
@@ -266,6 +405,10 @@ interface SpeciesSummary {
   count: number;
 }
 
+function relativeChange(from: number, to: number): number {
+  return from ? Math.round(((to - from) / from) * 100) : 0;
+}
+
 function getSpeciesSummary(organisms: Organism[]): SpeciesSummary[] {
   const speciesMap = new Map<string, SpeciesSummary>();
   
@@ -1,15 +1,29 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
 import { PetridiseGame, TextureConfig } from '@/game';
-import { Organism, WorldConfig, SimulationStats } from '@/types';
+import { applyOrganismDiff } from '@/engine';
+import { Organism, WorldConfig, SimulationEvent, SimulationStats, SimulationSpeed, TimeSeries } from '@/types';
+import { getEventEmoji } from '@/utils';
 import { SpeciesDetailPanel } from './SpeciesDetailPanel';
 import { WorldDetailPanel } from './WorldDetailPanel';
 
+const SPEEDS: SimulationSpeed[] = [0.25, 1, 4, 16];
+// Events shown in the live ticker, newest first
+const TICKER_SIZE = 5;
+
 interface SimulationViewProps {
   world: WorldConfig;
   organisms: Organism[];
   texture: TextureConfig;
   maxTicks: number;
-  onComplete: (organisms: Organism[], stats: SimulationStats) => void;
+  seed: number;
+  generation: number;
+  onComplete: (
+    organisms: Organism[],
+    stats: SimulationStats,
+    world: WorldConfig,
+    timeSeries: TimeSeries | null,
+    events: SimulationEvent[]
+  ) => void;
   onPause?: () => void;
   onResume?: () => void;
   onImmersiveModeChange?: (isImmersive: boolean) => void;
@@ -20,6 +34,8 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
   organisms,
   texture,
   maxTicks,
+  seed,
+  generation,
   onComplete,
   onImmersiveModeChange,
 }) => {
@@ -27,12 +43,14 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
   const gameRef = useRef<PetridiseGame | null>(null);
   const [currentTick, setCurrentTick] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
+  const [speed, setSpeed] = useState<SimulationSpeed>(1);
   const [simulationEnded, setSimulationEnded] = useState(false);
   const [currentOrganisms, setCurrentOrganisms] = useState<Organism[]>(organisms);
   const [selectedOrganism, setSelectedOrganism] = useState<Organism | null>(null);
   const [showWorldDetails, setShowWorldDetails] = useState(false);
   const [immersiveMode, setImmersiveMode] = useState(false);
   const [showOrganismList, setShowOrganismList] = useState(false);
+  const [recentEvents, setRecentEvents] = useState<SimulationEvent[]>([]);
   const [stats, setStats] = useState<SimulationStats>({
     totalOrganisms: organisms.length,
     births: 0,
@@ -42,7 +60,6 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
     dominantSpecies: '',
     biodiversityIndex: 0
   });
-  const initialCountRef = useRef(organisms.length);
 
   // Get fullscreen dimensions
   const getFullscreenDimensions = useCallback(() => {
@@ -82,13 +99,20 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
         organisms,
         texture,
         maxTicks,
+        seed,
+        generation,
         {
           onTick: (tick) => {
             setCurrentTick(tick);
           },
-          onOrganismUpdate: (updatedOrganisms) => {
-            setCurrentOrganisms(updatedOrganisms);
-            updateStats(updatedOrganisms);
+          onOrganismUpdate: (diff) => {
+            setCurrentOrganisms(prev => applyOrganismDiff(prev, diff));
+          },
+          onStatsUpdate: (updatedStats) => {
+            setStats(updatedStats);
+          },
+          onEvents: (events) => {
+            setRecentEvents(prev => [...events].reverse().concat(prev).slice(0, TICKER_SIZE));
           },
           onSimulationComplete: () => {
             setSimulationEnded(true);
@@ -108,24 +132,6 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
     };
   }, []);
 
-  const updateStats = (updatedOrganisms: Organism[]) => {
-    const speciesCount: Record<string, number> = {};
-    updatedOrganisms.forEach(org => {
-      speciesCount[org.species] = (speciesCount[org.species] || 0) + 1;
-    });
-
-    const dominant = Object.entries(speciesCount).sort((a, b) => b[1] - a[1])[0];
-    const biodiversity = Object.keys(speciesCount).length / Math.max(updatedOrganisms.length, 1);
-
-    setStats(prev => ({
-      ...prev,
-      totalOrganisms: updatedOrganisms.length,
-      deaths: initialCountRef.current - updatedOrganisms.length + prev.births,
-      dominantSpecies: dominant?.[0] || 'None',
-      biodiversityIndex: biodiversity
-    }));
-  };
-
   const handlePauseResume = () => {
     if (simulationEnded) return;
     if (isPaused) {
@@ -136,9 +142,30 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
     setIsPaused(!isPaused);
   };
 
+  const handleSpeedChange = (newSpeed: SimulationSpeed) => {
+    setSpeed(newSpeed);
+    gameRef.current?.setSpeed(newSpeed);
+  };
+
+  // Same seed, same steps: skipping ends exactly where watching would
+  const handleSkipToEnd = () => {
+    if (simulationEnded) return;
+    gameRef.current?.skipToEnd();
+  };
+
   const handleNextGeneration = () => {
     const finalOrganisms = gameRef.current?.getOrganisms() || currentOrganisms;
-    onComplete(finalOrganisms, stats);
+    // Compounds shift as organisms breathe, grow and decay
+    const finalWorld = gameRef.current?.getWorld() || world;
+    // The engine's own books, fixed when the run completed
+    const finalStats = gameRef.current?.getStats() || stats;
+    onComplete(
+      finalOrganisms,
+      finalStats,
+      finalWorld,
+      gameRef.current?.getTimeSeries() ?? null,
+      gameRef.current?.getEvents() ?? []
+    );
   };
 
   const toggleImmersiveMode = () => {
@@ -178,7 +205,7 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
               </div>
 
               {/* Center: Progress & Controls */}
-              <div className="flex-1 max-w-md flex items-center gap-3">
+              <div className="flex-1 max-w-xl flex items-center gap-3">
                 <button
                   onClick={handlePauseResume}
                   disabled={simulationEnded}
@@ -206,6 +233,31 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
                 <span className="text-sm text-white/60 min-w-[60px]">
                   {currentTick}/{maxTicks}
                 </span>
+
+                {/* Speed Controls */}
+                <div className="flex items-center gap-1">
+                  {SPEEDS.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => handleSpeedChange(option)}
+                      className={`px-2 py-1 rounded-lg text-xs transition-all ${
+                        speed === option
+                          ? 'bg-white/20 text-white'
+                          : 'text-white/50 hover:bg-white/10 hover:text-white'
+                      }`}
+                    >
+                      {option}×
+                    </button>
+                  ))}
+                  <button
+                    onClick={handleSkipToEnd}
+                    disabled={simulationEnded}
+                    className="px-2 py-1 rounded-lg text-xs text-white/50 hover:bg-white/10 hover:text-white transition-all disabled:opacity-30 disabled:hover:bg-transparent"
+                    title="Skip to end"
+                  >
+                    ⏭
+                  </button>
+                </div>
               </div>
 
               {/* Right: Actions */}
@@ -227,6 +279,26 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
             </div>
           </div>
 
+          {/* Live Event Ticker */}
+          {recentEvents.length > 0 && (
+            <div className="absolute top-24 right-4 z-10 w-72 space-y-2 pointer-events-none">
+              {recentEvents.map((event, index) => (
+                <div
+                  key={event.id}
+                  className="bg-black/40 backdrop-blur-md rounded-xl border border-white/10 px-3 py-2 transition-opacity"
+                  style={{ opacity: 1 - index * 0.15 }}
+                >
+                  <div className="flex items-center gap-2">
+                    <span>{getEventEmoji(event.type)}</span>
+                    <span className="text-white/90 text-sm font-medium truncate">{event.title}</span>
+                    <span className="text-white/40 text-xs ml-auto">t{event.tick}</span>
+                  </div>
+                  <p className="text-white/50 text-xs mt-0.5">{event.description}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Bottom Stats Bar */}
           <div className="absolute bottom-4 left-4 right-4 z-10">
             <div className="flex items-end justify-between gap-4">
@@ -271,7 +343,8 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
               <div className="flex gap-2">
                 <StatPill icon="👑" value={stats.dominantSpecies || 'None'} />
                 <StatPill icon="🌈" value={`${(stats.biodiversityIndex * 100).toFixed(0)}%`} />
-                <StatPill icon="💀" value={stats.deaths.toString()} />
+                <StatPill icon="🐣" value={stats.births.toString()} />
+                <StatPill icon="💀" value={stats.deaths.toString()} title={describeDeaths(stats)} />
               </div>
             </div>
           </div>
@@ -314,7 +387,7 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
       {/* World Details Panel */}
       {showWorldDetails && (
         <WorldDetailPanel
-          world={world}
+          world={gameRef.current?.getWorld() || world}
           organismCount={currentOrganisms.length}
           currentTick={currentTick}
           maxTicks={maxTicks}
@@ -335,11 +408,20 @@ export const SimulationView: React.FC<SimulationViewProps> = ({
 interface StatPillProps {
   icon: string;
   value: string;
+  title?: string;
 }
 
-const StatPill: React.FC<StatPillProps> = ({ icon, value }) => (
-  <div className="bg-black/40 backdrop-blur-md rounded-xl border border-white/10 px-3 py-2 flex items-center gap-2">
+const StatPill: React.FC<StatPillProps> = ({ icon, value, title }) => (
+  <div title={title} className="bg-black/40 backdrop-blur-md rounded-xl border border-white/10 px-3 py-2 flex items-center gap-2">
     <span>{icon}</span>
     <span className="text-white/80 text-sm font-medium">{value}</span>
   </div>
 );
+
+// Tooltip breaking deaths down by cause
+function describeDeaths(stats: SimulationStats): string | undefined {
+  if (!stats.deathsByCause) return undefined;
+  return Object.entries(stats.deathsByCause)
+    .map(([cause, count]) => `${cause.replace('-', ' ')}: ${count}`)
+    .join(', ');
+}
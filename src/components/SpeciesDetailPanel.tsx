@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Organism } from '@/types';
 import { pixelToRealSize, estimateWeight, compressImageForStorage } from '@/utils';
+import { describeTraitEffect } from '@/engine';
+import { getApiHeaders, getImage, putImage } from '@/hooks';
 
 const ORGANISM_IMAGE_CACHE_PREFIX = 'petridise_organism_image_';
 
@@ -24,30 +26,31 @@ export const SpeciesDetailPanel: React.FC<SpeciesDetailPanelProps> = ({
 
   // Load cached image on mount and auto-generate if not cached
   useEffect(() => {
-    const cached = sessionStorage.getItem(cacheKey);
-    if (cached) {
-      setGeneratedImage(cached);
-    } else {
-      // Auto-generate image if not cached
-      generateImage();
-    }
+    let cancelled = false;
+    getImage(cacheKey)
+      .catch(() => undefined)
+      .then(cached => {
+        if (cancelled) return;
+        if (cached) {
+          setGeneratedImage(cached);
+        } else {
+          // Auto-generate image if not cached
+          generateImage();
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [cacheKey]);
 
   const generateImage = async () => {
-    // Check cache first
-    const cached = sessionStorage.getItem(cacheKey);
-    if (cached) {
-      setGeneratedImage(cached);
-      return;
-    }
-
     setIsGeneratingImage(true);
     setImageError(null);
 
     try {
       const response = await fetch('/api/generate-organism-image', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: getApiHeaders(),
         body: JSON.stringify({
           organism,
           worldBiome
@@ -61,28 +64,12 @@ export const SpeciesDetailPanel: React.FC<SpeciesDetailPanelProps> = ({
       const data = await response.json();
       setGeneratedImage(data.imageData);
       
-      // Compress and cache in sessionStorage
+      // Compress and cache in IndexedDB
       try {
         const compressed = await compressImageForStorage(data.imageData, 400, 400, 0.7);
-        sessionStorage.setItem(cacheKey, compressed);
-      } catch (storageError) {
-        // Quota exceeded - clear old organism images and try again
-        console.warn('SessionStorage quota exceeded, clearing old organism images...');
-        const keysToRemove: string[] = [];
-        for (let i = 0; i < sessionStorage.length; i++) {
-          const key = sessionStorage.key(i);
-          if (key?.startsWith('petridise_organism_image_')) {
-            keysToRemove.push(key);
-          }
-        }
-        keysToRemove.forEach(key => sessionStorage.removeItem(key));
-        try {
-          const compressed = await compressImageForStorage(data.imageData, 400, 400, 0.7);
-          sessionStorage.setItem(cacheKey, compressed);
-        } catch {
-          // Still failed, just skip caching
-          console.warn('Could not cache organism image');
-        }
+        await putImage(cacheKey, compressed);
+      } catch {
+        console.warn('Could not cache organism image');
       }
     } catch (error) {
       console.error('Error generating organism image:', error);
@@ -240,6 +227,9 @@ export const SpeciesDetailPanel: React.FC<SpeciesDetailPanelProps> = ({
                     <div>
                       <span className="text-white">{trait.name}</span>
                       <p className="text-white/40 text-xs">{trait.description}</p>
+                      {describeTraitEffect(trait) && (
+                        <p className="text-cyan-300/60 text-xs">{describeTraitEffect(trait)}</p>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <div className="w-16 h-2 bg-black/30 rounded-full overflow-hidden">
@@ -289,7 +279,6 @@ export const SpeciesDetailPanel: React.FC<SpeciesDetailPanelProps> = ({
           {generatedImage && (
             <button
               onClick={() => {
-                sessionStorage.removeItem(cacheKey);
                 setGeneratedImage(null);
                 generateImage();
               }}
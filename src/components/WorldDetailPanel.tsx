@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { WorldConfig } from '@/types';
 import { compressImageForStorage } from '@/utils';
+import { getEnvironmentFactors } from '@/engine';
+import { getApiHeaders, getImage, putImage } from '@/hooks';
 
 interface WorldDetailPanelProps {
   world: WorldConfig;
@@ -22,36 +24,38 @@ export const WorldDetailPanel: React.FC<WorldDetailPanelProps> = ({
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [worldImage, setWorldImage] = useState<string | null>(null);
   const [imageError, setImageError] = useState<string | null>(null);
+  const environment = getEnvironmentFactors(world);
 
   // Create a cache key based on world name and biome
   const cacheKey = `${WORLD_IMAGE_CACHE_PREFIX}${world.name}_${world.biome}`;
 
   // Load cached image on mount and auto-generate if not cached
   useEffect(() => {
-    const cached = sessionStorage.getItem(cacheKey);
-    if (cached) {
-      setWorldImage(cached);
-    } else {
-      // Auto-generate image if not cached
-      generateWorldImage();
-    }
+    let cancelled = false;
+    getImage(cacheKey)
+      .catch(() => undefined)
+      .then(cached => {
+        if (cancelled) return;
+        if (cached) {
+          setWorldImage(cached);
+        } else {
+          // Auto-generate image if not cached
+          generateWorldImage();
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
   }, [cacheKey]);
 
   const generateWorldImage = async () => {
-    // Check cache first
-    const cached = sessionStorage.getItem(cacheKey);
-    if (cached) {
-      setWorldImage(cached);
-      return;
-    }
-
     setIsGeneratingImage(true);
     setImageError(null);
 
     try {
       const response = await fetch('/api/generate-world-image', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: getApiHeaders(),
         body: JSON.stringify({ world })
       });
 
@@ -62,28 +66,12 @@ export const WorldDetailPanel: React.FC<WorldDetailPanelProps> = ({
       const data = await response.json();
       setWorldImage(data.imageData);
       
-      // Compress and cache in sessionStorage
+      // Compress and cache in IndexedDB
       try {
         const compressed = await compressImageForStorage(data.imageData, 600, 400, 0.7);
-        sessionStorage.setItem(cacheKey, compressed);
-      } catch (storageError) {
-        // Quota exceeded - clear old world images and try again
-        console.warn('SessionStorage quota exceeded, clearing old world images...');
-        const keysToRemove: string[] = [];
-        for (let i = 0; i < sessionStorage.length; i++) {
-          const key = sessionStorage.key(i);
-          if (key?.startsWith('petridise_world_image_')) {
-            keysToRemove.push(key);
-          }
-        }
-        keysToRemove.forEach(key => sessionStorage.removeItem(key));
-        try {
-          const compressed = await compressImageForStorage(data.imageData, 600, 400, 0.7);
-          sessionStorage.setItem(cacheKey, compressed);
-        } catch {
-          // Still failed, just skip caching
-          console.warn('Could not cache world image');
-        }
+        await putImage(cacheKey, compressed);
+      } catch {
+        console.warn('Could not cache world image');
       }
     } catch (error) {
       console.error('Error generating world image:', error);
@@ -238,6 +226,19 @@ export const WorldDetailPanel: React.FC<WorldDetailPanelProps> = ({
             </div>
           </div>
 
+          {/* Living Conditions - how the climate shapes metabolism */}
+          <div className="bg-white/5 rounded-lg p-3 border border-white/10">
+            <h3 className="text-white font-bold mb-3 flex items-center gap-2">
+              <span>🌱</span> Living Conditions
+            </h3>
+            <div className="space-y-2">
+              <CompoundBar name="Sunlight" value={toPercent(environment.light)} color="from-yellow-400 to-amber-500" icon="☀️" />
+              <CompoundBar name="Growth" value={toPercent(environment.photosynthesis)} color="from-green-500 to-emerald-500" icon="🌿" />
+              <CompoundBar name="Cold-blood" value={toPercent(environment.coldActivity)} color="from-sky-500 to-cyan-500" icon="🦎" />
+              <CompoundBar name="Breathing" value={toPercent(environment.oxygenActivity)} color="from-cyan-500 to-blue-500" icon="🫁" />
+            </div>
+          </div>
+
           {/* Simulation Status */}
           <div className="bg-white/5 rounded-lg p-3 border border-white/10">
             <h3 className="text-white font-bold mb-3 flex items-center gap-2">
@@ -277,7 +278,6 @@ export const WorldDetailPanel: React.FC<WorldDetailPanelProps> = ({
           {worldImage && (
             <button
               onClick={() => {
-                sessionStorage.removeItem(cacheKey);
                 setWorldImage(null);
                 generateWorldImage();
               }}
@@ -306,6 +306,11 @@ export const WorldDetailPanel: React.FC<WorldDetailPanelProps> = ({
   );
 };
 
+// Environment multipliers shown as a 0-100 bar
+function toPercent(multiplier: number): number {
+  return Math.round(Math.min(multiplier, 1) * 100);
+}
+
 interface CompoundBarProps {
   name: string;
   value: number;
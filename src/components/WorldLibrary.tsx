@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { SavedWorldSummary } from '@/types';
+import { listWorlds, renameWorld, duplicateWorld, deleteWorld } from '@/hooks';
+
+interface WorldLibraryProps {
+  onResume: (id: string) => Promise<boolean>;
+}
+
+const BIOME_EMOJIS: Record<string, string> = {
+  ocean: '🌊',
+  forest: '🌲',
+  desert: '🏜️',
+  tundra: '❄️',
+  swamp: '🌿',
+  volcanic: '🌋',
+  grassland: '🌾',
+  cave: '🕳️',
+  alien: '👽'
+};
+
+/**
+ * Worlds saved in this browser. Worlds save themselves after every
+ * generation; from here they can be resumed, duplicated, renamed or
+ * deleted.
+ */
+export const WorldLibrary: React.FC<WorldLibraryProps> = ({ onResume }) => {
+  const [worlds, setWorlds] = useState<SavedWorldSummary[] | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [resumingId, setResumingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () =>
+    listWorlds()
+      .then(setWorlds)
+      .catch(err => {
+        console.warn('Could not read saved worlds:', err);
+        setError('Saved worlds are not available in this browser');
+        setWorlds([]);
+      });
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Run a library change, then show the library as it now is
+  const update = async (change: Promise<unknown>) => {
+    try {
+      await change;
+      setError(null);
+    } catch (err) {
+      console.error('Error updating saved worlds:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update saved worlds');
+    }
+    await refresh();
+  };
+
+  const handleResume = async (id: string) => {
+    setResumingId(id);
+    await onResume(id);
+    setResumingId(null);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (name) await update(renameWorld(renaming.id, name));
+  };
+
+  const handleDelete = async (world: SavedWorldSummary) => {
+    if (!window.confirm(`Delete "${world.name}"? This cannot be undone.`)) return;
+    await update(deleteWorld(world.id));
+  };
+
+  if (worlds === null) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-petri-bg rounded-lg border border-petri-highlight">
+      <label className="text-white font-medium flex items-center gap-2">
+        📚 My Worlds
+      </label>
+      <p className="text-xs text-gray-400 mt-1 mb-3">
+        Worlds save automatically after every generation
+      </p>
+
+      {error && <p className="text-xs text-red-300 mb-2">{error}</p>}
+
+      {worlds.length === 0 ? (
+        <p className="text-sm text-gray-500">No saved worlds yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {worlds.map(world => (
+            <div key={world.id} className="flex items-center gap-3 p-2 rounded-lg bg-petri-accent">
+              <Thumbnail world={world} />
+              <div className="flex-1 min-w-0">
+                {renaming?.id === world.id ? (
+                  <form onSubmit={handleRename}>
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      onChange={e => setRenaming({ id: world.id, name: e.target.value })}
+                      onBlur={handleRename}
+                      className="w-full px-2 py-1 bg-petri-bg border border-petri-highlight rounded text-white text-sm focus:outline-none focus:border-petri-glow"
+                    />
+                  </form>
+                ) : (
+                  <div className="text-white font-medium truncate">{world.name}</div>
+                )}
+                <div className="text-xs text-gray-400">
+                  Generation {world.generation}
+                  {world.branchCount > 1 && ` · ${world.branchCount} timelines`}
+                  {' · '}
+                  {new Date(world.updatedAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => handleResume(world.id)}
+                  disabled={resumingId !== null}
+                  className="px-3 py-1 text-sm font-medium rounded-lg bg-petri-glow text-white hover:scale-[1.03] transition-all disabled:opacity-50"
+                >
+                  {resumingId === world.id ? 'Loading...' : '▶ Resume'}
+                </button>
+                <IconButton title="Rename" onClick={() => setRenaming({ id: world.id, name: world.name })}>✏️</IconButton>
+                <IconButton title="Duplicate" onClick={() => update(duplicateWorld(world.id))}>📄</IconButton>
+                <IconButton title="Delete" onClick={() => handleDelete(world)}>🗑️</IconButton>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Thumbnail: React.FC<{ world: SavedWorldSummary }> = ({ world }) => {
+  if (world.thumbnail) {
+    return <img src={world.thumbnail} alt="" className="w-16 h-11 rounded object-cover flex-shrink-0" />;
+  }
+  const colors = world.palette?.length ? world.palette : ['#1f2937', '#374151'];
+  return (
+    <div
+      className="w-16 h-11 rounded flex items-center justify-center text-xl flex-shrink-0"
+      style={{ background: `linear-gradient(135deg, ${colors.join(', ')})` }}
+    >
+      {BIOME_EMOJIS[world.biome] || '🌍'}
+    </div>
+  );
+};
+
+interface IconButtonProps {
+  title: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const IconButton: React.FC<IconButtonProps> = ({ title, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    title={title}
+    className="w-8 h-8 rounded-lg hover:bg-petri-highlight transition-colors"
+  >
+    {children}
+  </button>
+);
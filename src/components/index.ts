@@ -4,3 +4,9 @@ export { ResultsPanel } from './ResultsPanel';
 export { DebugPanel } from './DebugPanel';
 export { SpeciesDetailPanel } from './SpeciesDetailPanel';
 export { WorldDetailPanel } from './WorldDetailPanel';
+export { PopulationCharts } from './PopulationCharts';
+export { PhylogenyTree } from './PhylogenyTree';
+export { BranchPanel } from './BranchPanel';
+export { ComparisonView } from './ComparisonView';
+export { WorldLibrary } from './WorldLibrary';
+export { GeneratingView } from './GeneratingView';
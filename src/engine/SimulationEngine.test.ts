@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Organism, WorldConfig } from '@/types';
+import { SimulationEngine } from './SimulationEngine';
+
+const WORLD: WorldConfig = {
+  name: 'Test Dish',
+  width: 800,
+  height: 600,
+  gravity: 1,
+  temperature: 20,
+  humidity: 50,
+  compounds: { oxygen: 50, water: 50, nitrogen: 50, carbon: 50, minerals: 50 },
+  biome: 'grassland'
+};
+
+function createOrganisms(): Organism[] {
+  const base = { energy: 80, age: 0, maxAge: 600, traits: [], reproductionRate: 0.05 };
+  return [
+    ...[0, 1, 2, 3, 4, 5].map(i => ({
+      ...base,
+      id: `plant-${i}`,
+      name: 'Moss',
+      species: 'Moss',
+      type: 'plant' as const,
+      x: 100 + i * 100,
+      y: 150 + (i % 2) * 300,
+      size: 12,
+      color: '#3fa34d',
+      speed: 0,
+      behavior: 'passive' as const,
+      locomotion: 'sessile' as const
+    })),
+    ...[0, 1, 2, 3].map(i => ({
+      ...base,
+      id: `grazer-${i}`,
+      name: 'Grazer',
+      species: 'Grazer',
+      type: 'herbivore' as const,
+      x: 200 + i * 120,
+      y: 300,
+      size: 16,
+      color: '#c98a3a',
+      speed: 2,
+      behavior: 'grazing' as const,
+      locomotion: 'walking' as const
+    }))
+  ];
+}
+
+function run(seed: number) {
+  return new SimulationEngine({ world: WORLD, organisms: createOrganisms(), maxTicks: 300, seed }).run();
+}
+
+describe('SimulationEngine', () => {
+  it('replays a seed exactly', () => {
+    expect(run(42)).toEqual(run(42));
+  });
+
+  it('runs differently with another seed', () => {
+    expect(run(43).organisms).not.toEqual(run(42).organisms);
+  });
+
+  it('keeps offspring born at the edge inside the world', () => {
+    const corners = createOrganisms()
+      .filter(org => org.type === 'plant')
+      .slice(0, 4)
+      .map((org, i) => ({
+        ...org,
+        x: i % 2 ? WORLD.width : 0,
+        y: i < 2 ? 0 : WORLD.height,
+        reproductionRate: 0.5
+      }));
+    const state = new SimulationEngine({ world: WORLD, organisms: corners, maxTicks: 200, seed: 7 }).run();
+
+    expect(state.organisms.length).toBeGreaterThan(corners.length);
+    state.organisms.forEach(org => {
+      expect(org.x).toBeGreaterThanOrEqual(org.size / 2);
+      expect(org.x).toBeLessThanOrEqual(WORLD.width - org.size / 2);
+      expect(org.y).toBeGreaterThanOrEqual(org.size / 2);
+      expect(org.y).toBeLessThanOrEqual(WORLD.height - org.size / 2);
+    });
+  });
+});
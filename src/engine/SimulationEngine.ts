@@ -0,0 +1,1099 @@
+import {
+  DeathCause,
+  FoodWeb,
+  FoodWebEntry,
+  InteractionMode,
+  LifeEvent,
+  LocomotionType,
+  MutationSettings,
+  Organism,
+  OrganismType,
+  SimulationEvent,
+  SimulationState,
+  SimulationStats,
+  WorldConfig,
+} from "@/types";
+import {
+  clamp,
+  createSeededRandom,
+  generateId,
+  generateSeed,
+  rotateTowards,
+  RandomSource,
+} from "@/utils";
+import { getTraitModifiers, TraitModifiers } from "./traitEffects";
+import {
+  EnvironmentFactors,
+  getActivityMultiplier,
+  getEnergyBudget,
+  getEnvironmentFactors,
+  isEndotherm,
+  isProducer,
+} from "./metabolism";
+import { getFoodWebEntry, resolveFoodWeb } from "./foodWeb";
+import {
+  applyCompoundFlux,
+  CompoundFlux,
+  EMPTY_FLUX,
+  NutrientField,
+} from "./nutrients";
+import { SpatialGrid } from "./spatialGrid";
+import { Census } from "./census";
+import { Chronicle } from "./chronicle";
+import {
+  applySpeciation,
+  SPECIATION_INTERVAL,
+  SpeciationTracker,
+} from "./speciation";
+import {
+  createGenome,
+  crossover,
+  DEFAULT_MUTATION,
+  expressGenome,
+  mutate,
+  NEUTRAL_WEIGHTS,
+} from "./genetics";
+import { TimeSeriesRecorder } from "./timeSeries";
+
+// Range at which an organism with neutral traits notices prey
+const DETECTION_RADIUS = 250;
+// Population the world supports when it does not set its own carrying capacity
+export const DEFAULT_CARRYING_CAPACITY = 500;
+
+// A starved organism counts as killed if a predator struck it this recently
+const PREDATION_CREDIT_TICKS = 5;
+
+// How far a sexually reproducing organism looks for a mate, the energy a
+// mate needs to take part and what it costs them
+const MATE_RADIUS = 100;
+const MATE_MIN_ENERGY = 40;
+const MATE_ENERGY_COST = 10;
+// Organisms that always reproduce on their own
+export const ASEXUAL_TYPES: OrganismType[] = ["plant", "microbe"];
+
+// Range at which an ambush predator with neutral traits strikes
+const AMBUSH_RADIUS = 80;
+
+// How long a microbe-borne disease lasts and how much it drains per tick
+const INFECTION_TICKS = 200;
+const INFECTION_DRAIN = 0.1;
+// Chance per contact that a sick organism infects a healthy conspecific
+const INFECTION_SPREAD_CHANCE = 0.1;
+
+// Food energy left in a corpse per unit of body size, and how fast it rots
+const CORPSE_ENERGY_PER_SIZE = 1.5;
+const CORPSE_DECAY_RATE = 0.05;
+// Share of a scavenged meal that goes straight back to the soil as waste
+const SCAVENGING_WASTE = 0.3;
+
+// Soil nutrients a producer wants per tick, and the starting level per cell
+// for a world with 100% nitrogen and minerals
+const NUTRIENT_UPTAKE = 0.02;
+const NUTRIENT_SOIL_RICHNESS = 0.5;
+
+// Ticks between folding the nutrient cycle back into the world's compounds
+const COMPOUND_UPDATE_INTERVAL = 50;
+
+export interface SimulationEngineOptions {
+  world: WorldConfig;
+  organisms: Organism[];
+  maxTicks: number;
+  generation?: number;
+  // Same seed and inputs give the same run. Random when omitted.
+  seed?: number;
+  // Ticks between time series samples
+  sampleInterval?: number;
+}
+
+// Remains of a dead organism that scavengers can feed on
+export interface Corpse {
+  id: string;
+  x: number;
+  y: number;
+  size: number;
+  energy: number; // Food left, the corpse is gone when it reaches 0
+  maxEnergy: number;
+  species: string;
+  type: OrganismType;
+  color: string;
+}
+
+// A feeding contact between an organism and its food during a tick
+export interface InteractionRecord {
+  kind: InteractionMode;
+  actorId: string;
+  targetId: string;
+  x: number;
+  y: number;
+}
+
+// Per-organism values derived once from its traits
+interface OrganismProfile {
+  modifiers: TraitModifiers;
+  endotherm: boolean;
+}
+
+// Everything that happened during a single call to step()
+export interface TickResult {
+  tick: number;
+  births: Organism[];
+  deaths: Organism[];
+  interactions: InteractionRecord[];
+  lifeEvents: LifeEvent[]; // Births, deaths and extinctions this tick
+  completed: boolean;
+}
+
+/**
+ * Headless ecology simulation. Owns the organism state and advances it one
+ * tick at a time without any rendering dependency, so a generation can run
+ * in the browser, in Node, or in a worker. MainScene only draws its output.
+ *
+ * Organisms live in world coordinates and every random decision goes through
+ * the seeded random source, so a run never depends on the screen it is
+ * drawn on.
+ */
+export class SimulationEngine {
+  private organisms: Map<string, Organism> = new Map();
+  private profiles: Map<string, OrganismProfile> = new Map();
+  private corpses: Map<string, Corpse> = new Map();
+  private nutrients: NutrientField;
+  // Neighbour index, rebuilt whenever organisms have moved
+  private grid: SpatialGrid<Organism> = new SpatialGrid();
+  private corpseGrid: SpatialGrid<Corpse> = new SpatialGrid();
+  private carryingCapacity: number;
+  private mutation: MutationSettings;
+  private recorder: TimeSeriesRecorder;
+  private flux: CompoundFlux = { ...EMPTY_FLUX };
+  private foodWeb: FoodWeb;
+  private world: WorldConfig;
+  private environment: EnvironmentFactors;
+  private generation: number;
+  private seed: number;
+  private random: RandomSource;
+  private currentTick: number = 0;
+  private maxTicks: number;
+  private census: Census;
+  private chronicle: Chronicle;
+  private speciation: SpeciationTracker;
+  // Most recent predator strike on each organism, to credit kills
+  private lastStrikes: Map<string, { tick: number; predatorId: string }> =
+    new Map();
+  private id: string;
+  private animationTime: number = 0;
+  private nextOrganismId: number = 1000; // For generating new organism IDs
+
+  constructor(options: SimulationEngineOptions) {
+    // The run changes the world's compounds, so keep a private copy
+    this.world = {
+      ...options.world,
+      compounds: { ...options.world.compounds },
+    };
+    this.environment = getEnvironmentFactors(this.world);
+    const { nitrogen = 0, minerals = 0 } = this.world.compounds ?? {};
+    this.nutrients = new NutrientField(
+      this.world.width,
+      this.world.height,
+      ((nitrogen + minerals) / 2) * NUTRIENT_SOIL_RICHNESS,
+    );
+    this.foodWeb = resolveFoodWeb(options.world.foodWeb);
+    this.carryingCapacity = Math.max(
+      1,
+      options.world.carryingCapacity ?? DEFAULT_CARRYING_CAPACITY,
+    );
+    this.mutation = { ...DEFAULT_MUTATION, ...options.world.mutation };
+    this.maxTicks = options.maxTicks;
+    this.generation = options.generation ?? 1;
+    this.seed = options.seed ?? generateSeed();
+    this.random = createSeededRandom(this.seed);
+    this.id = generateId(this.random);
+
+    options.organisms.forEach((source) => {
+      const org = { ...source };
+
+      // Set default locomotion if not provided (backward compatibility)
+      if (!org.locomotion) {
+        org.locomotion = this.inferLocomotion(org);
+      }
+      if (!org.genome) {
+        org.genome = createGenome(org);
+      }
+
+      // Ensure within bounds
+      const padding = org.size / 2;
+      org.x = clamp(org.x, padding, this.world.width - padding);
+      org.y = clamp(org.y, padding, this.world.height - padding);
+
+      this.organisms.set(org.id, org);
+
+      // Offspring ids must not collide with survivors of earlier generations
+      const numbered = /^org-(\d+)$/.exec(org.id);
+      if (numbered) {
+        this.nextOrganismId = Math.max(
+          this.nextOrganismId,
+          Number(numbered[1]) + 1,
+        );
+      }
+    });
+
+    this.census = new Census(this.getOrganisms());
+    this.chronicle = new Chronicle(this.census);
+    this.speciation = new SpeciationTracker(this.getOrganisms());
+    this.recorder = new TimeSeriesRecorder(
+      this.generation,
+      options.sampleInterval,
+    );
+    this.recorder.sample(0, this.getOrganisms());
+  }
+
+  public get tick(): number {
+    return this.currentTick;
+  }
+
+  public get time(): number {
+    return this.animationTime;
+  }
+
+  public get isComplete(): boolean {
+    return this.currentTick >= this.maxTicks;
+  }
+
+  public getOrganisms(): Organism[] {
+    return Array.from(this.organisms.values());
+  }
+
+  public getOrganism(id: string): Organism | undefined {
+    return this.organisms.get(id);
+  }
+
+  public getCorpses(): Corpse[] {
+    return Array.from(this.corpses.values());
+  }
+
+  public getNutrients(): NutrientField {
+    return this.nutrients;
+  }
+
+  // The world as this run has changed it
+  public getWorld(): WorldConfig {
+    return this.world;
+  }
+
+  public getRecorder(): TimeSeriesRecorder {
+    return this.recorder;
+  }
+
+  public getState(): SimulationState {
+    return {
+      id: this.id,
+      seed: this.seed,
+      generation: this.generation,
+      tick: this.currentTick,
+      maxTicks: this.maxTicks,
+      status: this.isComplete ? "completed" : "running",
+      world: { ...this.world, compounds: { ...this.world.compounds } },
+      organisms: this.getOrganisms().map((org) => ({ ...org })),
+      events: this.chronicle.getEvents(),
+      statistics: this.getStats(),
+      timeSeries: this.recorder.getSeries(),
+    };
+  }
+
+  public getStats(): SimulationStats {
+    return this.census.getStats();
+  }
+
+  // Births, deaths and extinctions since the last call
+  public drainLifeEvents(): LifeEvent[] {
+    return this.census.drain();
+  }
+
+  // Notable events of the generation since the last call
+  public drainEvents(): SimulationEvent[] {
+    return this.chronicle.drain();
+  }
+
+  /**
+   * Advance the simulation by one tick: movement, metabolism, ageing,
+   * reproduction, death and contact interactions.
+   */
+  public step(): TickResult {
+    const result: TickResult = {
+      tick: ++this.currentTick,
+      births: [],
+      deaths: [],
+      interactions: [],
+      lifeEvents: [],
+      completed: false,
+    };
+
+    this.animationTime += 0.05;
+    this.grid.rebuild(this.organisms.values());
+
+    // Snapshot so offspring born this tick start acting on the next one
+    this.getOrganisms().forEach((org) => {
+      this.initRuntimeState(org);
+      org.animationPhase! += 0.1;
+
+      if (org.type !== "plant" && org.locomotion !== "sessile") {
+        this.moveOrganism(org);
+      }
+
+      // Producers draw nutrients from the soil beneath them
+      let nutrition = 1;
+      if (isProducer(org)) {
+        const taken = this.nutrients.take(org.x, org.y, NUTRIENT_UPTAKE);
+        this.flux.uptake += taken;
+        nutrition = taken / NUTRIENT_UPTAKE;
+      }
+
+      // Update energy from the world's climate and compounds
+      const profile = this.getProfile(org);
+      const budget = getEnergyBudget(
+        org,
+        this.environment,
+        profile.modifiers,
+        profile.endotherm,
+        nutrition,
+      );
+      org.energy += budget.gain - budget.drain;
+      this.flux.photosynthesis += budget.gain;
+      this.flux.respiration += budget.drain;
+
+      // Disease drains its host until it runs its course
+      if (org.infection) {
+        org.energy -= INFECTION_DRAIN;
+        org.infection = org.infection > 1 ? org.infection - 1 : undefined;
+      }
+      org.energy = clamp(org.energy, 0, 100);
+
+      // Update age
+      org.age += 1;
+
+      // Handle reproduction
+      if (
+        org.energy > 80 &&
+        this.random() <
+          org.reproductionRate * 0.1 * this.getModifiers(org).reproduction
+      ) {
+        const birth = this.handleReproduction(org);
+        if (birth) {
+          result.births.push(birth.offspring);
+          result.lifeEvents.push(
+            ...this.census.recordBirth(
+              this.currentTick,
+              birth.offspring,
+              org,
+              birth.mate,
+            ),
+          );
+        }
+      }
+
+      // Check for death
+      if (org.energy <= 0 || org.age >= org.maxAge) {
+        this.organisms.delete(org.id);
+        this.profiles.delete(org.id);
+        this.leaveCorpse(org);
+        const strike = this.lastStrikes.get(org.id);
+        this.lastStrikes.delete(org.id);
+        const cause = this.getDeathCause(org, strike?.tick);
+        result.lifeEvents.push(
+          ...this.census.recordDeath(
+            this.currentTick,
+            org,
+            cause,
+            cause === "predation" ? strike?.predatorId : undefined,
+          ),
+        );
+        result.deaths.push(org);
+      }
+    });
+
+    this.decayCorpses();
+
+    // Check for interactions
+    this.checkInteractions(result.interactions);
+
+    if (this.currentTick % COMPOUND_UPDATE_INTERVAL === 0) {
+      this.updateCompounds();
+    }
+
+    // Speciation, the series and the event log cover the generation
+    // itself, not the aquarium afterwards
+    if (this.currentTick <= this.maxTicks) {
+      if (this.currentTick % SPECIATION_INTERVAL === 0) {
+        this.detectSpeciation(result.lifeEvents);
+      }
+      this.chronicle.observe(
+        this.currentTick,
+        result.lifeEvents,
+        result.interactions,
+        (id) => this.organisms.get(id),
+      );
+      this.recorder.record(
+        this.currentTick,
+        this.getOrganisms(),
+        result.births.length,
+        result.deaths.length,
+        result.interactions,
+        this.currentTick === this.maxTicks,
+      );
+    }
+
+    result.completed = this.isComplete;
+    return result;
+  }
+
+  /**
+   * Step until maxTicks is reached. Used to run a generation without
+   * rendering it.
+   */
+  public run(): SimulationState {
+    while (!this.isComplete) {
+      this.step();
+    }
+    return this.getState();
+  }
+
+  // Trait-derived values are computed once per organism and cached
+  private getProfile(org: Organism): OrganismProfile {
+    let profile = this.profiles.get(org.id);
+    if (!profile) {
+      profile = {
+        modifiers: getTraitModifiers(org),
+        endotherm: isEndotherm(org),
+      };
+      this.profiles.set(org.id, profile);
+    }
+    return profile;
+  }
+
+  private getModifiers(org: Organism): TraitModifiers {
+    return this.getProfile(org).modifiers;
+  }
+
+  // How close prey must be before this predator notices it
+  private getDetectionRange(predator: Organism, prey: Organism): number {
+    return (
+      (DETECTION_RADIUS * this.getModifiers(predator).detection) /
+      this.getModifiers(prey).stealth
+    );
+  }
+
+  private initRuntimeState(org: Organism) {
+    if (org.direction === undefined) org.direction = this.random() * Math.PI * 2;
+    if (org.animationPhase === undefined)
+      org.animationPhase = this.random() * Math.PI * 2;
+  }
+
+  private moveOrganism(org: Organism) {
+    const gravity = this.world.gravity ?? 1;
+    const movement = this.calculateEnhancedMovement(org);
+
+    // Apply locomotion-specific modifiers
+    const locomotionMod = this.getLocomotionModifiers(org.locomotion);
+
+    // Cold and thin air slow organisms down
+    const activity = getActivityMultiplier(
+      org,
+      this.environment,
+      this.getProfile(org).endotherm,
+    );
+
+    org.x += movement.x * locomotionMod.speedMult * activity;
+    org.y += movement.y * locomotionMod.speedMult * activity;
+
+    // Update direction based on movement
+    if (Math.abs(movement.x) > 0.01 || Math.abs(movement.y) > 0.01) {
+      const targetDir = Math.atan2(movement.y, movement.x);
+      // Smooth rotation
+      org.direction = rotateTowards(org.direction!, targetDir, 0.1);
+    }
+
+    // Apply gravity influence (modified by locomotion)
+    org.y += (gravity - 1) * locomotionMod.gravityMult * 0.1;
+
+    // Apply locomotion-specific vertical movement
+    const phase = org.animationPhase!;
+    if (org.locomotion === "flying" || org.locomotion === "gliding") {
+      org.y += Math.sin(this.animationTime * 2 + phase) * 0.5;
+    } else if (org.locomotion === "hopping") {
+      const hopPhase = (this.animationTime * 3 + phase) % (Math.PI * 2);
+      if (hopPhase < Math.PI) {
+        org.y -= Math.sin(hopPhase) * 2;
+      }
+    } else if (org.locomotion === "swimming" || org.locomotion === "floating") {
+      org.y += Math.sin(this.animationTime + phase) * 0.3;
+      org.x += Math.sin(this.animationTime * 0.5 + phase) * 0.2;
+    }
+
+    // Clamp to boundaries with padding for organism size
+    const padding = org.size / 2;
+    org.x = clamp(org.x, padding, this.world.width - padding);
+    org.y = clamp(org.y, padding, this.world.height - padding);
+  }
+
+  private getLocomotionModifiers(locomotion: LocomotionType): {
+    speedMult: number;
+    gravityMult: number;
+  } {
+    switch (locomotion) {
+      case "flying":
+        return { speedMult: 1.5, gravityMult: 0.1 };
+      case "gliding":
+        return { speedMult: 1.2, gravityMult: 0.3 };
+      case "swimming":
+        return { speedMult: 1.0, gravityMult: 0.2 };
+      case "floating":
+        return { speedMult: 0.5, gravityMult: 0.0 };
+      case "hopping":
+        return { speedMult: 1.3, gravityMult: 0.8 };
+      case "slithering":
+        return { speedMult: 0.8, gravityMult: 1.0 };
+      case "burrowing":
+        return { speedMult: 0.6, gravityMult: 1.2 };
+      case "crawling":
+        return { speedMult: 0.7, gravityMult: 1.0 };
+      case "walking":
+      default:
+        return { speedMult: 1.0, gravityMult: 1.0 };
+    }
+  }
+
+  /**
+   * Bear one offspring if the world has room. Its genome is the parent's,
+   * or a crossover with a nearby mate when reproduction is sexual, mutated
+   * at the world's mutation settings.
+   */
+  private handleReproduction(
+    parent: Organism,
+  ): { offspring: Organism; mate?: Organism } | null {
+    // The world can only support so many organisms
+    if (this.organisms.size >= this.carryingCapacity) return null;
+
+    // Animals reproducing sexually need a mate close by
+    let mate: Organism | undefined;
+    if (
+      this.mutation.sexualReproduction &&
+      !ASEXUAL_TYPES.includes(parent.type)
+    ) {
+      mate = this.findMate(parent);
+      if (!mate) return null;
+      mate.energy -= MATE_ENERGY_COST;
+    }
+
+    // Reduce parent energy
+    parent.energy -= 30;
+
+    // Create offspring
+    const offspring: Organism = {
+      ...parent,
+      id: `org-${this.nextOrganismId++}`,
+      x: parent.x + (this.random() - 0.5) * parent.size * 3,
+      y: parent.y + (this.random() - 0.5) * parent.size * 3,
+      energy: 50,
+      age: 0,
+      direction: this.random() * Math.PI * 2,
+      animationPhase: this.random() * Math.PI * 2,
+      generation: (parent.generation || 1) + 1,
+      infection: undefined,
+    };
+
+    const parentGenome = parent.genome ?? createGenome(parent);
+    const inherited = mate
+      ? crossover(parentGenome, mate.genome ?? createGenome(mate), this.random)
+      : parentGenome;
+    expressGenome(
+      offspring,
+      mutate(inherited, this.mutation, this.random),
+      mate ? [...parent.traits, ...mate.traits] : parent.traits,
+    );
+
+    // Born within bounds, padded for the size it expressed
+    const padding = offspring.size / 2;
+    offspring.x = clamp(offspring.x, padding, this.world.width - padding);
+    offspring.y = clamp(offspring.y, padding, this.world.height - padding);
+
+    this.organisms.set(offspring.id, offspring);
+    return { offspring, mate };
+  }
+
+  // Lineages that drifted far enough from their species become their own
+  private detectSpeciation(lifeEvents: LifeEvent[]) {
+    this.speciation.check(this.getOrganisms()).forEach((split) => {
+      const events = this.census.recordSpeciation(this.currentTick, split);
+      events.forEach((event) => {
+        if (event.kind !== "speciation") return;
+        split.organisms.forEach((org) => applySpeciation(org, event));
+      });
+      lifeEvents.push(...events);
+    });
+  }
+
+  // Nearest conspecific with the energy to mate
+  private findMate(org: Organism): Organism | undefined {
+    let mate: Organism | undefined;
+    let minDist = Infinity;
+    this.forEachNeighbor(org, MATE_RADIUS, (other, dist) => {
+      if (
+        other.species === org.species &&
+        other.energy > MATE_MIN_ENERGY &&
+        dist < minDist
+      ) {
+        minDist = dist;
+        mate = other;
+      }
+    });
+    return mate;
+  }
+
+  /**
+   * Why an organism died. Running out of energy counts as predation when a
+   * predator struck recently, as disease while infected, and otherwise as
+   * starvation.
+   */
+  private getDeathCause(org: Organism, lastStrike?: number): DeathCause {
+    if (org.energy > 0) return "old-age";
+    if (
+      lastStrike !== undefined &&
+      this.currentTick - lastStrike <= PREDATION_CREDIT_TICKS
+    ) {
+      return "predation";
+    }
+    if (org.infection) return "disease";
+    return "starvation";
+  }
+
+  private calculateEnhancedMovement(org: Organism): { x: number; y: number } {
+    const speed = org.speed;
+    // Inherited leanings scale each part of the behavior
+    const weights = org.genome?.behaviorWeights ?? NEUTRAL_WEIGHTS;
+    const wander = speed * weights.wander;
+    let dx = 0;
+    let dy = 0;
+
+    switch (org.behavior) {
+      case "passive":
+        // Random wandering with momentum
+        dx = (this.random() - 0.5) * wander;
+        dy = (this.random() - 0.5) * wander;
+        break;
+
+      case "aggressive":
+        // Move toward nearest prey with higher speed
+        const prey = this.findNearestPrey(org);
+        if (prey) {
+          const angle = Math.atan2(prey.y - org.y, prey.x - org.x);
+          dx = Math.cos(angle) * speed * 1.5 * weights.pursuit;
+          dy = Math.sin(angle) * speed * 1.5 * weights.pursuit;
+        } else {
+          dx = (this.random() - 0.5) * wander;
+          dy = (this.random() - 0.5) * wander;
+        }
+        break;
+
+      case "ambush":
+        // Stay still, then burst toward prey when close
+        const nearbyPrey = this.findNearestPrey(org);
+        if (
+          nearbyPrey &&
+          this.getDistance(org, nearbyPrey) <
+            AMBUSH_RADIUS * this.getModifiers(org).detection
+        ) {
+          const angle = Math.atan2(nearbyPrey.y - org.y, nearbyPrey.x - org.x);
+          dx = Math.cos(angle) * speed * 2.5 * weights.pursuit;
+          dy = Math.sin(angle) * speed * 2.5 * weights.pursuit;
+        }
+        break;
+
+      case "territorial":
+        // Stay in area but patrol
+        const patrolAngle =
+          Math.sin(this.currentTick * 0.02 + parseInt(org.id, 36)) * Math.PI;
+        dx = Math.cos(patrolAngle) * speed * 0.5;
+        dy = Math.sin(patrolAngle) * speed * 0.5;
+        break;
+
+      case "social":
+      case "schooling":
+        // Move toward center of nearby allies, align direction
+        const allies = this.findNearbyAllies(org, 100);
+        if (allies.length > 0) {
+          let avgX = 0,
+            avgY = 0,
+            avgDx = 0,
+            avgDy = 0;
+          allies.forEach((ally) => {
+            avgX += ally.x;
+            avgY += ally.y;
+            avgDx += Math.cos(ally.direction || 0);
+            avgDy += Math.sin(ally.direction || 0);
+          });
+          avgX /= allies.length;
+          avgY /= allies.length;
+
+          // Cohesion - move toward center
+          const toCenter = Math.atan2(avgY - org.y, avgX - org.x);
+          const cohesion = speed * weights.cohesion;
+          dx = Math.cos(toCenter) * cohesion * 0.3;
+          dy = Math.sin(toCenter) * cohesion * 0.3;
+
+          // Alignment - match average direction
+          dx += (avgDx / allies.length) * cohesion * 0.5;
+          dy += (avgDy / allies.length) * cohesion * 0.5;
+
+          // Separation - avoid getting too close
+          allies.forEach((ally) => {
+            const dist = this.getDistance(org, ally);
+            if (dist < org.size * 2) {
+              const away = Math.atan2(org.y - ally.y, org.x - ally.x);
+              dx += Math.cos(away) * speed * 0.5 * weights.avoidance;
+              dy += Math.sin(away) * speed * 0.5 * weights.avoidance;
+            }
+          });
+        } else {
+          dx = (this.random() - 0.5) * wander;
+          dy = (this.random() - 0.5) * wander;
+        }
+        break;
+
+      case "grazing":
+        // Slow, steady movement with occasional direction changes
+        if (this.random() < 0.02) {
+          org.targetX = org.x + (this.random() - 0.5) * 200;
+          org.targetY = org.y + (this.random() - 0.5) * 200;
+        }
+        if (org.targetX !== undefined && org.targetY !== undefined) {
+          const toTarget = Math.atan2(org.targetY - org.y, org.targetX - org.x);
+          dx = Math.cos(toTarget) * wander * 0.5;
+          dy = Math.sin(toTarget) * wander * 0.5;
+        }
+        break;
+
+      case "solitary":
+        // Move away from others
+        const nearest = this.findNearestOrganism(org, 100);
+        if (nearest) {
+          const angle = Math.atan2(org.y - nearest.y, org.x - nearest.x);
+          dx = Math.cos(angle) * speed * weights.avoidance;
+          dy = Math.sin(angle) * speed * weights.avoidance;
+        } else {
+          dx = (this.random() - 0.5) * wander;
+          dy = (this.random() - 0.5) * wander;
+        }
+        break;
+
+      case "migratory":
+        // Move in consistent direction with gradual turning
+        const migrationAngle =
+          this.currentTick * 0.005 + (parseInt(org.id, 36) % 10);
+        dx = Math.cos(migrationAngle) * speed;
+        dy = Math.sin(migrationAngle) * speed * 0.5;
+        break;
+    }
+
+    return { x: dx, y: dy };
+  }
+
+  private findNearbyAllies(org: Organism, radius: number): Organism[] {
+    const allies: Organism[] = [];
+    this.forEachNeighbor(org, radius, (other, dist) => {
+      if (other.species === org.species && dist < radius) {
+        allies.push(other);
+      }
+    });
+    return allies;
+  }
+
+  private findNearestPrey(predator: Organism): Organism | null {
+    let nearest: Organism | null = null;
+    let minDist = Infinity;
+
+    // Stealth only ever shrinks the range, so this bounds every prey's range
+    const maxRange = DETECTION_RADIUS * this.getModifiers(predator).detection;
+    this.forEachNeighbor(predator, maxRange, (org, dist) => {
+      if (getFoodWebEntry(this.foodWeb, predator, org.type)) {
+        if (dist < minDist && dist < this.getDetectionRange(predator, org)) {
+          minDist = dist;
+          nearest = org;
+        }
+      }
+    });
+
+    return nearest;
+  }
+
+  private findNearestOrganism(org: Organism, radius: number): Organism | null {
+    let nearest: Organism | null = null;
+    let minDist = Infinity;
+
+    this.forEachNeighbor(org, radius, (other, dist) => {
+      if (dist < minDist && dist < radius) {
+        minDist = dist;
+        nearest = other;
+      }
+    });
+
+    return nearest;
+  }
+
+  // Living organisms other than `org` within `radius`, via the spatial grid
+  private forEachNeighbor(
+    org: Organism,
+    radius: number,
+    visit: (other: Organism, dist: number) => void,
+  ) {
+    this.grid.forEachNear(org.x, org.y, radius, (other, dist) => {
+      // The grid is rebuilt once per tick, skip anything that died since
+      if (other.id === org.id || !this.organisms.has(other.id)) return;
+      visit(other, dist);
+    });
+  }
+
+  private getDistance(
+    a: { x: number; y: number },
+    b: { x: number; y: number },
+  ): number {
+    return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+  }
+
+  private inferLocomotion(org: Organism): LocomotionType {
+    // Infer locomotion based on organism type and biome
+    const biome = this.world.biome || "forest";
+
+    if (org.type === "plant") return "sessile";
+    if (org.type === "microbe") return "floating";
+
+    // Biome-specific defaults
+    if (biome === "ocean" || biome === "swamp") {
+      if (org.type === "carnivore") return "swimming";
+      if (org.type === "herbivore")
+        return this.random() > 0.5 ? "swimming" : "floating";
+      return "swimming";
+    }
+
+    if (biome === "cave") {
+      return this.random() > 0.5 ? "crawling" : "flying";
+    }
+
+    // Default based on behavior and type
+    if (org.behavior === "migratory")
+      return this.random() > 0.5 ? "flying" : "walking";
+    if (org.type === "carnivore")
+      return this.random() > 0.3 ? "walking" : "flying";
+    if (org.type === "decomposer") return "crawling";
+
+    // Random variety for others
+    const locomotions: LocomotionType[] = [
+      "walking",
+      "hopping",
+      "crawling",
+      "slithering",
+    ];
+    return locomotions[Math.floor(this.random() * locomotions.length)];
+  }
+
+  private checkInteractions(interactions: InteractionRecord[]) {
+    const organisms = this.getOrganisms();
+    this.grid.rebuild(organisms);
+
+    // Each pair is handled once, by whichever of the two comes first
+    const order = new Map<string, number>();
+    let largest = 0;
+    organisms.forEach((org, i) => {
+      order.set(org.id, i);
+      largest = Math.max(largest, org.size);
+    });
+
+    organisms.forEach((a, i) => {
+      this.grid.forEachNear(a.x, a.y, (a.size + largest) / 2, (b, dist) => {
+        if (order.get(b.id)! <= i) return;
+        if (dist < (a.size + b.size) / 2) {
+          const record = this.handleInteraction(a, b);
+          if (record) interactions.push(record);
+        }
+      });
+    });
+
+    // Scavengers feeding on corpses
+    if (this.corpses.size === 0) return;
+    this.corpseGrid.rebuild(this.corpses.values());
+    const largestCorpse = this.getCorpses().reduce(
+      (max, corpse) => Math.max(max, corpse.size),
+      0,
+    );
+
+    organisms.forEach((org) => {
+      const entry = getFoodWebEntry(this.foodWeb, org, "corpse");
+      if (!entry) return;
+
+      const reach = (org.size + largestCorpse) / 2;
+      this.corpseGrid.forEachNear(org.x, org.y, reach, (corpse, dist) => {
+        // Already eaten by someone else this tick
+        if (!this.corpses.has(corpse.id)) return;
+        if (dist >= (org.size + corpse.size) / 2) return;
+        const record = this.resolveScavenging(org, corpse, entry);
+        if (record) interactions.push(record);
+      });
+    });
+  }
+
+  private handleInteraction(
+    a: Organism,
+    b: Organism,
+  ): InteractionRecord | null {
+    const x = (a.x + b.x) / 2;
+    const y = (a.y + b.y) / 2;
+
+    // Feeding according to the food web, either direction
+    const record =
+      this.resolveFeeding(a, b, x, y) ?? this.resolveFeeding(b, a, x, y);
+    if (record) return record;
+
+    if (a.species === b.species) {
+      // Disease spreads between members of the same species
+      this.spreadInfection(a, b);
+
+      // Social species grouping - energy boost when near allies
+      if (a.behavior === "social" || a.behavior === "schooling") {
+        a.energy = Math.min(100, a.energy + 0.5);
+        b.energy = Math.min(100, b.energy + 0.5);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * One contact between a consumer and a living target. Attacks succeed with
+   * the food web's chance scaled by attack/defense; venom also hits harder
+   * and thorny or toxic plants lose less when grazed.
+   */
+  private resolveFeeding(
+    consumer: Organism,
+    target: Organism,
+    x: number,
+    y: number,
+  ): InteractionRecord | null {
+    const entry = getFoodWebEntry(this.foodWeb, consumer, target.type);
+    if (!entry) return null;
+    // A host can only carry one infection at a time
+    if (entry.mode === "infection" && target.infection) return null;
+
+    const attack = this.getModifiers(consumer).attack;
+    const defense = this.getModifiers(target).defense;
+    const chance =
+      entry.mode === "grazing"
+        ? entry.successChance
+        : clamp((entry.successChance * attack) / defense, 0.05, 1);
+
+    if (this.random() >= chance) {
+      // Failed attack wastes a little energy
+      if (entry.mode === "predation") consumer.energy -= 1;
+      return null;
+    }
+
+    consumer.energy = Math.min(100, consumer.energy + entry.energyGain);
+    switch (entry.mode) {
+      case "predation":
+        target.energy -= entry.energyLoss * attack;
+        this.lastStrikes.set(target.id, {
+          tick: this.currentTick,
+          predatorId: consumer.id,
+        });
+        break;
+      case "grazing":
+        target.energy -= entry.energyLoss / defense;
+        break;
+      case "infection":
+        target.energy -= entry.energyLoss;
+        target.infection = INFECTION_TICKS;
+        break;
+      default:
+        target.energy -= entry.energyLoss;
+    }
+
+    return {
+      kind: entry.mode,
+      actorId: consumer.id,
+      targetId: target.id,
+      x,
+      y,
+    };
+  }
+
+  private resolveScavenging(
+    consumer: Organism,
+    corpse: Corpse,
+    entry: FoodWebEntry,
+  ): InteractionRecord | null {
+    if (this.random() >= entry.successChance) return null;
+
+    const eaten = Math.min(entry.energyLoss, corpse.energy);
+    corpse.energy -= eaten;
+    this.releaseNutrients(corpse.x, corpse.y, eaten * SCAVENGING_WASTE);
+    consumer.energy = Math.min(
+      100,
+      consumer.energy + entry.energyGain * (eaten / entry.energyLoss),
+    );
+    if (corpse.energy <= 0) {
+      this.corpses.delete(corpse.id);
+    }
+
+    return {
+      kind: "scavenging",
+      actorId: consumer.id,
+      targetId: corpse.id,
+      x: corpse.x,
+      y: corpse.y,
+    };
+  }
+
+  private spreadInfection(a: Organism, b: Organism) {
+    if (!!a.infection === !!b.infection) return;
+    if (this.random() < INFECTION_SPREAD_CHANCE) {
+      if (a.infection) b.infection = INFECTION_TICKS;
+      else a.infection = INFECTION_TICKS;
+    }
+  }
+
+  // Remains of a dead organism, slowly rotting away
+  private leaveCorpse(org: Organism) {
+    const corpse: Corpse = {
+      id: `corpse-${org.id}`,
+      x: org.x,
+      y: org.y,
+      size: org.size,
+      energy: org.size * CORPSE_ENERGY_PER_SIZE,
+      maxEnergy: org.size * CORPSE_ENERGY_PER_SIZE,
+      species: org.species,
+      type: org.type,
+      color: org.color,
+    };
+    this.corpses.set(corpse.id, corpse);
+  }
+
+  // Rotting returns a corpse's remaining energy to the soil around it
+  private decayCorpses() {
+    this.corpses.forEach((corpse, id) => {
+      const decayed = Math.min(CORPSE_DECAY_RATE, corpse.energy);
+      corpse.energy -= decayed;
+      this.releaseNutrients(corpse.x, corpse.y, decayed);
+      if (corpse.energy <= 0) {
+        this.corpses.delete(id);
+      }
+    });
+  }
+
+  private releaseNutrients(x: number, y: number, amount: number) {
+    this.nutrients.deposit(x, y, amount);
+    this.flux.decay += amount;
+  }
+
+  // Fold the accumulated nutrient cycle into the world's compounds
+  private updateCompounds() {
+    this.world.compounds = applyCompoundFlux(this.world.compounds, this.flux);
+    this.environment = getEnvironmentFactors(this.world);
+    this.flux = { ...EMPTY_FLUX };
+  }
+}
@@ -0,0 +1,170 @@
+import { DeathCause, LifeEvent, Organism, SimulationStats } from "@/types";
+import type { Speciation } from "./speciation";
+
+export const DEATH_CAUSES: DeathCause[] = [
+  "starvation",
+  "old-age",
+  "predation",
+  "disease",
+];
+
+/**
+ * Keeps the books on a run: every birth, death and extinction is logged as
+ * a life event and tallied, and the run's statistics are derived from the
+ * tallies rather than guessed from population differences.
+ */
+export class Census {
+  private counts: Map<string, number> = new Map();
+  private births: number = 0;
+  private deaths: number = 0;
+  private deathsByCause: Record<DeathCause, number> = emptyCauses();
+  private extinctions: string[] = [];
+  private created: string[] = [];
+  private pending: LifeEvent[] = [];
+
+  constructor(organisms: Organism[]) {
+    organisms.forEach((org) => {
+      this.counts.set(org.species, (this.counts.get(org.species) || 0) + 1);
+    });
+  }
+
+  public recordBirth(
+    tick: number,
+    child: Organism,
+    parent: Organism,
+    mate?: Organism,
+  ): LifeEvent[] {
+    this.births++;
+    this.counts.set(child.species, (this.counts.get(child.species) || 0) + 1);
+    return this.log({
+      kind: "birth",
+      tick,
+      organismId: child.id,
+      species: child.species,
+      parentId: parent.id,
+      mateId: mate?.id,
+    });
+  }
+
+  public recordDeath(
+    tick: number,
+    org: Organism,
+    cause: DeathCause,
+    killerId?: string,
+  ): LifeEvent[] {
+    this.deaths++;
+    this.deathsByCause[cause]++;
+    const death = this.log({
+      kind: "death",
+      tick,
+      organismId: org.id,
+      species: org.species,
+      cause,
+      killerId,
+    });
+
+    const remaining = (this.counts.get(org.species) || 1) - 1;
+    if (remaining > 0) {
+      this.counts.set(org.species, remaining);
+      return death;
+    }
+    this.counts.delete(org.species);
+    this.extinctions.push(org.species);
+    return death.concat(
+      this.log({ kind: "extinction", tick, species: org.species }),
+    );
+  }
+
+  // Members of a lineage that split off move to their new species
+  public recordSpeciation(tick: number, split: Speciation): LifeEvent[] {
+    const moved = split.organisms.length;
+    this.counts.set(
+      split.parentSpecies,
+      (this.counts.get(split.parentSpecies) || 0) - moved,
+    );
+    this.counts.set(split.species, moved);
+    this.created.push(split.species);
+    return this.log({
+      kind: "speciation",
+      tick,
+      species: split.species,
+      name: split.name,
+      parentSpecies: split.parentSpecies,
+      organismIds: split.organisms.map((org) => org.id),
+    });
+  }
+
+  public getCount(species: string): number {
+    return this.counts.get(species) || 0;
+  }
+
+  // Living organisms per species
+  public getCounts(): ReadonlyMap<string, number> {
+    return this.counts;
+  }
+
+  private log(event: LifeEvent): LifeEvent[] {
+    this.pending.push(event);
+    return [event];
+  }
+
+  // Life events since the last call, for whoever is listening
+  public drain(): LifeEvent[] {
+    const events = this.pending;
+    this.pending = [];
+    return events;
+  }
+
+  public getStats(): SimulationStats {
+    const counts = Array.from(this.counts.values());
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    let dominantSpecies = "";
+    let largest = 0;
+    this.counts.forEach((count, species) => {
+      if (count > largest) {
+        largest = count;
+        dominantSpecies = species;
+      }
+    });
+
+    return {
+      totalOrganisms: total,
+      births: this.births,
+      deaths: this.deaths,
+      extinctions: [...this.extinctions],
+      newSpecies: [...this.created],
+      dominantSpecies,
+      biodiversityIndex: round(simpsonIndex(counts)),
+      shannonIndex: round(shannonIndex(counts)),
+      deathsByCause: { ...this.deathsByCause },
+    };
+  }
+}
+
+// Shannon entropy of the species abundances, 0 for a single species
+export function shannonIndex(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  return -counts.reduce((sum, count) => {
+    if (count === 0) return sum;
+    const p = count / total;
+    return sum + p * Math.log(p);
+  }, 0);
+}
+
+// Chance that two organisms picked at random (with replacement) differ in species
+export function simpsonIndex(counts: number[]): number {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return 0;
+  return (
+    1 - counts.reduce((sum, count) => sum + (count / total) ** 2, 0)
+  );
+}
+
+function emptyCauses(): Record<DeathCause, number> {
+  return { starvation: 0, "old-age": 0, predation: 0, disease: 0 };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,263 @@
+import { LifeEvent, Organism, SimulationEvent } from "@/types";
+import { Census } from "./census";
+import type { InteractionRecord } from "./SimulationEngine";
+
+// A species has crashed when it loses this share of its peak, as long as
+// the peak was at least this many
+const CRASH_SHARE = 0.5;
+const CRASH_MIN_PEAK = 8;
+
+// Births within the window that make a boom, at least the minimum and this
+// share of the species' population
+const BOOM_WINDOW = 100;
+const BOOM_MIN_BIRTHS = 5;
+const BOOM_SHARE = 0.5;
+
+// Share of the population that makes a species dominant, and the share it
+// has to fall below before it can claim dominance again
+const DOMINANCE_SHARE = 0.5;
+const DOMINANCE_RELEASE = 0.4;
+const DOMINANCE_MIN_POPULATION = 10;
+
+// Most organisms listed on a single event
+const MAX_AFFECTED = 10;
+
+/**
+ * Watches a run for the moments worth telling: a species' first kill, a
+ * population crash, a reproduction boom, a species taking over and the
+ * last of a species dying. Fed the census' life events and the tick's
+ * interactions, it writes them up as SimulationEvents.
+ */
+export class Chronicle {
+  private census: Census;
+  private events: SimulationEvent[] = [];
+  private pending: SimulationEvent[] = [];
+  private hunters: Set<string> = new Set();
+  private peaks: Map<string, { count: number; tick: number }> = new Map();
+  private recentBirths: Map<string, { tick: number; id: string }[]> =
+    new Map();
+  private lastDeath: Map<string, string> = new Map();
+  private dominant: string | null = null;
+
+  constructor(census: Census) {
+    this.census = census;
+    census.getCounts().forEach((count, species) => {
+      this.peaks.set(species, { count, tick: 0 });
+    });
+    // A species that starts out on top has not taken over anything
+    const { leader, largest, total } = this.getLeader();
+    if (largest > total * DOMINANCE_SHARE) this.dominant = leader;
+  }
+
+  public observe(
+    tick: number,
+    lifeEvents: LifeEvent[],
+    interactions: InteractionRecord[],
+    lookup: (id: string) => Organism | undefined,
+  ) {
+    interactions.forEach((interaction) => {
+      if (interaction.kind === "predation") {
+        this.checkFirstKill(tick, interaction, lookup);
+      }
+    });
+
+    lifeEvents.forEach((event) => {
+      switch (event.kind) {
+        case "birth":
+          this.checkBoom(tick, event.species, event.organismId);
+          break;
+        case "death":
+          this.lastDeath.set(event.species, event.organismId);
+          this.checkCrash(tick, event.species);
+          break;
+        case "extinction":
+          this.recordExtinction(tick, event.species);
+          break;
+        case "speciation":
+          this.recordSpeciation(tick, event);
+          break;
+      }
+    });
+
+    if (lifeEvents.length > 0) this.checkDominance(tick);
+  }
+
+  public getEvents(): SimulationEvent[] {
+    return [...this.events];
+  }
+
+  // Events since the last call, for whoever is listening
+  public drain(): SimulationEvent[] {
+    const events = this.pending;
+    this.pending = [];
+    return events;
+  }
+
+  private checkFirstKill(
+    tick: number,
+    interaction: InteractionRecord,
+    lookup: (id: string) => Organism | undefined,
+  ) {
+    const predator = lookup(interaction.actorId);
+    if (!predator || this.hunters.has(predator.species)) return;
+    this.hunters.add(predator.species);
+
+    const prey = lookup(interaction.targetId);
+    this.add({
+      tick,
+      type: "predation",
+      title: `${predator.species} make their first kill`,
+      description: prey
+        ? `A ${predator.name} brought down a ${prey.name}.`
+        : `A ${predator.name} made the species' first successful attack.`,
+      affectedOrganisms: [interaction.actorId, interaction.targetId],
+      significance: "moderate",
+    });
+  }
+
+  private checkBoom(tick: number, species: string, id: string) {
+    const count = this.census.getCount(species);
+    const peak = this.peaks.get(species);
+    if (!peak || count > peak.count) {
+      this.peaks.set(species, { count, tick });
+    }
+
+    const births = (this.recentBirths.get(species) ?? []).filter(
+      (birth) => tick - birth.tick < BOOM_WINDOW,
+    );
+    births.push({ tick, id });
+
+    if (births.length >= Math.max(BOOM_MIN_BIRTHS, count * BOOM_SHARE)) {
+      this.add({
+        tick,
+        type: "population_boom",
+        title: `${species} boom`,
+        description: `${births.length} ${species} were born in ${tick - births[0].tick + 1} ticks, bringing them to ${count}.`,
+        affectedOrganisms: births
+          .slice(-MAX_AFFECTED)
+          .map((birth) => birth.id),
+        significance: "moderate",
+      });
+      // Start counting afresh so one boom is only reported once
+      this.recentBirths.set(species, []);
+      return;
+    }
+    this.recentBirths.set(species, births);
+  }
+
+  private checkCrash(tick: number, species: string) {
+    const count = this.census.getCount(species);
+    const peak = this.peaks.get(species);
+    // Dying out entirely is reported as an extinction instead
+    if (!peak || count === 0) return;
+    if (
+      peak.count < CRASH_MIN_PEAK ||
+      count > peak.count * (1 - CRASH_SHARE)
+    ) {
+      return;
+    }
+
+    this.add({
+      tick,
+      type: "population_crash",
+      title: `${species} population crashes`,
+      description: `${species} fell from ${peak.count} to ${count} in ${tick - peak.tick} ticks.`,
+      affectedOrganisms: [this.lastDeath.get(species)!],
+      significance: "major",
+    });
+    // Measure the next crash from here
+    this.peaks.set(species, { count, tick });
+  }
+
+  private recordExtinction(tick: number, species: string) {
+    this.peaks.delete(species);
+    this.recentBirths.delete(species);
+    if (this.dominant === species) this.dominant = null;
+
+    const lastAlive = this.census.getCounts().size === 0;
+    this.add({
+      tick,
+      type: "extinction",
+      title: `The last ${species} dies`,
+      description: lastAlive
+        ? `With the last ${species} gone, nothing is left alive.`
+        : `${species} have died out.`,
+      affectedOrganisms: [this.lastDeath.get(species)!],
+      significance: lastAlive ? "catastrophic" : "major",
+    });
+  }
+
+  private recordSpeciation(
+    tick: number,
+    event: Extract<LifeEvent, { kind: "speciation" }>,
+  ) {
+    const count = event.organismIds.length;
+    this.peaks.set(event.species, { count, tick });
+    // Members leaving for the new species is not a crash of the old one
+    this.peaks.set(event.parentSpecies, {
+      count: this.census.getCount(event.parentSpecies),
+      tick,
+    });
+    this.add({
+      tick,
+      type: "speciation",
+      title: `${event.species} branch off`,
+      description: `${count} ${event.parentSpecies} have drifted far enough from their kin to form a species of their own.`,
+      affectedOrganisms: event.organismIds.slice(0, MAX_AFFECTED),
+      significance: "major",
+    });
+  }
+
+  private checkDominance(tick: number) {
+    if (this.census.getCounts().size < 2) return;
+    const { leader, largest, total } = this.getLeader();
+
+    if (
+      this.dominant &&
+      this.census.getCount(this.dominant) < total * DOMINANCE_RELEASE
+    ) {
+      this.dominant = null;
+    }
+    if (
+      total < DOMINANCE_MIN_POPULATION ||
+      largest <= total * DOMINANCE_SHARE ||
+      leader === this.dominant
+    ) {
+      return;
+    }
+
+    this.dominant = leader;
+    this.add({
+      tick,
+      type: "dominance",
+      title: `${leader} take over`,
+      description: `${leader} make up ${Math.round((largest / total) * 100)}% of all life (${largest} of ${total}).`,
+      affectedOrganisms: [],
+      significance: "moderate",
+    });
+  }
+
+  // Most numerous species and its share of the population
+  private getLeader(): { leader: string; largest: number; total: number } {
+    let total = 0;
+    let leader = "";
+    let largest = 0;
+    this.census.getCounts().forEach((count, species) => {
+      total += count;
+      if (count > largest) {
+        largest = count;
+        leader = species;
+      }
+    });
+    return { leader, largest, total };
+  }
+
+  private add(event: Omit<SimulationEvent, "id">) {
+    const logged = {
+      id: `sim-${event.tick}-${this.events.length}`,
+      ...event,
+    };
+    this.events.push(logged);
+    this.pending.push(logged);
+  }
+}
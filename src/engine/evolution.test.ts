@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Organism, WorldConfig } from '@/types';
+import { evolveByRules, RuleEvolutionInput } from './evolution';
+import { SimulationEngine } from './SimulationEngine';
+
+const WORLD: WorldConfig = {
+  name: 'Test Dish',
+  width: 800,
+  height: 600,
+  gravity: 1,
+  temperature: 20,
+  humidity: 50,
+  compounds: { oxygen: 50, water: 50, nitrogen: 50, carbon: 50, minerals: 50 },
+  biome: 'grassland'
+};
+
+// `count` members of a species, spread across the dish
+function createSpecies(species: string, type: Organism['type'], count: number): Organism[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${species}-${i}`,
+    name: species,
+    species,
+    type,
+    x: 80 + i * 60,
+    y: 100 + (i % 5) * 100,
+    size: type === 'plant' ? 12 : 16,
+    color: type === 'plant' ? '#3fa34d' : '#c98a3a',
+    energy: 80,
+    age: 0,
+    maxAge: 600,
+    speed: type === 'plant' ? 0 : 2,
+    traits: [],
+    behavior: type === 'plant' ? 'passive' : 'grazing',
+    locomotion: type === 'plant' ? 'sessile' : 'walking',
+    reproductionRate: 0.08
+  }));
+}
+
+function createInput(world: WorldConfig): RuleEvolutionInput {
+  const founders = [...createSpecies('Moss', 'plant', 12), ...createSpecies('Grazer', 'herbivore', 6)];
+  const state = new SimulationEngine({ world, organisms: founders, maxTicks: 300, seed: 5 }).run();
+  return {
+    generation: 1,
+    seed: 5,
+    world: state.world,
+    founders,
+    survivors: state.organisms,
+    statistics: state.statistics,
+    timeSeries: state.timeSeries
+  };
+}
+
+describe('evolveByRules', () => {
+  it('evolves the same input the same way', () => {
+    const input = createInput(WORLD);
+    expect(evolveByRules(structuredClone(input))).toEqual(evolveByRules(structuredClone(input)));
+  });
+
+  it('keeps the next generation within half the carrying capacity', () => {
+    const { organisms } = evolveByRules(createInput({ ...WORLD, carryingCapacity: 20 }));
+    expect(organisms.length).toBeGreaterThan(0);
+    expect(organisms.length).toBeLessThanOrEqual(10);
+  });
+});
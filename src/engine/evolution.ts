@@ -0,0 +1,577 @@
+import {
+  EvolveResponse,
+  MutationSettings,
+  Organism,
+  SimulationEvent,
+  SimulationStats,
+  TimeSeries,
+  WorldConfig,
+} from "@/types";
+import { clamp, createSeededRandom, RandomSource } from "@/utils";
+import { createGenome, crossover, DEFAULT_MUTATION, expressGenome, mutate } from "./genetics";
+import { isProducer } from "./metabolism";
+import { ASEXUAL_TYPES, DEFAULT_CARRYING_CAPACITY } from "./SimulationEngine";
+import { applySpeciation, groupBySpecies, SpeciationTracker } from "./speciation";
+
+// Share of the world's carrying capacity an evolved generation may start
+// with, leaving it room to grow during the run
+const START_CAPACITY_SHARE = 0.5;
+// Organisms less fit than this do not make it into the next generation,
+// unless they are the last of their species
+const MIN_FITNESS = 0.2;
+// Growth per generation for each unit of reproduction rate, and the most a
+// species can grow as a share of its selected members
+const GROWTH_PER_RATE = 20;
+const MAX_GROWTH = 2;
+// Many lifetimes pass between runs, so offspring drift further than at birth
+const MUTATION_SCALE = 2;
+// Energy offspring start with, and the least survivors start the next run with
+const START_ENERGY = 50;
+
+// Offspring born to a species that make a boom, at least this many and as
+// many as the members it kept
+const BOOM_MIN_OFFSPRING = 3;
+// A species that lost this share of its members over the run has crashed,
+// as long as it started with at least this many
+const CRASH_SHARE = 0.5;
+const CRASH_MIN_START = 4;
+// Share of all life that makes a species dominant, in a population of at
+// least this many
+const DOMINANCE_SHARE = 0.35;
+const DOMINANCE_MIN_POPULATION = 10;
+// Change in a species' average body worth reporting, and the most species
+// reported per generation
+const NOTABLE_DRIFT = 0.1;
+const MAX_DRIFT_EVENTS = 2;
+
+// Producer share of the population at which oxygen and carbon hold steady,
+// and the points exchanged per unit of share away from it
+const PRODUCER_BALANCE = 0.4;
+const EXCHANGE_SCALE = 10;
+// Degrees of warming per point of carbon gained
+const WARMING_PER_CARBON = 0.3;
+// Share of the gap to the world's water that humidity closes each generation
+const HUMIDITY_PULL = 0.1;
+// Temperature change worth reporting
+const CLIMATE_EVENT_DEGREES = 1;
+
+// Most organisms listed on a single event
+const MAX_AFFECTED = 10;
+
+type DriftGene = "size" | "speed" | "maxAge";
+
+// How a species has changed, by the gene that moved furthest and which way
+const DRIFT_WORDS: Record<DriftGene, [string, string]> = {
+  size: ["larger", "smaller"],
+  speed: ["faster", "slower"],
+  maxAge: ["longer-lived", "shorter-lived"],
+};
+
+const SIGNIFICANCE_RANK: Record<SimulationEvent["significance"], number> = {
+  minor: 0,
+  moderate: 1,
+  major: 2,
+  catastrophic: 3,
+};
+
+export interface RuleEvolutionInput {
+  generation: number;
+  seed: number; // The generation's seed, the same input always evolves the same way
+  world: WorldConfig; // As the run ended
+  founders: Organism[]; // The population the generation began with
+  survivors: Organism[]; // Alive when its run ended
+  statistics: SimulationStats;
+  timeSeries?: TimeSeries;
+}
+
+interface Candidate {
+  org: Organism;
+  fitness: number;
+}
+
+/**
+ * How well an organism is set up to carry its species on, from 0 to 1:
+ * how well fed it is and how much of its life it has left.
+ */
+export function getFitness(org: Organism): number {
+  const health = clamp(org.energy / 100, 0, 1);
+  const youth = org.maxAge > 0 ? clamp(1 - org.age / org.maxAge, 0, 1) : 0;
+  return (health + youth) / 2;
+}
+
+/**
+ * Evolve a generation without the AI. The fittest survivors of each
+ * species are kept and breed mutated offspring in proportion to how the
+ * species fared during the run, lineages that drifted far enough from
+ * their founders split off, and the world's air and climate shift with the
+ * balance of producers and consumers. What happened is written up as
+ * events and a short narrative, in the same shape /api/evolve returns.
+ */
+export function evolveByRules(input: RuleEvolutionInput): EvolveResponse {
+  const { generation, world, founders, survivors, statistics, timeSeries } =
+    input;
+  const next = generation + 1;
+  const random = createSeededRandom(input.seed + generation);
+  const events: SimulationEvent[] = [];
+  const addEvent = (event: Omit<SimulationEvent, "id" | "tick">) => {
+    events.push({ id: `evo-${next}-${events.length}`, tick: 0, ...event });
+  };
+
+  const { extinctions } = statistics;
+  if (extinctions.length > 0) {
+    addEvent({
+      type: "extinction",
+      title:
+        extinctions.length === 1
+          ? `${extinctions[0]} are gone`
+          : `${extinctions.length} species are gone`,
+      description: `${listNames(extinctions)} died out during generation ${generation} and will not return.`,
+      affectedOrganisms: [],
+      significance: survivors.length === 0 ? "catastrophic" : "major",
+    });
+  }
+
+  if (survivors.length === 0) {
+    return {
+      organisms: [],
+      events,
+      worldChanges: {},
+      narrative: `Nothing survived generation ${generation} in ${world.name}. The world falls silent.`,
+      shouldContinue: false,
+      nextGenerationSuggestions: [],
+    };
+  }
+
+  // Each species keeps its fit members and grows by its reproduction rate,
+  // faster if it thrived during the run and slower if it dwindled
+  const plans = Array.from(groupBySpecies(survivors)).map(
+    ([species, members]) => {
+      const ranked = members
+        .map((org) => ({ org, fitness: getFitness(org) }))
+        .sort((a, b) => b.fitness - a.fitness);
+      const fit = ranked.filter(({ fitness }) => fitness >= MIN_FITNESS);
+      const selected = fit.length > 0 ? fit : ranked.slice(0, 1);
+      const rate = mean(selected.map(({ org }) => org.reproductionRate));
+      const trend = clamp(getTrend(timeSeries, species), 0.5, 1.5);
+      const growth = clamp(rate * GROWTH_PER_RATE * trend, 0, MAX_GROWTH);
+      return {
+        species,
+        ranked,
+        selected,
+        quota: Math.max(1, Math.round(selected.length * (1 + growth))),
+      };
+    },
+  );
+
+  // A crowded world makes every species give up members in proportion
+  const maxPopulation = Math.max(
+    1,
+    Math.floor(
+      (world.carryingCapacity ?? DEFAULT_CARRYING_CAPACITY) * START_CAPACITY_SHARE,
+    ),
+  );
+  const total = plans.reduce((sum, plan) => sum + plan.quota, 0);
+  if (total > maxPopulation) {
+    plans.forEach((plan) => {
+      plan.quota = Math.max(
+        1,
+        Math.floor((plan.quota * maxPopulation) / total),
+      );
+    });
+  }
+
+  const settings = { ...DEFAULT_MUTATION, ...world.mutation };
+  const mutation: MutationSettings = {
+    ...settings,
+    strength: Math.min(1, settings.strength * MUTATION_SCALE),
+  };
+  let nextId = getNextOrganismId([...founders, ...survivors]);
+  const organisms: Organism[] = [];
+  const culled: Organism[] = [];
+
+  plans.forEach(({ species, ranked, selected, quota }) => {
+    const kept = selected.slice(0, quota);
+    ranked
+      .filter((candidate) => !kept.includes(candidate))
+      .forEach(({ org }) => culled.push(org));
+    kept.forEach(({ org }) =>
+      organisms.push({ ...org, energy: Math.max(org.energy, START_ENERGY) }),
+    );
+
+    const offspring: Organism[] = [];
+    for (let i = kept.length; i < quota; i++) {
+      offspring.push(
+        breed(kept, `org-${nextId++}`, next, world, mutation, random),
+      );
+    }
+    organisms.push(...offspring);
+
+    if (offspring.length >= Math.max(BOOM_MIN_OFFSPRING, kept.length)) {
+      addEvent({
+        type: "population_boom",
+        title: `${species} boom`,
+        description: `${species} bred ${offspring.length} young between generations, growing from ${kept.length} to ${quota}.`,
+        affectedOrganisms: offspring
+          .slice(0, MAX_AFFECTED)
+          .map((org) => org.id),
+        significance: "moderate",
+      });
+    }
+  });
+
+  if (culled.length > 0) {
+    const share = culled.length / survivors.length;
+    addEvent({
+      type: "death",
+      title: "Natural selection",
+      description: `${culled.length} of the weakest survivors did not live to see generation ${next}.`,
+      affectedOrganisms: culled.slice(0, MAX_AFFECTED).map((org) => org.id),
+      significance:
+        share >= 0.5 ? "major" : share >= 0.2 ? "moderate" : "minor",
+    });
+  }
+
+  recordCrashes(timeSeries, generation, addEvent);
+
+  // Lineages measured against the species they began the generation as
+  const newSpecies: string[] = [];
+  const tracker = new SpeciationTracker(
+    founders.length > 0 ? founders : survivors,
+  );
+  tracker.check(organisms).forEach((split) => {
+    const organismIds = split.organisms.map((org) => org.id);
+    split.organisms.forEach((org) => {
+      applySpeciation(org, {
+        kind: "speciation",
+        tick: 0,
+        species: split.species,
+        name: split.name,
+        parentSpecies: split.parentSpecies,
+        organismIds,
+      });
+      org.generation = next;
+    });
+    newSpecies.push(split.species);
+    addEvent({
+      type: "speciation",
+      title: `${split.species} branch off`,
+      description: `${organismIds.length} ${split.parentSpecies} have drifted far enough from their kin to form a species of their own.`,
+      affectedOrganisms: organismIds.slice(0, MAX_AFFECTED),
+      significance: "major",
+    });
+  });
+
+  recordDrift(founders, organisms, newSpecies, generation, addEvent);
+
+  const counts = groupBySpecies(organisms);
+  const [leader, members] = Array.from(counts).sort(
+    (a, b) => b[1].length - a[1].length,
+  )[0];
+  if (
+    counts.size > 1 &&
+    organisms.length >= DOMINANCE_MIN_POPULATION &&
+    members.length > organisms.length * DOMINANCE_SHARE
+  ) {
+    addEvent({
+      type: "dominance",
+      title: `${leader} take over`,
+      description: `${leader} make up ${Math.round((members.length / organisms.length) * 100)}% of all life going into generation ${next}.`,
+      affectedOrganisms: [],
+      significance: "moderate",
+    });
+  }
+
+  const worldChanges = driftWorld(world, organisms);
+  if (worldChanges.temperature !== undefined) {
+    const change = worldChanges.temperature - world.temperature;
+    if (Math.abs(change) >= CLIMATE_EVENT_DEGREES) {
+      addEvent({
+        type: "climate_change",
+        title: change > 0 ? "The world warms" : "The world cools",
+        description:
+          change > 0
+            ? `Carbon breathed out by consumers warmed the world by ${change.toFixed(1)}°C to ${worldChanges.temperature}°C.`
+            : `Thriving producers drew down carbon and cooled the world by ${(-change).toFixed(1)}°C to ${worldChanges.temperature}°C.`,
+        affectedOrganisms: [],
+        significance: "minor",
+      });
+    }
+  }
+
+  return {
+    organisms,
+    events,
+    worldChanges,
+    narrative: narrate(world, next, organisms, counts.size, events),
+    shouldContinue: true,
+    nextGenerationSuggestions: suggest(counts, newSpecies, leader, events),
+  };
+}
+
+/**
+ * Bear one offspring of the kept members, the fitter the likelier to be a
+ * parent. Its genome is its parent's, or a crossover with a second parent
+ * when reproduction is sexual, mutated at the given settings.
+ */
+function breed(
+  parents: Candidate[],
+  id: string,
+  generation: number,
+  world: WorldConfig,
+  mutation: MutationSettings,
+  random: RandomSource,
+): Organism {
+  const parent = pickByFitness(parents, random);
+  const mates = parents.filter((candidate) => candidate.org !== parent);
+  const mate =
+    mutation.sexualReproduction &&
+    !ASEXUAL_TYPES.includes(parent.type) &&
+    mates.length > 0
+      ? pickByFitness(mates, random)
+      : undefined;
+
+  const padding = parent.size / 2;
+  const offspring: Organism = {
+    ...parent,
+    id,
+    x: clamp(
+      parent.x + (random() - 0.5) * parent.size * 3,
+      padding,
+      world.width - padding,
+    ),
+    y: clamp(
+      parent.y + (random() - 0.5) * parent.size * 3,
+      padding,
+      world.height - padding,
+    ),
+    energy: START_ENERGY,
+    age: 0,
+    direction: random() * Math.PI * 2,
+    animationPhase: random() * Math.PI * 2,
+    generation,
+    infection: undefined,
+  };
+
+  const parentGenome = parent.genome ?? createGenome(parent);
+  const inherited = mate
+    ? crossover(parentGenome, mate.genome ?? createGenome(mate), random)
+    : parentGenome;
+  expressGenome(
+    offspring,
+    mutate(inherited, mutation, random),
+    mate ? [...parent.traits, ...mate.traits] : parent.traits,
+  );
+  return offspring;
+}
+
+function pickByFitness(candidates: Candidate[], random: RandomSource): Organism {
+  // Even the least fit keep a small chance
+  const weights = candidates.map(({ fitness }) => fitness + 0.05);
+  let roll = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return candidates[i].org;
+  }
+  return candidates[candidates.length - 1].org;
+}
+
+// How a species' numbers changed over the run, 1 when they held steady or
+// it only appeared during the run
+function getTrend(series: TimeSeries | undefined, species: string): number {
+  const samples = series?.samples ?? [];
+  if (samples.length < 2) return 1;
+  const first = samples[0].bySpecies[species] ?? 0;
+  const last = samples[samples.length - 1].bySpecies[species] ?? 0;
+  return first > 0 ? last / first : 1;
+}
+
+function recordCrashes(
+  series: TimeSeries | undefined,
+  generation: number,
+  addEvent: (event: Omit<SimulationEvent, "id" | "tick">) => void,
+) {
+  const samples = series?.samples ?? [];
+  if (samples.length < 2) return;
+  const last = samples[samples.length - 1].bySpecies;
+
+  Object.entries(samples[0].bySpecies).forEach(([species, first]) => {
+    const count = last[species] ?? 0;
+    // Dying out entirely is reported as an extinction instead
+    if (first < CRASH_MIN_START || count === 0) return;
+    if (count > first * (1 - CRASH_SHARE)) return;
+    addEvent({
+      type: "population_crash",
+      title: `${species} dwindle`,
+      description: `${species} fell from ${first} to ${count} over generation ${generation}.`,
+      affectedOrganisms: [],
+      significance: "moderate",
+    });
+  });
+}
+
+// The species whose average body moved furthest since the generation began
+function recordDrift(
+  founders: Organism[],
+  organisms: Organism[],
+  newSpecies: string[],
+  generation: number,
+  addEvent: (event: Omit<SimulationEvent, "id" | "tick">) => void,
+) {
+  const before = groupBySpecies(founders);
+  const drifts: {
+    species: string;
+    gene: DriftGene;
+    change: number;
+    members: Organism[];
+  }[] = [];
+  groupBySpecies(organisms).forEach((members, species) => {
+    const ancestors = before.get(species);
+    if (!ancestors || newSpecies.includes(species)) return;
+
+    let gene: DriftGene = "size";
+    let change = 0;
+    (Object.keys(DRIFT_WORDS) as DriftGene[]).forEach((key) => {
+      const from = mean(ancestors.map((org) => org[key]));
+      const to = mean(members.map((org) => org[key]));
+      const relative = from > 0 ? (to - from) / from : 0;
+      if (Math.abs(relative) > Math.abs(change)) {
+        gene = key;
+        change = relative;
+      }
+    });
+    if (Math.abs(change) >= NOTABLE_DRIFT) {
+      drifts.push({ species, gene, change, members });
+    }
+  });
+
+  drifts
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, MAX_DRIFT_EVENTS)
+    .forEach(({ species, gene, change, members }) => {
+      const [up, down] = DRIFT_WORDS[gene];
+      const word = change > 0 ? up : down;
+      addEvent({
+        type: "mutation",
+        title: `${species} grow ${word}`,
+        description: `Selection and mutation made ${species} ${Math.round(Math.abs(change) * 100)}% ${word} than they were at the start of generation ${generation}.`,
+        affectedOrganisms: members
+          .slice(0, MAX_AFFECTED)
+          .map((org) => org.id),
+        significance: "minor",
+      });
+    });
+}
+
+/**
+ * Producers turn carbon into oxygen and consumers the other way round,
+ * carbon warms the world and humidity follows its water. Only the fields
+ * that changed are returned.
+ */
+function driftWorld(
+  world: WorldConfig,
+  organisms: Organism[],
+): Partial<WorldConfig> {
+  const changes: Partial<WorldConfig> = {};
+  const producers = organisms.filter(isProducer).length / organisms.length;
+  const exchange = Math.round((producers - PRODUCER_BALANCE) * EXCHANGE_SCALE);
+  const oxygen = clamp(world.compounds.oxygen + exchange, 0, 100);
+  const carbon = clamp(world.compounds.carbon - exchange, 0, 100);
+  if (
+    oxygen !== world.compounds.oxygen ||
+    carbon !== world.compounds.carbon
+  ) {
+    changes.compounds = { ...world.compounds, oxygen, carbon };
+  }
+
+  const temperature =
+    Math.round(
+      clamp(
+        world.temperature +
+          (carbon - world.compounds.carbon) * WARMING_PER_CARBON,
+        -50,
+        100,
+      ) * 10,
+    ) / 10;
+  if (temperature !== world.temperature) changes.temperature = temperature;
+
+  const humidity = Math.round(
+    clamp(
+      world.humidity +
+        (world.compounds.water - world.humidity) * HUMIDITY_PULL,
+      0,
+      100,
+    ),
+  );
+  if (humidity !== world.humidity) changes.humidity = humidity;
+  return changes;
+}
+
+// A headcount followed by the most significant events, at most three
+function narrate(
+  world: WorldConfig,
+  generation: number,
+  organisms: Organism[],
+  speciesCount: number,
+  events: SimulationEvent[],
+): string {
+  const highlights = [...events]
+    .sort(
+      (a, b) =>
+        SIGNIFICANCE_RANK[b.significance] - SIGNIFICANCE_RANK[a.significance],
+    )
+    .slice(0, 3)
+    .map((event) => event.description);
+  return [
+    `Generation ${generation} of ${world.name} begins with ${organisms.length} organisms of ${speciesCount} species.`,
+    ...(highlights.length > 0
+      ? highlights
+      : ["Nothing much changed; the survivors simply carried on."]),
+  ].join(" ");
+}
+
+function suggest(
+  counts: Map<string, Organism[]>,
+  newSpecies: string[],
+  leader: string,
+  events: SimulationEvent[],
+): string[] {
+  const suggestions = [
+    events.some((event) => event.type === "dominance")
+      ? `Can anything check the rise of ${leader}?`
+      : `Will ${leader} stay the most numerous species?`,
+  ];
+  if (newSpecies.length > 0) {
+    suggestions.push(`Will ${newSpecies[0]} find a niche of their own?`);
+  }
+  const [rarest, members] = Array.from(counts).sort(
+    (a, b) => a[1].length - b[1].length,
+  )[0];
+  if (rarest !== leader && members.length <= 2) {
+    suggestions.push(
+      `${rarest} are down to ${members.length}; one bad run could end them.`,
+    );
+  }
+  return suggestions;
+}
+
+// "A", "A and B", "A, B and C"
+function listNames(names: string[]): string {
+  if (names.length < 2) return names.join("");
+  return `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}`;
+}
+
+// Offspring ids must not collide with anyone from the generation, as in the engine
+function getNextOrganismId(organisms: Organism[]): number {
+  let nextId = 1;
+  organisms.forEach((org) => {
+    const numbered = /^org-(\d+)$/.exec(org.id);
+    if (numbered) nextId = Math.max(nextId, Number(numbered[1]) + 1);
+  });
+  return nextId;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
@@ -0,0 +1,95 @@
+import {
+  FoodWeb,
+  FoodWebConsumer,
+  FoodWebEntry,
+  FoodWebOverrides,
+  FoodWebTarget,
+  Organism,
+} from "@/types";
+
+/**
+ * Default food web. Rows are consumers, columns what they can feed on.
+ * Energy values are per successful contact.
+ */
+export const DEFAULT_FOOD_WEB: FoodWeb = {
+  carnivore: {
+    herbivore: { mode: "predation", energyGain: 25, energyLoss: 60, successChance: 0.8 },
+    omnivore: { mode: "predation", energyGain: 25, energyLoss: 60, successChance: 0.6 },
+    carnivore: { mode: "predation", energyGain: 20, energyLoss: 50, successChance: 0.3 },
+  },
+  omnivore: {
+    plant: { mode: "grazing", energyGain: 12, energyLoss: 20, successChance: 1 },
+    herbivore: { mode: "predation", energyGain: 20, energyLoss: 50, successChance: 0.5 },
+    decomposer: { mode: "predation", energyGain: 10, energyLoss: 30, successChance: 0.6 },
+    corpse: { mode: "scavenging", energyGain: 10, energyLoss: 20, successChance: 1 },
+  },
+  herbivore: {
+    plant: { mode: "grazing", energyGain: 15, energyLoss: 25, successChance: 1 },
+  },
+  decomposer: {
+    corpse: { mode: "scavenging", energyGain: 12, energyLoss: 20, successChance: 1 },
+  },
+  microbe: {
+    herbivore: { mode: "infection", energyGain: 3, energyLoss: 3, successChance: 0.15 },
+    omnivore: { mode: "infection", energyGain: 3, energyLoss: 3, successChance: 0.15 },
+    carnivore: { mode: "infection", energyGain: 3, energyLoss: 3, successChance: 0.1 },
+    plant: { mode: "parasitism", energyGain: 1, energyLoss: 2, successChance: 0.3 },
+    corpse: { mode: "scavenging", energyGain: 4, energyLoss: 6, successChance: 1 },
+  },
+  photosynthesis: {},
+};
+
+/**
+ * Apply a world's overrides on top of the default food web. Partial entries
+ * are merged into the default pairing, null removes it, and brand-new
+ * pairings must at least name their mode.
+ */
+export function resolveFoodWeb(overrides?: FoodWebOverrides): FoodWeb {
+  const web: FoodWeb = {};
+  (Object.keys(DEFAULT_FOOD_WEB) as FoodWebConsumer[]).forEach((consumer) => {
+    web[consumer] = { ...DEFAULT_FOOD_WEB[consumer] };
+  });
+  if (!overrides) return web;
+
+  (Object.keys(overrides) as FoodWebConsumer[]).forEach((consumer) => {
+    const row = { ...web[consumer] };
+    const rowOverrides = overrides[consumer] || {};
+
+    (Object.keys(rowOverrides) as FoodWebTarget[]).forEach((target) => {
+      const override = rowOverrides[target];
+      if (override === null) {
+        delete row[target];
+        return;
+      }
+      const merged = { ...row[target], ...override };
+      if (merged.mode) {
+        row[target] = {
+          energyGain: 0,
+          energyLoss: 0,
+          successChance: 1,
+          ...merged,
+        } as FoodWebEntry;
+      }
+    });
+
+    web[consumer] = row;
+  });
+
+  return web;
+}
+
+/**
+ * Look up how `consumer` feeds on `target`. The diet row takes precedence
+ * over the organism type row, so an omnivorous "herbivore" can hunt.
+ */
+export function getFoodWebEntry(
+  web: FoodWeb,
+  consumer: Organism,
+  target: FoodWebTarget,
+): FoodWebEntry | null {
+  if (consumer.diet) {
+    const dietEntry = web[consumer.diet]?.[target];
+    if (dietEntry) return dietEntry;
+  }
+  return web[consumer.type]?.[target] ?? null;
+}
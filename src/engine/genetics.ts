@@ -0,0 +1,165 @@
+import {
+  BehaviorWeights,
+  Genome,
+  MutationSettings,
+  Organism,
+  Trait,
+} from "@/types";
+import { clamp, hexToRgb, RandomSource, rgbToHex } from "@/utils";
+
+export const DEFAULT_MUTATION: MutationSettings = {
+  rate: 0.25,
+  strength: 0.1,
+  sexualReproduction: false,
+};
+
+export const NEUTRAL_WEIGHTS: BehaviorWeights = {
+  pursuit: 1,
+  cohesion: 1,
+  avoidance: 1,
+  wander: 1,
+};
+
+const WEIGHT_KEYS = Object.keys(NEUTRAL_WEIGHTS) as (keyof BehaviorWeights)[];
+
+// Bounds that keep mutated genes within what the simulation can live with
+const GENE_LIMITS = {
+  size: [2, 80],
+  speed: [0, 10],
+  maxAge: [50, 5000],
+  reproductionRate: [0, 1],
+  trait: [0, 100],
+  weight: [0, 3],
+} as const;
+
+// Largest shift of a trait value or color channel at full strength
+const TRAIT_SHIFT = 50;
+const COLOR_SHIFT = 64;
+
+// The genome an organism would have, for organisms created without one
+export function createGenome(org: Organism): Genome {
+  const traits: Record<string, number> = {};
+  org.traits.forEach((trait) => {
+    traits[trait.name] = trait.value;
+  });
+  return {
+    size: org.size,
+    speed: org.speed,
+    color: org.color,
+    secondaryColor: org.secondaryColor,
+    traits,
+    maxAge: org.maxAge,
+    reproductionRate: org.reproductionRate,
+    behaviorWeights: { ...NEUTRAL_WEIGHTS },
+  };
+}
+
+/**
+ * Uniform crossover: every gene comes from one parent or the other. Traits
+ * carried by only one parent are inherited half the time.
+ */
+export function crossover(a: Genome, b: Genome, random: RandomSource): Genome {
+  const pick = <T>(x: T, y: T): T => (random() < 0.5 ? x : y);
+
+  const traits: Record<string, number> = {};
+  const names = new Set([...Object.keys(a.traits), ...Object.keys(b.traits)]);
+  names.forEach((name) => {
+    const fromA = a.traits[name];
+    const fromB = b.traits[name];
+    const value = pick(fromA, fromB);
+    if (value !== undefined) traits[name] = value;
+  });
+
+  const weights = {} as BehaviorWeights;
+  WEIGHT_KEYS.forEach((key) => {
+    weights[key] = pick(a.behaviorWeights[key], b.behaviorWeights[key]);
+  });
+
+  return {
+    size: pick(a.size, b.size),
+    speed: pick(a.speed, b.speed),
+    color: pick(a.color, b.color),
+    secondaryColor: pick(a.secondaryColor, b.secondaryColor),
+    traits,
+    maxAge: pick(a.maxAge, b.maxAge),
+    reproductionRate: pick(a.reproductionRate, b.reproductionRate),
+    behaviorWeights: weights,
+  };
+}
+
+/**
+ * Copy a genome with each gene mutating at `settings.rate`. Numeric genes
+ * shift by up to `settings.strength` of their value, traits and colors by
+ * a fixed range scaled by the strength.
+ */
+export function mutate(
+  genome: Genome,
+  settings: MutationSettings,
+  random: RandomSource,
+): Genome {
+  const { rate, strength } = settings;
+  const shift = () => (random() < rate ? (random() * 2 - 1) * strength : 0);
+  const scaled = (value: number, [min, max]: readonly [number, number]) =>
+    clamp(value * (1 + shift()), min, max);
+
+  const traits: Record<string, number> = {};
+  Object.entries(genome.traits).forEach(([name, value]) => {
+    const [min, max] = GENE_LIMITS.trait;
+    traits[name] = Math.round(clamp(value + shift() * TRAIT_SHIFT, min, max));
+  });
+
+  const weights = {} as BehaviorWeights;
+  WEIGHT_KEYS.forEach((key) => {
+    weights[key] = scaled(
+      genome.behaviorWeights[key] ?? NEUTRAL_WEIGHTS[key],
+      GENE_LIMITS.weight,
+    );
+  });
+
+  return {
+    size: scaled(genome.size, GENE_LIMITS.size),
+    speed: scaled(genome.speed, GENE_LIMITS.speed),
+    color: mutateColor(genome.color, shift),
+    secondaryColor: genome.secondaryColor
+      ? mutateColor(genome.secondaryColor, shift)
+      : undefined,
+    traits,
+    maxAge: Math.round(scaled(genome.maxAge, GENE_LIMITS.maxAge)),
+    reproductionRate: scaled(
+      genome.reproductionRate,
+      GENE_LIMITS.reproductionRate,
+    ),
+    behaviorWeights: weights,
+  };
+}
+
+/**
+ * Give an organism the body its genome describes. Trait descriptions and
+ * categories come from `templates`, the parents' traits.
+ */
+export function expressGenome(
+  org: Organism,
+  genome: Genome,
+  templates: Trait[],
+) {
+  org.genome = genome;
+  org.size = genome.size;
+  org.speed = genome.speed;
+  org.color = genome.color;
+  org.secondaryColor = genome.secondaryColor;
+  org.maxAge = genome.maxAge;
+  org.reproductionRate = genome.reproductionRate;
+  org.traits = Object.entries(genome.traits).map(([name, value]) => {
+    const template = templates.find((trait) => trait.name === name);
+    return { description: "", ...template, name, value };
+  });
+}
+
+// Colors that are not hex strings are passed on unchanged
+function mutateColor(color: string, shift: () => number): string {
+  const rgb = hexToRgb(color);
+  if (!rgb) return color;
+  const channel = (value: number) =>
+    Math.round(clamp(value + shift() * COLOR_SHIFT, 0, 255));
+  return rgbToHex(channel(rgb.r), channel(rgb.g), channel(rgb.b));
+}
@@ -0,0 +1,70 @@
+export { SimulationEngine, DEFAULT_CARRYING_CAPACITY } from './SimulationEngine';
+export type {
+  SimulationEngineOptions,
+  InteractionRecord,
+  TickResult,
+  Corpse
+} from './SimulationEngine';
+export {
+  getTraitCategory,
+  getTraitModifiers,
+  describeTraitEffect,
+  NEUTRAL_MODIFIERS
+} from './traitEffects';
+export type { TraitModifiers } from './traitEffects';
+export {
+  getEnvironmentFactors,
+  getActivityMultiplier,
+  getEnergyBudget,
+  isEndotherm,
+  isProducer
+} from './metabolism';
+export type { EnvironmentFactors, EnergyBudget } from './metabolism';
+export { DEFAULT_FOOD_WEB, resolveFoodWeb, getFoodWebEntry } from './foodWeb';
+export { NutrientField, applyCompoundFlux, EMPTY_FLUX } from './nutrients';
+export type { CompoundFlux } from './nutrients';
+export { SpatialGrid } from './spatialGrid';
+export {
+  SNAPSHOT_FIELDS,
+  SNAPSHOT_STRIDE,
+  packSnapshot,
+  unpackSnapshot,
+  applyOrganismDiff
+} from './protocol';
+export type {
+  WorkerRequest,
+  WorkerResponse,
+  TickSnapshot,
+  CompleteMessage,
+  OrganismDiff,
+  OrganismUpdate,
+  SnapshotCursor
+} from './protocol';
+export { TimeSeriesRecorder, DEFAULT_SAMPLE_INTERVAL } from './timeSeries';
+export { Census, DEATH_CAUSES, shannonIndex, simpsonIndex } from './census';
+export { Chronicle } from './chronicle';
+export {
+  DEFAULT_MUTATION,
+  NEUTRAL_WEIGHTS,
+  createGenome,
+  crossover,
+  mutate,
+  expressGenome
+} from './genetics';
+export {
+  SpeciationTracker,
+  SPECIATION_THRESHOLD,
+  SPECIATION_INTERVAL,
+  geneticDistance,
+  meanGenome,
+  applySpeciation
+} from './speciation';
+export type { Speciation } from './speciation';
+export { evolveByRules, getFitness } from './evolution';
+export type { RuleEvolutionInput } from './evolution';
+export {
+  recordLineage,
+  markExtinct,
+  buildLineage,
+  getLineageOrder
+} from './lineage';
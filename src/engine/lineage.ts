@@ -0,0 +1,156 @@
+import { GenerationRecord, Lineage, LineageNode, Organism } from "@/types";
+
+/**
+ * Add every species in `organisms` that the lineage has not seen yet. A new
+ * species' parent is the most recent ancestor that names a known species,
+ * either by species or by one of its members' common names. Species seen
+ * alive again lose their extinction mark.
+ */
+export function recordLineage(
+  lineage: Lineage,
+  organisms: Organism[],
+  generation: number,
+): Lineage {
+  const next: Lineage = { ...lineage };
+  const byName = new Map<string, string>();
+  Object.values(next).forEach((node) => {
+    node.names.forEach((name) => byName.set(name, node.species));
+  });
+
+  organisms.forEach((org) => {
+    const known = next[org.species];
+    if (known) {
+      if (
+        known.extinctGeneration !== undefined ||
+        !known.names.includes(org.name)
+      ) {
+        next[org.species] = {
+          ...known,
+          extinctGeneration: undefined,
+          names: known.names.includes(org.name)
+            ? known.names
+            : [...known.names, org.name],
+        };
+      }
+      byName.set(org.name, org.species);
+      return;
+    }
+
+    next[org.species] = {
+      species: org.species,
+      parent: findParent(org, next, byName),
+      type: org.type,
+      color: org.color,
+      originGeneration: generation,
+      names: [org.name],
+      specimen: toSpecimen(org),
+    };
+    byName.set(org.name, org.species);
+  });
+
+  return next;
+}
+
+// Species that died out by the end of `generation`
+export function markExtinct(
+  lineage: Lineage,
+  species: string[],
+  generation: number,
+): Lineage {
+  const next: Lineage = { ...lineage };
+  species.forEach((name) => {
+    const node = next[name];
+    if (node && node.extinctGeneration === undefined) {
+      next[name] = { ...node, extinctGeneration: generation };
+    }
+  });
+  return next;
+}
+
+/**
+ * The lineage a world's history adds up to. Species die out when a run's
+ * statistics say so, or when evolving into the next generation left them
+ * out.
+ */
+export function buildLineage(history: GenerationRecord[]): Lineage {
+  let lineage: Lineage = {};
+  history.forEach((record, i) => {
+    const { generation } = record;
+    if (record.organisms) {
+      lineage = recordLineage(lineage, record.organisms, generation);
+    }
+    if (record.survivors) {
+      lineage = recordLineage(lineage, record.survivors, generation);
+    }
+    if (record.stats) {
+      lineage = markExtinct(lineage, record.stats.extinctions, generation);
+    }
+
+    const next = history[i + 1]?.organisms;
+    const last = record.survivors ?? record.organisms;
+    if (next && last) {
+      const carried = new Set(next.map((org) => org.species));
+      const lost = last
+        .map((org) => org.species)
+        .filter((species) => !carried.has(species));
+      lineage = markExtinct(lineage, lost, generation);
+    }
+  });
+  return lineage;
+}
+
+// Root species first, each followed by its descendants
+export function getLineageOrder(lineage: Lineage): LineageNode[] {
+  const children = new Map<string | undefined, LineageNode[]>();
+  Object.values(lineage).forEach((node) => {
+    // Parents that never made it into the lineage are treated as roots
+    const parent =
+      node.parent && lineage[node.parent] ? node.parent : undefined;
+    children.set(parent, [...(children.get(parent) ?? []), node]);
+  });
+
+  const order: LineageNode[] = [];
+  const visit = (parent: string | undefined) => {
+    (children.get(parent) ?? [])
+      .sort(
+        (a, b) =>
+          a.originGeneration - b.originGeneration ||
+          a.species.localeCompare(b.species),
+      )
+      .forEach((node) => {
+        order.push(node);
+        visit(node.species);
+      });
+  };
+  visit(undefined);
+  return order;
+}
+
+function findParent(
+  org: Organism,
+  lineage: Lineage,
+  byName: Map<string, string>,
+): string | undefined {
+  const ancestry = org.ancestry ?? [];
+  for (let i = ancestry.length - 1; i >= 0; i--) {
+    const ancestor = ancestry[i];
+    if (ancestor === org.species) continue;
+    if (lineage[ancestor]) return ancestor;
+    const species = byName.get(ancestor);
+    if (species && species !== org.species) return species;
+  }
+  return undefined;
+}
+
+// Runtime state is left behind so specimens stay small
+function toSpecimen(org: Organism): Organism {
+  const {
+    direction: _direction,
+    targetX: _targetX,
+    targetY: _targetY,
+    animationPhase: _animationPhase,
+    infection: _infection,
+    ...specimen
+  } = org;
+  return specimen;
+}
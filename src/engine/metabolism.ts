@@ -0,0 +1,145 @@
+import { BiomeType, Organism, WorldConfig } from "@/types";
+import { clamp } from "@/utils";
+import { TraitModifiers } from "./traitEffects";
+
+// Passive energy cost per tick for an organism in ideal conditions
+const BASE_DRAIN = 0.03;
+// Energy a producer gains per tick in ideal conditions
+const BASE_PHOTOSYNTHESIS = 0.08;
+
+// Comfortable temperature band (Celsius) where nothing is slowed down
+const COMFORT_MIN = 15;
+const COMFORT_MAX = 35;
+
+// Earth-like oxygen level, activity scales relative to this
+const REFERENCE_OXYGEN = 21;
+
+// How much sunlight reaches the ground in each biome
+const BIOME_LIGHT: Record<BiomeType, number> = {
+  ocean: 0.7,
+  forest: 0.85,
+  desert: 1.2,
+  tundra: 0.7,
+  swamp: 0.8,
+  volcanic: 0.6,
+  grassland: 1.1,
+  cave: 0.15,
+  alien: 1.0,
+};
+
+// Trait keywords that mark an organism as warm-blooded
+const ENDOTHERM_KEYWORDS = ["warm", "fur", "feather", "insulat", "blubber", "endotherm"];
+
+/**
+ * How a world's climate and compounds shape every organism's energy budget.
+ * All values are multipliers where 1 means Earth-like, comfortable conditions.
+ */
+export interface EnvironmentFactors {
+  light: number; // Sunlight available to producers
+  photosynthesis: number; // Producer energy gain from light, carbon and water
+  coldActivity: number; // Activity of cold-blooded organisms (slows when cold or very hot)
+  thermalCost: number; // Extra drain for warm-blooded organisms holding their body temperature
+  oxygenActivity: number; // Activity limit for aerobic organisms
+  stress: number; // Extra drain from heat and dryness
+}
+
+export function getEnvironmentFactors(world: WorldConfig): EnvironmentFactors {
+  const { temperature, humidity, compounds } = world;
+  const light = BIOME_LIGHT[world.biome] ?? 1;
+
+  // Carbon saturates quickly: Earth's 0.04% already gives most of the benefit
+  const carbon = Math.max(compounds?.carbon ?? 0, 0);
+  const carbonFactor = 0.4 + (0.6 * carbon) / (carbon + 0.02);
+
+  // Plants need water from the ground or the air
+  const moisture = Math.max(compounds?.water ?? 0, humidity ?? 0);
+  const waterFactor = 0.3 + 0.7 * clamp(moisture / 50, 0, 1);
+
+  // Degrees outside the comfortable band
+  const cold = Math.max(0, COMFORT_MIN - temperature);
+  const heat = Math.max(0, temperature - COMFORT_MAX);
+
+  const coldActivity = clamp(1 - cold / 45 - heat / 80, 0.25, 1);
+  const thermalCost = 1 + cold / 40;
+
+  const oxygenActivity = clamp(
+    (compounds?.oxygen ?? REFERENCE_OXYGEN) / REFERENCE_OXYGEN,
+    0.3,
+    1.25,
+  );
+
+  const dryness = Math.max(0, 25 - (humidity ?? 50)) / 50;
+  const stress = 1 + heat / 60 + dryness;
+
+  return {
+    light,
+    photosynthesis: light * carbonFactor * waterFactor * coldActivity,
+    coldActivity,
+    thermalCost,
+    oxygenActivity,
+    stress,
+  };
+}
+
+export function isProducer(org: Organism): boolean {
+  return org.type === "plant" || org.diet === "photosynthesis";
+}
+
+export function isEndotherm(org: Organism): boolean {
+  if (org.type === "plant" || org.type === "microbe" || org.type === "decomposer") {
+    return false;
+  }
+  const text = (org.traits || [])
+    .map((trait) => `${trait.name} ${trait.description}`)
+    .join(" ")
+    .toLowerCase();
+  return ENDOTHERM_KEYWORDS.some((kw) => text.includes(kw));
+}
+
+// Breathes oxygen, so low oxygen limits how hard it can work
+function isAerobic(org: Organism): boolean {
+  return org.type !== "plant" && org.type !== "microbe";
+}
+
+/**
+ * Multiplier on how fast an organism can move in this environment.
+ * Cold-blooded organisms slow down in the cold, and everything that breathes
+ * is limited by the oxygen available.
+ */
+export function getActivityMultiplier(
+  org: Organism,
+  env: EnvironmentFactors,
+  endotherm: boolean,
+): number {
+  const thermal = endotherm ? 1 : env.coldActivity;
+  const oxygen = isAerobic(org) ? env.oxygenActivity : 1;
+  return clamp(thermal * oxygen, 0.2, 1.25);
+}
+
+// Energy gained and spent over one tick, before any eating
+export interface EnergyBudget {
+  gain: number; // Photosynthesis, producers only
+  drain: number; // Respiration and thermal upkeep
+}
+
+/**
+ * Energy budget for one tick. `nutrition` (0-1) is how much of its soil
+ * nutrient need a producer met this tick; starved soil halves growth.
+ */
+export function getEnergyBudget(
+  org: Organism,
+  env: EnvironmentFactors,
+  modifiers: TraitModifiers,
+  endotherm: boolean,
+  nutrition: number = 1,
+): EnergyBudget {
+  let drain = BASE_DRAIN * modifiers.metabolism * env.stress;
+  if (endotherm) {
+    drain *= env.thermalCost;
+  }
+
+  const gain = isProducer(org)
+    ? BASE_PHOTOSYNTHESIS * env.photosynthesis * (0.5 + 0.5 * clamp(nutrition, 0, 1))
+    : 0;
+  return { gain, drain };
+}
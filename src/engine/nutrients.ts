@@ -0,0 +1,107 @@
+import { Compounds } from "@/types";
+import { clamp } from "@/utils";
+
+// Side length of a nutrient cell in world units
+const DEFAULT_CELL_SIZE = 50;
+
+/**
+ * Soil nutrients laid out on a coarse grid over the world. Decay deposits
+ * into the cell under a corpse and producers draw from the cell they stand
+ * on, so nutrients stay where life actually died.
+ */
+export class NutrientField {
+  readonly cellSize: number;
+  readonly cols: number;
+  readonly rows: number;
+  private cells: number[];
+
+  constructor(
+    width: number,
+    height: number,
+    initialLevel: number,
+    cellSize: number = DEFAULT_CELL_SIZE,
+  ) {
+    this.cellSize = cellSize;
+    this.cols = Math.max(1, Math.ceil(width / cellSize));
+    this.rows = Math.max(1, Math.ceil(height / cellSize));
+    this.cells = new Array(this.cols * this.rows).fill(initialLevel);
+  }
+
+  private indexAt(x: number, y: number): number {
+    const col = clamp(Math.floor(x / this.cellSize), 0, this.cols - 1);
+    const row = clamp(Math.floor(y / this.cellSize), 0, this.rows - 1);
+    return row * this.cols + col;
+  }
+
+  public get(x: number, y: number): number {
+    return this.cells[this.indexAt(x, y)];
+  }
+
+  public deposit(x: number, y: number, amount: number) {
+    this.cells[this.indexAt(x, y)] += amount;
+  }
+
+  // Remove up to `amount` from the cell at (x, y) and return what was taken
+  public take(x: number, y: number, amount: number): number {
+    const index = this.indexAt(x, y);
+    const taken = Math.min(amount, this.cells[index]);
+    this.cells[index] -= taken;
+    return taken;
+  }
+
+  public total(): number {
+    return this.cells.reduce((sum, value) => sum + value, 0);
+  }
+
+  public getCells(): number[] {
+    return [...this.cells];
+  }
+}
+
+// Matter moved between the living world and its atmosphere and soil
+export interface CompoundFlux {
+  photosynthesis: number; // Energy fixed by producers
+  respiration: number; // Energy burned by everything alive
+  decay: number; // Energy returned to the soil by rotting and digestion
+  uptake: number; // Nutrients drawn from the soil by producers
+}
+
+export const EMPTY_FLUX: CompoundFlux = {
+  photosynthesis: 0,
+  respiration: 0,
+  decay: 0,
+  uptake: 0,
+};
+
+// How far one unit of flux moves each compound, in percentage points
+const FLUX_SCALE = {
+  oxygen: 0.002,
+  carbon: 0.00001,
+  water: 0.0005,
+  soil: 0.001, // Nitrogen and minerals
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Apply accumulated flux to a world's compounds. Photosynthesis trades carbon
+ * and water for oxygen, respiration does the reverse, and decay returns the
+ * nitrogen and minerals producers took out of the soil.
+ */
+export function applyCompoundFlux(
+  compounds: Compounds,
+  flux: CompoundFlux,
+): Compounds {
+  const net = flux.photosynthesis - flux.respiration;
+  const soil = flux.decay - flux.uptake;
+  const next = { ...compounds };
+
+  next.oxygen = round(clamp(compounds.oxygen + net * FLUX_SCALE.oxygen, 0, 100));
+  next.carbon = round(
+    clamp(compounds.carbon + (flux.decay - net) * FLUX_SCALE.carbon, 0, 100),
+  );
+  next.water = round(clamp(compounds.water - net * FLUX_SCALE.water, 0, 100));
+  next.nitrogen = round(clamp(compounds.nitrogen + soil * FLUX_SCALE.soil, 0, 100));
+  next.minerals = round(clamp(compounds.minerals + soil * FLUX_SCALE.soil, 0, 100));
+  return next;
+}
@@ -0,0 +1,166 @@
+import {
+  Compounds,
+  LifeEvent,
+  Organism,
+  SimulationEvent,
+  SimulationSpeed,
+  SimulationState,
+  SimulationStats,
+  TimeSeriesSample,
+  WorldConfig,
+} from "@/types";
+import {
+  Corpse,
+  InteractionRecord,
+  SimulationEngine,
+} from "./SimulationEngine";
+
+/**
+ * Messages between the main thread and the simulation worker. Each tick the
+ * worker sends a compact snapshot: living organisms are packed into a flat
+ * Float32Array in roster order, and full organism objects only travel when
+ * they are born.
+ */
+
+// Values packed per organism in a snapshot's `state` array
+export const SNAPSHOT_FIELDS = ["x", "y", "direction", "energy", "age", "animationPhase"] as const;
+export const SNAPSHOT_STRIDE = SNAPSHOT_FIELDS.length;
+
+export type WorkerRequest =
+  | {
+      type: "init";
+      world: WorldConfig;
+      organisms: Organism[];
+      maxTicks: number;
+      seed?: number;
+      generation: number;
+      tickInterval: number; // Milliseconds between ticks
+    }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "speed"; speed: SimulationSpeed }
+  | { type: "skip" } // Run to the end without sending intermediate snapshots
+  | { type: "stop" }; // End the run early, the ecosystem keeps living
+
+export interface TickSnapshot {
+  type: "snapshot";
+  tick: number;
+  time: number;
+  state: Float32Array;
+  ids?: string[]; // Roster order, only sent when births or deaths changed it
+  births: Organism[]; // Alive now but not in the previous snapshot
+  deaths: string[]; // In the previous snapshot but gone now
+  interactions: InteractionRecord[];
+  lifeEvents: LifeEvent[]; // Births, deaths and extinctions since the previous snapshot
+  events: SimulationEvent[]; // Notable events since the previous snapshot
+  corpses: Corpse[];
+  compounds: Compounds;
+  stats: SimulationStats;
+  samples: TimeSeriesSample[]; // Time series samples taken since the previous snapshot
+}
+
+export interface CompleteMessage {
+  type: "complete";
+  state: SimulationState;
+}
+
+export type WorkerResponse =
+  | { type: "ready"; organisms: Organism[]; sampleInterval: number } // Roster after the engine normalised it
+  | TickSnapshot
+  | CompleteMessage;
+
+// What the main thread has already been sent
+export interface SnapshotCursor {
+  ids: Set<string>;
+  samples: number;
+}
+
+/**
+ * Pack the engine's current state against what the main thread last saw.
+ * Births and deaths are worked out from the cursor's roster, so a snapshot
+ * can cover any number of ticks. The cursor is moved past this snapshot.
+ */
+export function packSnapshot(
+  engine: SimulationEngine,
+  cursor: SnapshotCursor,
+  interactions: InteractionRecord[],
+): TickSnapshot {
+  const known = cursor.ids;
+  const organisms = engine.getOrganisms();
+  const state = new Float32Array(organisms.length * SNAPSHOT_STRIDE);
+  organisms.forEach((org, i) => {
+    SNAPSHOT_FIELDS.forEach((field, f) => {
+      state[i * SNAPSHOT_STRIDE + f] = org[field] ?? 0;
+    });
+  });
+
+  const alive = new Set(organisms.map((org) => org.id));
+  const births = organisms.filter((org) => !known.has(org.id));
+  const deaths = Array.from(known).filter((id) => !alive.has(id));
+  deaths.forEach((id) => known.delete(id));
+  births.forEach((org) => known.add(org.id));
+
+  const samples = engine.getRecorder().getSamplesSince(cursor.samples);
+  cursor.samples += samples.length;
+
+  const rosterChanged = births.length > 0 || deaths.length > 0;
+  return {
+    type: "snapshot",
+    tick: engine.tick,
+    time: engine.time,
+    state,
+    ids: rosterChanged ? organisms.map((org) => org.id) : undefined,
+    births,
+    deaths,
+    interactions,
+    lifeEvents: engine.drainLifeEvents(),
+    events: engine.drainEvents(),
+    corpses: engine.getCorpses(),
+    compounds: engine.getWorld().compounds,
+    stats: engine.getStats(),
+    samples,
+  };
+}
+
+// Write a snapshot's packed values back onto the organisms in roster order
+export function unpackSnapshot(state: Float32Array, roster: Organism[]) {
+  roster.forEach((org, i) => {
+    SNAPSHOT_FIELDS.forEach((field, f) => {
+      org[field] = state[i * SNAPSHOT_STRIDE + f];
+    });
+  });
+}
+
+/**
+ * What changed in the population since the last update, so React can patch
+ * its list instead of receiving every organism every tick. `updated` only
+ * lists organisms whose displayed energy or species changed.
+ */
+export interface OrganismDiff {
+  added: Organism[];
+  removed: string[];
+  updated: OrganismUpdate[];
+}
+
+// Species fields are only sent after a speciation moved the organism
+export type OrganismUpdate = Pick<Organism, "id" | "energy" | "age"> &
+  Partial<Pick<Organism, "species" | "name" | "ancestry">>;
+
+export function applyOrganismDiff(
+  organisms: Organism[],
+  diff: OrganismDiff,
+): Organism[] {
+  if (!diff.added.length && !diff.removed.length && !diff.updated.length) {
+    return organisms;
+  }
+  const removed = new Set(diff.removed);
+  const updates = new Map(diff.updated.map((update) => [update.id, update]));
+
+  return organisms
+    .filter((org) => !removed.has(org.id))
+    .map((org) => {
+      const update = updates.get(org.id);
+      return update ? { ...org, ...update } : org;
+    })
+    .concat(diff.added);
+}
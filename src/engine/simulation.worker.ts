@@ -0,0 +1,123 @@
+import { SimulationSpeed } from "@/types";
+import { SimulationEngine } from "./SimulationEngine";
+import {
+  packSnapshot,
+  SnapshotCursor,
+  WorkerRequest,
+  WorkerResponse,
+} from "./protocol";
+
+/**
+ * Runs the ecology off the main thread. The worker owns the engine and its
+ * tick loop; the main thread only draws the snapshots it posts back. After
+ * the run completes the loop keeps going so the aquarium stays alive.
+ *
+ * Below 1× the loop slows down, above 1× it steps several ticks per
+ * snapshot. Either way the engine sees the same sequence of steps, so the
+ * speed never changes the outcome.
+ */
+
+let engine: SimulationEngine | null = null;
+let timer: ReturnType<typeof setInterval> | null = null;
+let tickInterval = 50;
+let speed: SimulationSpeed = 1;
+let finished = false;
+// What the main thread knows about, snapshots report changes against it
+const cursor: SnapshotCursor = { ids: new Set(), samples: 0 };
+
+function post(message: WorkerResponse) {
+  if (message.type === "snapshot") {
+    self.postMessage(message, { transfer: [message.state.buffer] });
+  } else {
+    self.postMessage(message);
+  }
+}
+
+function finish() {
+  if (!engine || finished) return;
+  finished = true;
+  post({ type: "complete", state: engine.getState() });
+}
+
+function tick() {
+  if (!engine) return;
+
+  const steps = Math.max(1, Math.floor(speed));
+  let result = engine.step();
+  // Stop a batch exactly at the end of the run so its final state is reported
+  for (let i = 1; i < steps && !(result.completed && !finished); i++) {
+    result = engine.step();
+  }
+
+  // Only the last tick's interactions are drawn, older ones are already over
+  post(packSnapshot(engine, cursor, result.interactions));
+  if (result.completed) finish();
+}
+
+function skipToEnd() {
+  if (!engine || finished) return;
+  engine.run();
+  post(packSnapshot(engine, cursor, []));
+  finish();
+}
+
+function startLoop() {
+  if (timer === null) {
+    timer = setInterval(tick, tickInterval / Math.min(speed, 1));
+  }
+}
+
+function stopLoop() {
+  if (timer !== null) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "init": {
+      stopLoop();
+      engine = new SimulationEngine({
+        world: request.world,
+        organisms: request.organisms,
+        maxTicks: request.maxTicks,
+        seed: request.seed,
+        generation: request.generation,
+      });
+      tickInterval = request.tickInterval;
+      finished = false;
+      const organisms = engine.getOrganisms();
+      cursor.ids = new Set(organisms.map((org) => org.id));
+      cursor.samples = 0;
+      post({
+        type: "ready",
+        organisms,
+        sampleInterval: engine.getRecorder().sampleInterval,
+      });
+      startLoop();
+      break;
+    }
+    case "pause":
+      stopLoop();
+      break;
+    case "resume":
+      startLoop();
+      break;
+    case "speed":
+      speed = request.speed;
+      // Restart a running loop at the new interval
+      if (timer !== null) {
+        stopLoop();
+        startLoop();
+      }
+      break;
+    case "skip":
+      skipToEnd();
+      break;
+    case "stop":
+      finish();
+      break;
+  }
+};
@@ -0,0 +1,82 @@
+// Side length of a grid cell in world units, roughly one interaction range
+const DEFAULT_CELL_SIZE = 100;
+
+/**
+ * Uniform grid over the world for neighbour queries. Items are bucketed by
+ * the cell they stand in, so a radius query only visits the cells it
+ * overlaps instead of every item. Rebuilt from scratch whenever positions
+ * have moved on.
+ */
+export class SpatialGrid<T extends { x: number; y: number }> {
+  readonly cellSize: number;
+  private cells: Map<number, T[]> = new Map();
+  private count: number = 0;
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  public get size(): number {
+    return this.count;
+  }
+
+  // Cells are keyed by a single number so lookups avoid string building
+  private key(col: number, row: number): number {
+    return col * 100003 + row;
+  }
+
+  public rebuild(items: Iterable<T>) {
+    this.cells.clear();
+    this.count = 0;
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  public insert(item: T) {
+    const key = this.key(
+      Math.floor(item.x / this.cellSize),
+      Math.floor(item.y / this.cellSize),
+    );
+    const bucket = this.cells.get(key);
+    if (bucket) bucket.push(item);
+    else this.cells.set(key, [item]);
+    this.count++;
+  }
+
+  /**
+   * Call `visit` for every item within `radius` of (x, y), with its
+   * distance. Return false from `visit` to stop early.
+   */
+  public forEachNear(
+    x: number,
+    y: number,
+    radius: number,
+    visit: (item: T, distance: number) => boolean | void,
+  ) {
+    const minCol = Math.floor((x - radius) / this.cellSize);
+    const maxCol = Math.floor((x + radius) / this.cellSize);
+    const minRow = Math.floor((y - radius) / this.cellSize);
+    const maxRow = Math.floor((y + radius) / this.cellSize);
+
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const bucket = this.cells.get(this.key(col, row));
+        if (!bucket) continue;
+        for (const item of bucket) {
+          const distance = Math.sqrt((item.x - x) ** 2 + (item.y - y) ** 2);
+          if (distance > radius) continue;
+          if (visit(item, distance) === false) return;
+        }
+      }
+    }
+  }
+
+  public query(x: number, y: number, radius: number): T[] {
+    const found: T[] = [];
+    this.forEachNear(x, y, radius, (item) => {
+      found.push(item);
+    });
+    return found;
+  }
+}
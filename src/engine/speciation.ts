@@ -0,0 +1,269 @@
+import { BehaviorWeights, Genome, LifeEvent, Organism } from "@/types";
+import { hexToRgb, rgbToHex } from "@/utils";
+import { createGenome, NEUTRAL_WEIGHTS } from "./genetics";
+
+// Genetic distance from its species past which a lineage splits off
+export const SPECIATION_THRESHOLD = 0.2;
+// Ticks between speciation checks
+export const SPECIATION_INTERVAL = 100;
+// Fewest diverged organisms that can found a species
+const MIN_FOUNDERS = 3;
+
+// Largest possible distance between two RGB colors
+const MAX_COLOR_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+const WEIGHT_KEYS = Object.keys(NEUTRAL_WEIGHTS) as (keyof BehaviorWeights)[];
+
+type PrefixGene = "size" | "speed" | "maxAge" | "reproductionRate";
+
+// Prefixes for a new species, by the gene that moved furthest and which way
+const PREFIXES: Record<PrefixGene, [string, string]> = {
+  size: ["Giant", "Dwarf"],
+  speed: ["Swift", "Sluggish"],
+  maxAge: ["Elder", "Fleeting"],
+  reproductionRate: ["Prolific", "Sparse"],
+};
+const COLOR_PREFIX = "Painted";
+const TRAIT_PREFIX = "Strange";
+
+export interface Speciation {
+  species: string;
+  name: string; // Common name for the new species' members
+  parentSpecies: string;
+  organisms: Organism[];
+}
+
+/**
+ * How different two genomes are, from 0 (identical) to 1. Every gene group
+ * counts equally: size, speed, lifespan and reproduction rate relative to
+ * the larger value, traits and behavior weights by their shift, and colors
+ * by their distance in RGB.
+ */
+export function geneticDistance(a: Genome, b: Genome): number {
+  const relative = (x: number, y: number) =>
+    Math.max(x, y) > 0 ? Math.abs(x - y) / Math.max(x, y) : 0;
+
+  const names = new Set([...Object.keys(a.traits), ...Object.keys(b.traits)]);
+  let traits = 0;
+  names.forEach((name) => {
+    traits += Math.abs((a.traits[name] ?? 0) - (b.traits[name] ?? 0)) / 100;
+  });
+
+  let weights = 0;
+  WEIGHT_KEYS.forEach((key) => {
+    weights += Math.min(
+      1,
+      Math.abs(a.behaviorWeights[key] - b.behaviorWeights[key]) / 2,
+    );
+  });
+
+  const parts = [
+    relative(a.size, b.size),
+    relative(a.speed, b.speed),
+    relative(a.maxAge, b.maxAge),
+    relative(a.reproductionRate, b.reproductionRate),
+    names.size ? traits / names.size : 0,
+    weights / WEIGHT_KEYS.length,
+    colorDistance(a.color, b.color),
+  ];
+  return parts.reduce((sum, part) => sum + part, 0) / parts.length;
+}
+
+// The average of a group's genomes, used as a species' reference
+export function meanGenome(genomes: Genome[]): Genome {
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const traitValues: Record<string, number[]> = {};
+  genomes.forEach((genome) => {
+    Object.entries(genome.traits).forEach(([name, value]) => {
+      traitValues[name] = [...(traitValues[name] ?? []), value];
+    });
+  });
+  const traits: Record<string, number> = {};
+  Object.entries(traitValues).forEach(([name, values]) => {
+    traits[name] = mean(values);
+  });
+
+  const weights = {} as BehaviorWeights;
+  WEIGHT_KEYS.forEach((key) => {
+    weights[key] = mean(genomes.map((genome) => genome.behaviorWeights[key]));
+  });
+
+  return {
+    size: mean(genomes.map((genome) => genome.size)),
+    speed: mean(genomes.map((genome) => genome.speed)),
+    color: meanColor(genomes.map((genome) => genome.color)),
+    secondaryColor: genomes[0].secondaryColor,
+    traits,
+    maxAge: mean(genomes.map((genome) => genome.maxAge)),
+    reproductionRate: mean(genomes.map((genome) => genome.reproductionRate)),
+    behaviorWeights: weights,
+  };
+}
+
+/**
+ * Watches each species drift away from the genome it started with. When
+ * enough members have diverged past the threshold and still resemble each
+ * other, they split off as a new species with a name taken from the gene
+ * that changed most.
+ */
+export class SpeciationTracker {
+  private references: Map<string, Genome> = new Map();
+  private names: Set<string> = new Set();
+
+  constructor(organisms: Organism[]) {
+    const members = groupBySpecies(organisms);
+    members.forEach((group, species) => {
+      this.names.add(species);
+      this.references.set(species, meanGenome(group.map(genomeOf)));
+    });
+  }
+
+  // At most one split per species per check
+  public check(organisms: Organism[]): Speciation[] {
+    const found: Speciation[] = [];
+
+    groupBySpecies(organisms).forEach((group, species) => {
+      const reference = this.references.get(species);
+      if (!reference) {
+        // Species that arrived without a reference start from where they are
+        this.names.add(species);
+        this.references.set(species, meanGenome(group.map(genomeOf)));
+        return;
+      }
+
+      const diverged = group
+        .map((org) => ({
+          org,
+          distance: geneticDistance(genomeOf(org), reference),
+        }))
+        .filter(({ distance }) => distance > SPECIATION_THRESHOLD);
+      if (diverged.length < MIN_FOUNDERS) return;
+
+      // The most diverged organism and everything close to it
+      const seed = diverged.reduce((a, b) =>
+        b.distance > a.distance ? b : a,
+      );
+      const founders = diverged
+        .map(({ org }) => org)
+        .filter(
+          (org) =>
+            geneticDistance(genomeOf(org), genomeOf(seed.org)) <
+            SPECIATION_THRESHOLD,
+        );
+      // Keep at least one member so the parent species does not vanish
+      if (
+        founders.length < MIN_FOUNDERS ||
+        founders.length === group.length
+      ) {
+        return;
+      }
+
+      const genome = meanGenome(founders.map(genomeOf));
+      const prefix = getPrefix(reference, genome);
+      const name = this.uniqueName(`${prefix} ${species}`);
+      this.names.add(name);
+      this.references.set(name, genome);
+      found.push({
+        species: name,
+        name: seed.org.name.startsWith(prefix)
+          ? seed.org.name
+          : `${prefix} ${seed.org.name}`,
+        parentSpecies: species,
+        organisms: founders,
+      });
+    });
+
+    return found;
+  }
+
+  private uniqueName(base: string): string {
+    if (!this.names.has(base)) return base;
+    for (let n = 2; ; n++) {
+      const candidate = `${base} ${toRoman(n)}`;
+      if (!this.names.has(candidate)) return candidate;
+    }
+  }
+}
+
+/**
+ * Move an organism into the species a speciation event created. Organisms
+ * already moved are left alone, so the event can be replayed safely.
+ */
+export function applySpeciation(
+  org: Organism,
+  event: Extract<LifeEvent, { kind: "speciation" }>,
+) {
+  if (org.species !== event.parentSpecies) return;
+  org.species = event.species;
+  org.name = event.name;
+  org.ancestry = [...(org.ancestry ?? []), event.parentSpecies];
+}
+
+function genomeOf(org: Organism): Genome {
+  return org.genome ?? createGenome(org);
+}
+
+export function groupBySpecies(organisms: Organism[]): Map<string, Organism[]> {
+  const groups = new Map<string, Organism[]>();
+  organisms.forEach((org) => {
+    const group = groups.get(org.species);
+    if (group) group.push(org);
+    else groups.set(org.species, [org]);
+  });
+  return groups;
+}
+
+function getPrefix(from: Genome, to: Genome): string {
+  let prefix = TRAIT_PREFIX;
+  let largest = 0;
+  (Object.keys(PREFIXES) as PrefixGene[]).forEach((gene) => {
+    const [up, down] = PREFIXES[gene];
+    const a = from[gene];
+    const b = to[gene];
+    const change = Math.max(a, b) > 0 ? (b - a) / Math.max(a, b) : 0;
+    if (Math.abs(change) > largest) {
+      largest = Math.abs(change);
+      prefix = change > 0 ? up : down;
+    }
+  });
+  if (colorDistance(from.color, to.color) > largest) prefix = COLOR_PREFIX;
+  return prefix;
+}
+
+function colorDistance(a: string, b: string): number {
+  const x = hexToRgb(a);
+  const y = hexToRgb(b);
+  if (!x || !y) return a === b ? 0 : 1;
+  return (
+    Math.sqrt((x.r - y.r) ** 2 + (x.g - y.g) ** 2 + (x.b - y.b) ** 2) /
+    MAX_COLOR_DISTANCE
+  );
+}
+
+function meanColor(colors: string[]): string {
+  const rgbs = colors.map(hexToRgb);
+  if (rgbs.some((rgb) => !rgb)) return colors[0];
+  const channel = (key: "r" | "g" | "b") =>
+    Math.round(rgbs.reduce((sum, rgb) => sum + rgb![key], 0) / rgbs.length);
+  return rgbToHex(channel("r"), channel("g"), channel("b"));
+}
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [
+    [10, "X"],
+    [9, "IX"],
+    [5, "V"],
+    [4, "IV"],
+    [1, "I"],
+  ];
+  let result = "";
+  numerals.forEach(([value, numeral]) => {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  });
+  return result;
+}
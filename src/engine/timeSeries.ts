@@ -0,0 +1,120 @@
+import {
+  InteractionMode,
+  Organism,
+  Phenotype,
+  TimeSeries,
+  TimeSeriesSample,
+} from "@/types";
+
+// Ticks between samples, 20 ticks is one second of simulation
+export const DEFAULT_SAMPLE_INTERVAL = 10;
+
+/**
+ * Samples the population every few ticks so the dynamics inside a
+ * generation survive the run. Births, deaths and predations are counted
+ * over the ticks since the previous sample.
+ */
+export class TimeSeriesRecorder {
+  private interval: number;
+  private generation: number;
+  private samples: TimeSeriesSample[] = [];
+  private births: number = 0;
+  private deaths: number = 0;
+  private predations: number = 0;
+
+  constructor(generation: number, interval: number = DEFAULT_SAMPLE_INTERVAL) {
+    this.generation = generation;
+    this.interval = Math.max(1, Math.floor(interval));
+  }
+
+  // Tally one tick, taking a sample when the interval is up or `force` is set
+  public record(
+    tick: number,
+    organisms: Organism[],
+    births: number,
+    deaths: number,
+    interactions: { kind: InteractionMode }[],
+    force: boolean = false,
+  ) {
+    this.births += births;
+    this.deaths += deaths;
+    this.predations += interactions.filter(
+      (interaction) => interaction.kind === "predation",
+    ).length;
+
+    if (force || tick % this.interval === 0) {
+      this.sample(tick, organisms);
+    }
+  }
+
+  public sample(tick: number, organisms: Organism[]) {
+    const bySpecies: Record<string, number> = {};
+    const byType: TimeSeriesSample["byType"] = {};
+    const phenotypes: Record<string, Phenotype> = {};
+    let totalEnergy = 0;
+
+    organisms.forEach((org) => {
+      bySpecies[org.species] = (bySpecies[org.species] || 0) + 1;
+      byType[org.type] = (byType[org.type] || 0) + 1;
+      totalEnergy += org.energy;
+
+      const sums = phenotypes[org.species] ?? { size: 0, speed: 0, maxAge: 0 };
+      phenotypes[org.species] = sums;
+      sums.size += org.size;
+      sums.speed += org.speed;
+      sums.maxAge += org.maxAge;
+    });
+
+    // Sums to means, rounded to keep exports small
+    Object.entries(phenotypes).forEach(([species, sums]) => {
+      const count = bySpecies[species];
+      phenotypes[species] = {
+        size: round(sums.size / count, 100),
+        speed: round(sums.speed / count, 100),
+        maxAge: round(sums.maxAge / count, 1),
+      };
+    });
+
+    this.samples.push({
+      tick,
+      population: organisms.length,
+      bySpecies,
+      byType,
+      meanEnergy: organisms.length
+        ? round(totalEnergy / organisms.length, 10)
+        : 0,
+      births: this.births,
+      deaths: this.deaths,
+      predations: this.predations,
+      phenotypes,
+    });
+
+    this.births = 0;
+    this.deaths = 0;
+    this.predations = 0;
+  }
+
+  public get sampleInterval(): number {
+    return this.interval;
+  }
+
+  public get sampleCount(): number {
+    return this.samples.length;
+  }
+
+  public getSamplesSince(index: number): TimeSeriesSample[] {
+    return this.samples.slice(index);
+  }
+
+  public getSeries(): TimeSeries {
+    return {
+      generation: this.generation,
+      interval: this.interval,
+      samples: [...this.samples],
+    };
+  }
+}
+
+function round(value: number, precision: number): number {
+  return Math.round(value * precision) / precision;
+}
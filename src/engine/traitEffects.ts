@@ -0,0 +1,115 @@
+import { Organism, Trait, TraitCategory } from "@/types";
+import { clamp } from "@/utils";
+
+/**
+ * Numeric multipliers an organism's traits apply to the simulation.
+ * 1 means "no effect" for every field.
+ */
+export interface TraitModifiers {
+  attack: number; // Predation success and damage dealt
+  defense: number; // Resistance to being eaten
+  stealth: number; // Shrinks the range at which others notice this organism
+  detection: number; // Range at which this organism notices prey
+  metabolism: number; // Multiplier on passive energy drain
+  reproduction: number; // Multiplier on reproduction chance
+}
+
+export const NEUTRAL_MODIFIERS: TraitModifiers = {
+  attack: 1,
+  defense: 1,
+  stealth: 1,
+  detection: 1,
+  metabolism: 1,
+  reproduction: 1,
+};
+
+// Keywords used to categorise free-form trait names invented by the AI
+const CATEGORY_KEYWORDS: Record<TraitCategory, string[]> = {
+  camouflage: ["camouflag", "stealth", "mimic", "invisib", "transparen", "transluc", "cryptic", "blend", "shadow"],
+  armor: ["armor", "armour", "shell", "carapace", "plate", "spike", "spine", "thorn", "scale", "tough", "thick"],
+  venom: ["venom", "poison", "toxi", "sting", "claw", "fang", "bite", "jaw", "acid", "strength"],
+  senses: ["vision", "sight", "eye", "sens", "smell", "scent", "echoloc", "hearing", "antenna", "detect", "night"],
+  metabolism: ["metabol", "efficien", "photosynth", "hibernat", "endur", "stamina", "reserve", "drought"],
+  fertility: ["fertil", "reproduc", "spore", "brood", "prolific", "clutch", "seed", "bloom"],
+};
+
+// How strongly a maxed-out (value 100) trait of each category changes behaviour
+const CATEGORY_EFFECTS: Record<TraitCategory, Partial<TraitModifiers>> = {
+  camouflage: { stealth: 0.6 },
+  armor: { defense: 0.8, metabolism: 0.15 }, // Heavy armour costs energy to carry
+  venom: { attack: 0.6, defense: 0.3 }, // Toxic prey is also harder to eat
+  senses: { detection: 0.8 },
+  metabolism: { metabolism: -0.4 },
+  fertility: { reproduction: 0.8 },
+};
+
+const CATEGORY_LABELS: Record<TraitCategory, string> = {
+  camouflage: "Camouflage",
+  armor: "Armor",
+  venom: "Venom",
+  senses: "Senses",
+  metabolism: "Metabolism",
+  fertility: "Fertility",
+};
+
+/**
+ * Resolve which category a trait belongs to, preferring an explicit category
+ * and falling back to keyword matching on the name, then the description.
+ */
+export function getTraitCategory(trait: Trait): TraitCategory | null {
+  if (trait.category && trait.category in CATEGORY_EFFECTS) {
+    return trait.category;
+  }
+
+  for (const text of [trait.name, trait.description]) {
+    const lower = (text || "").toLowerCase();
+    const match = (Object.keys(CATEGORY_KEYWORDS) as TraitCategory[]).find(
+      (category) => CATEGORY_KEYWORDS[category].some((kw) => lower.includes(kw)),
+    );
+    if (match) return match;
+  }
+
+  return null;
+}
+
+/**
+ * Combine an organism's traits into simulation modifiers. Only the strongest
+ * trait of each category counts, so piling up similar traits does not stack.
+ */
+export function getTraitModifiers(org: Organism): TraitModifiers {
+  const strongest = new Map<TraitCategory, number>();
+  (org.traits || []).forEach((trait) => {
+    const category = getTraitCategory(trait);
+    if (!category) return;
+    const strength = clamp((trait.value || 0) / 100, 0, 1);
+    strongest.set(category, Math.max(strongest.get(category) ?? 0, strength));
+  });
+
+  const modifiers = { ...NEUTRAL_MODIFIERS };
+  strongest.forEach((strength, category) => {
+    const effects = CATEGORY_EFFECTS[category];
+    (Object.keys(effects) as (keyof TraitModifiers)[]).forEach((key) => {
+      modifiers[key] += effects[key]! * strength;
+    });
+  });
+
+  return modifiers;
+}
+
+/**
+ * Short human-readable summary of what a trait does, e.g.
+ * "Armor · defense +40%, metabolism +8%". Null for traits with no effect.
+ */
+export function describeTraitEffect(trait: Trait): string | null {
+  const category = getTraitCategory(trait);
+  if (!category) return null;
+
+  const strength = clamp((trait.value || 0) / 100, 0, 1);
+  const effects = CATEGORY_EFFECTS[category];
+  const parts = (Object.keys(effects) as (keyof TraitModifiers)[]).map((key) => {
+    const percent = Math.round(effects[key]! * strength * 100);
+    return `${key} ${percent >= 0 ? "+" : ""}${percent}%`;
+  });
+
+  return `${CATEGORY_LABELS[category]} · ${parts.join(", ")}`;
+}
@@ -1,5 +1,25 @@
 import Phaser from "phaser";
-import { Organism, WorldConfig, LocomotionType } from "@/types";
+import {
+  Compounds,
+  LifeEvent,
+  Organism,
+  SimulationEvent,
+  SimulationSpeed,
+  SimulationState,
+  SimulationStats,
+  TimeSeries,
+  TimeSeriesSample,
+  WorldConfig,
+} from "@/types";
+import {
+  applySpeciation,
+  Corpse,
+  OrganismDiff,
+  TickSnapshot,
+  unpackSnapshot,
+  WorkerRequest,
+  WorkerResponse,
+} from "@/engine";
 
 // Particle system for visual effects
 interface ParticleConfig {
@@ -41,24 +61,77 @@ export interface ImageTextureConfig {
 // Union type for texture config
 export type TextureConfig = FallbackTextureConfig | ImageTextureConfig;
 
+// Milliseconds between simulation ticks (20 ticks per second)
+const TICK_INTERVAL = 50;
+
+// How sprites follow their simulated organisms
+interface SpriteMotion {
+  turn: number;
+  pulse: number;
+  particleChance: number;
+  sway: number;
+  swaySpeed: number;
+  plantPulse: number;
+  plantPulseSpeed: number;
+}
+
+const LIVE_MOTION: SpriteMotion = {
+  turn: 0.1,
+  pulse: 0.05,
+  particleChance: 1,
+  sway: 0.05,
+  swaySpeed: 1,
+  plantPulse: 0.03,
+  plantPulseSpeed: 0.5,
+};
+
+// Slower, calmer motion once the run has finished
+const AQUARIUM_MOTION: SpriteMotion = {
+  turn: 0.05,
+  pulse: 0.04,
+  particleChance: 0.1,
+  sway: 0.04,
+  swaySpeed: 0.7,
+  plantPulse: 0.02,
+  plantPulseSpeed: 0.3,
+};
+
 export interface SimulationCallbacks {
   onTick: (tick: number) => void;
-  onOrganismUpdate: (organisms: Organism[]) => void;
+  onOrganismUpdate: (diff: OrganismDiff) => void;
+  onStatsUpdate?: (stats: SimulationStats) => void;
+  onLifeEvents?: (events: LifeEvent[]) => void; // Births, deaths and extinctions as they happen
+  onEvents?: (events: SimulationEvent[]) => void; // Notable moments for the event ticker
   onSimulationComplete: () => void;
   onOrganismClick?: (organism: Organism) => void;
 }
 
 export class MainScene extends Phaser.Scene {
   private organisms: Map<string, Phaser.GameObjects.Container> = new Map();
+  private corpses: Map<string, Phaser.GameObjects.Graphics> = new Map();
+  // The simulation runs in a worker, these mirror its latest snapshot
+  private worker: Worker | null = null;
   private organismData: Map<string, Organism> = new Map();
+  private previousPositions: Map<string, { x: number; y: number }> = new Map();
+  private reportedEnergy: Map<string, number> = new Map();
+  private corpseData: Corpse[] = [];
+  private compounds: Compounds | null = null;
+  private currentTick: number = 0;
+  private animationTime: number = 0;
+  private lastSnapshotAt: number = 0;
+  private speed: SimulationSpeed = 1;
+  private samples: TimeSeriesSample[] = [];
+  private stats: SimulationStats | null = null;
+  private runEvents: SimulationEvent[] = [];
+  private sampleInterval: number = 1;
+  private finalState: SimulationState | null = null; // Snapshot taken when the run completes
+  private initialOrganisms: Organism[] = [];
   private worldConfig: WorldConfig | null = null;
   private textureConfig: TextureConfig | null = null;
-  private currentTick: number = 0;
   private maxTicks: number = 1000;
-  private isRunning: boolean = false;
-  private isAquariumMode = false; // Keep organisms moving without tick updates
-  private tickTimer: Phaser.Time.TimerEvent | null = null;
-  private aquariumTimer: Phaser.Time.TimerEvent | null = null;
+  private seed: number | undefined;
+  private generation = 1;
+  private isAquariumMode = false; // Keep the ecosystem living after the run ends
   private callbacks: SimulationCallbacks | null = null;
   private background: Phaser.GameObjects.Graphics | null = null;
   private backgroundImage: Phaser.GameObjects.Image | null = null;
@@ -67,8 +140,6 @@ export class MainScene extends Phaser.Scene {
   private particles: ParticleConfig[] = [];
   private particleGraphics: Phaser.GameObjects.Graphics | null = null;
   private trailGraphics: Phaser.GameObjects.Graphics | null = null;
-  private animationTime: number = 0;
-  private nextOrganismId: number = 1000; // For generating new organism IDs
 
   public get aquariumMode(): boolean {
     return this.isAquariumMode;
@@ -83,6 +154,8 @@ export class MainScene extends Phaser.Scene {
     organisms: Organism[];
     texture: TextureConfig;
     maxTicks: number;
+    seed?: number;
+    generation?: number;
     callbacks: SimulationCallbacks;
   }) {
     console.log(
@@ -96,17 +169,20 @@ export class MainScene extends Phaser.Scene {
     this.worldConfig = data?.world ?? null;
     this.textureConfig = data?.texture ?? null;
     this.maxTicks = data?.maxTicks ?? 1000;
+    this.seed = data?.seed;
+    this.generation = data?.generation ?? 1;
     this.callbacks = data?.callbacks ?? null;
+    this.isAquariumMode = false;
+    this.finalState = null;
     this.currentTick = 0;
-    this.isRunning = false;
+    this.compounds = null;
+    this.speed = 1;
+    this.samples = [];
+    this.stats = null;
+    this.runEvents = [];
 
     // Store organism data
-    this.organismData.clear();
-    if (data?.organisms) {
-      data.organisms.forEach((org) => {
-        this.organismData.set(org.id, { ...org });
-      });
-    }
+    this.initialOrganisms = data?.organisms ?? [];
   }
 
   preload() {
@@ -123,7 +199,10 @@ export class MainScene extends Phaser.Scene {
     this.createBackground();
     this.createParticleSystems();
     this.createOrganisms();
-    this.startSimulation();
+
+    // Stop the worker along with the scene
+    this.events.once("shutdown", this.terminateWorker, this);
+    this.events.once("destroy", this.terminateWorker, this);
 
     // Debug: log what was created
     console.log("MainScene created:", {
@@ -392,55 +471,100 @@ export class MainScene extends Phaser.Scene {
   private createOrganisms() {
     this.organisms.forEach((container) => container.destroy());
     this.organisms.clear();
+    this.corpses.forEach((graphics) => graphics.destroy());
+    this.corpses.clear();
+    this.organismData.clear();
+    this.previousPositions.clear();
+    this.reportedEnergy.clear();
+    this.corpseData = [];
 
-    const canvasWidth = this.scale.width;
-    const canvasHeight = this.scale.height;
-    const worldWidth = this.worldConfig?.width ?? canvasWidth;
-    const worldHeight = this.worldConfig?.height ?? canvasHeight;
-
-    // Scale factor to map world coords to canvas coords
-    const scaleX = canvasWidth / worldWidth;
-    const scaleY = canvasHeight / worldHeight;
+    const scale = this.getWorldScale();
 
     console.log(
       "Creating",
-      this.organismData.size,
+      this.initialOrganisms.length,
       "organisms. Canvas:",
-      canvasWidth,
+      this.scale.width,
       "x",
-      canvasHeight,
+      this.scale.height,
       "Scale:",
-      scaleX.toFixed(2),
-      scaleY.toFixed(2),
+      scale.x.toFixed(2),
+      scale.y.toFixed(2),
     );
 
-    this.organismData.forEach((org, id) => {
-      // Scale organism positions to fit canvas
-      org.x = org.x * scaleX;
-      org.y = org.y * scaleY;
+    if (!this.worldConfig) return;
 
-      // Set default locomotion if not provided (backward compatibility)
-      if (!org.locomotion) {
-        org.locomotion = this.inferLocomotion(org);
-      }
+    // The engine simulates in world coordinates in a worker, sprites are
+    // created once it reports the starting roster
+    this.terminateWorker();
+    this.worker = new Worker(
+      new URL("../engine/simulation.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) =>
+      this.onWorkerMessage(event.data);
+    this.postToWorker({
+      type: "init",
+      world: this.worldConfig,
+      organisms: this.initialOrganisms,
+      maxTicks: this.maxTicks,
+      seed: this.seed,
+      generation: this.generation,
+      tickInterval: TICK_INTERVAL,
+    });
+  }
 
-      // Ensure within bounds
-      const padding = org.size / 2;
-      org.x = Phaser.Math.Clamp(org.x, padding, canvasWidth - padding);
-      org.y = Phaser.Math.Clamp(org.y, padding, canvasHeight - padding);
+  private postToWorker(request: WorkerRequest) {
+    this.worker?.postMessage(request);
+  }
 
-      const container = this.createOrganismSprite(org);
-      this.organisms.set(id, container);
-    });
+  private terminateWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+  }
 
-    console.log("Organisms created. Count:", this.organisms.size);
+  private onWorkerMessage(message: WorkerResponse) {
+    switch (message.type) {
+      case "ready":
+        message.organisms.forEach((org) => {
+          this.organismData.set(org.id, org);
+          this.organisms.set(org.id, this.createOrganismSprite(org));
+          this.reportedEnergy.set(org.id, Math.round(org.energy));
+        });
+        this.lastSnapshotAt = this.time.now;
+        this.sampleInterval = message.sampleInterval;
+        console.log("Organisms created. Count:", this.organisms.size);
+        break;
+      case "snapshot":
+        this.renderSnapshot(message);
+        break;
+      case "complete":
+        this.handleComplete(message.state);
+        break;
+    }
+  }
+
+  // Scale factor to map world coords to canvas coords
+  private getWorldScale(): { x: number; y: number } {
+    const worldWidth = this.worldConfig?.width ?? this.scale.width;
+    const worldHeight = this.worldConfig?.height ?? this.scale.height;
+    return {
+      x: this.scale.width / worldWidth,
+      y: this.scale.height / worldHeight,
+    };
+  }
+
+  private toCanvas(org: { x: number; y: number }): { x: number; y: number } {
+    const scale = this.getWorldScale();
+    return { x: org.x * scale.x, y: org.y * scale.y };
   }
 
   private createOrganismSprite(org: Organism): Phaser.GameObjects.Container {
-    const container = this.add.container(org.x, org.y);
+    const position = this.toCanvas(org);
+    const container = this.add.container(position.x, position.y);
 
     // Set depth - organisms should always be above background (which is at -1000)
-    container.setDepth(100 + Math.floor(org.y));
+    container.setDepth(100 + Math.floor(position.y));
 
     // Create a graphics object
     const graphics = this.add.graphics();
@@ -545,7 +669,7 @@ export class MainScene extends Phaser.Scene {
       if (this.callbacks?.onOrganismClick) {
         const currentOrg = this.organismData.get(org.id);
         if (currentOrg) {
-          this.callbacks.onOrganismClick(currentOrg);
+          this.callbacks.onOrganismClick({ ...currentOrg });
         }
       }
     });
@@ -935,206 +1059,248 @@ export class MainScene extends Phaser.Scene {
     );
   }
 
-  private startSimulation() {
-    this.isRunning = true;
-    this.tickTimer = this.time.addEvent({
-      delay: 50, // 20 ticks per second
-      callback: this.onTick,
-      callbackScope: this,
-      loop: true,
-    });
-  }
+  private renderSnapshot(snapshot: TickSnapshot) {
+    this.currentTick = snapshot.tick;
+    this.animationTime = snapshot.time;
+    this.compounds = snapshot.compounds;
+    this.corpseData = snapshot.corpses;
+    this.samples.push(...snapshot.samples);
+    if (!this.finalState) this.stats = snapshot.stats;
+    this.runEvents.push(...snapshot.events);
 
-  private onTick() {
-    if (!this.isRunning) return;
+    // Clear trail graphics with fade effect
+    if (this.trailGraphics) {
+      this.trailGraphics.clear();
+    }
 
-    this.currentTick++;
+    // Sprites interpolate from where the previous snapshot left them
+    this.organismData.forEach((org, id) => {
+      this.previousPositions.set(id, { x: org.x, y: org.y });
+    });
 
-    // Update organisms
-    this.updateOrganisms();
+    snapshot.deaths.forEach((id) => {
+      const org = this.organismData.get(id);
+      if (!org) return;
+      this.organismData.delete(id);
+      this.previousPositions.delete(id);
+      this.reportedEnergy.delete(id);
+      this.handleOrganismDeath(org);
+    });
+    snapshot.births.forEach((org) => {
+      this.organismData.set(org.id, org);
+      this.handleBirth(org);
+    });
 
-    // Notify callback
-    if (this.callbacks) {
-      this.callbacks.onTick(this.currentTick);
-      this.callbacks.onOrganismUpdate(Array.from(this.organismData.values()));
-    }
+    // Lineages that split off keep their sprites under a new species
+    const renamed = new Set<string>();
+    snapshot.lifeEvents.forEach((event) => {
+      if (event.kind !== "speciation") return;
+      event.organismIds.forEach((id) => {
+        const org = this.organismData.get(id);
+        if (!org) return;
+        applySpeciation(org, event);
+        renamed.add(id);
+      });
+    });
 
-    // Check if simulation complete
-    if (this.currentTick >= this.maxTicks) {
-      this.stopSimulation();
+    // Keep the roster in the worker's order so the packed state lines up
+    if (snapshot.ids) {
+      const roster = new Map<string, Organism>();
+      snapshot.ids.forEach((id) => {
+        const org = this.organismData.get(id);
+        if (org) roster.set(id, org);
+      });
+      this.organismData = roster;
     }
-  }
+    unpackSnapshot(snapshot.state, Array.from(this.organismData.values()));
+    this.lastSnapshotAt = this.time.now;
 
-  private updateOrganisms() {
-    // Use canvas dimensions for bounds, not world config
-    const width = this.scale.width;
-    const height = this.scale.height;
-    const gravity = this.worldConfig?.gravity ?? 1;
+    const motion = this.isAquariumMode ? AQUARIUM_MOTION : LIVE_MOTION;
+    this.organismData.forEach((org) => {
+      // Update energy bar
+      const energyBar = this.organisms
+        .get(org.id)
+        ?.getData("energyBar") as Phaser.GameObjects.Graphics | undefined;
+      if (energyBar) {
+        this.updateEnergyBar(energyBar, org);
+      }
 
-    // Update animation time
-    this.animationTime += 0.05;
+      // Spawn locomotion particles
+      const moving = org.type !== "plant" && org.locomotion !== "sessile";
+      if (moving && Math.random() < motion.particleChance) {
+        this.spawnLocomotionParticles(org);
+      }
+    });
 
-    // Clear trail graphics with fade effect
-    if (this.trailGraphics) {
-      this.trailGraphics.clear();
+    this.syncCorpseSprites();
+
+    snapshot.interactions.forEach((interaction) => {
+      const { x, y } = this.toCanvas(interaction);
+      switch (interaction.kind) {
+        case "predation":
+          // Attack particles
+          this.spawnInteractionParticles(x, y, 0xff4444, 0xffff00, "attack");
+          break;
+        case "infection":
+          // Sickly spores
+          this.spawnInteractionParticles(x, y, 0x9acd32, 0x556b2f, "eat");
+          break;
+        case "scavenging":
+          // Decay particles
+          this.spawnInteractionParticles(x, y, 0x8b7355, 0x556b2f, "eat");
+          break;
+        default:
+          // Eating particles
+          this.spawnInteractionParticles(x, y, 0x90ee90, 0xffffff, "eat");
+      }
+    });
+
+    // Update particles
+    this.updateParticles();
+
+    // Notify callback, the aquarium runs past the generation's result
+    if (this.callbacks && !this.finalState) {
+      this.callbacks.onTick(snapshot.tick);
+      this.callbacks.onOrganismUpdate(
+        this.buildOrganismDiff(snapshot, renamed),
+      );
+      this.callbacks.onStatsUpdate?.(snapshot.stats);
+      if (snapshot.lifeEvents.length > 0) {
+        this.callbacks.onLifeEvents?.(snapshot.lifeEvents);
+      }
+      if (snapshot.events.length > 0) {
+        this.callbacks.onEvents?.(snapshot.events);
+      }
     }
+  }
 
-    this.organismData.forEach((org, id) => {
-      const container = this.organisms.get(id);
-      if (!container) return;
+  // Only report organisms whose displayed energy or species changed since last time
+  private buildOrganismDiff(
+    snapshot: TickSnapshot,
+    renamed: Set<string>,
+  ): OrganismDiff {
+    const born = new Set(snapshot.births.map((org) => org.id));
+    const diff: OrganismDiff = {
+      added: snapshot.births.map((org) => ({ ...org })),
+      removed: snapshot.deaths,
+      updated: [],
+    };
 
-      // Initialize runtime state if needed
-      if (org.direction === undefined)
-        org.direction = Math.random() * Math.PI * 2;
-      if (org.animationPhase === undefined)
-        org.animationPhase = Math.random() * Math.PI * 2;
+    this.organismData.forEach((org) => {
+      const shown = Math.round(org.energy);
+      const energyChanged = this.reportedEnergy.get(org.id) !== shown;
+      if (!energyChanged && !renamed.has(org.id)) return;
+      this.reportedEnergy.set(org.id, shown);
+      if (born.has(org.id)) return;
+      diff.updated.push(
+        renamed.has(org.id)
+          ? {
+              id: org.id,
+              energy: org.energy,
+              age: org.age,
+              species: org.species,
+              name: org.name,
+              ancestry: org.ancestry,
+            }
+          : { id: org.id, energy: org.energy, age: org.age },
+      );
+    });
 
-      // Update animation phase
-      org.animationPhase += 0.1;
+    return diff;
+  }
 
-      // Move based on type, behavior, and locomotion
-      if (org.type !== "plant" && org.locomotion !== "sessile") {
-        const movement = this.calculateEnhancedMovement(org);
-
-        // Apply locomotion-specific modifiers
-        const locomotionMod = this.getLocomotionModifiers(org.locomotion);
-
-        org.x += movement.x * locomotionMod.speedMult;
-        org.y += movement.y * locomotionMod.speedMult;
-
-        // Update direction based on movement
-        if (Math.abs(movement.x) > 0.01 || Math.abs(movement.y) > 0.01) {
-          const targetDir = Math.atan2(movement.y, movement.x);
-          // Smooth rotation
-          org.direction = Phaser.Math.Angle.RotateTo(
-            org.direction,
-            targetDir,
-            0.1,
-          );
-        }
+  // Draw carcasses where organisms died, shrinking and fading as they are eaten or rot
+  private syncCorpseSprites() {
+    const scale = this.getWorldScale();
+    const seen = new Set<string>();
+
+    this.corpseData.forEach((corpse) => {
+      seen.add(corpse.id);
+      let graphics = this.corpses.get(corpse.id);
+      if (!graphics) {
+        const { x, y } = this.toCanvas(corpse);
+        const color = Phaser.Display.Color.HexStringToColor(corpse.color).color;
+        const faded = Phaser.Display.Color.IntegerToColor(color).desaturate(60).darken(30).color;
+        const size = (corpse.size * (scale.x + scale.y)) / 2;
+
+        graphics = this.add.graphics({ x, y });
+        graphics.fillStyle(faded, 0.7);
+        graphics.fillEllipse(0, 0, size, size * 0.6);
+        graphics.fillStyle(0x5c4a32, 0.5); // Detritus
+        graphics.fillEllipse(size * 0.1, size * 0.05, size * 0.7, size * 0.4);
+        graphics.setDepth(90); // Below the living, above trails
+        this.corpses.set(corpse.id, graphics);
+      }
 
-        // Apply gravity influence (modified by locomotion)
-        org.y += (gravity - 1) * locomotionMod.gravityMult * 0.1;
-
-        // Apply locomotion-specific vertical movement
-        if (org.locomotion === "flying" || org.locomotion === "gliding") {
-          org.y += Math.sin(this.animationTime * 2 + org.animationPhase) * 0.5;
-        } else if (org.locomotion === "hopping") {
-          const hopPhase =
-            (this.animationTime * 3 + org.animationPhase) % (Math.PI * 2);
-          if (hopPhase < Math.PI) {
-            org.y -= Math.sin(hopPhase) * 2;
-          }
-        } else if (
-          org.locomotion === "swimming" ||
-          org.locomotion === "floating"
-        ) {
-          org.y += Math.sin(this.animationTime + org.animationPhase) * 0.3;
-          org.x +=
-            Math.sin(this.animationTime * 0.5 + org.animationPhase) * 0.2;
-        }
+      const remaining = corpse.energy / corpse.maxEnergy;
+      graphics.setScale(0.4 + 0.6 * remaining);
+      graphics.setAlpha(0.3 + 0.6 * remaining);
+    });
 
-        // Clamp to boundaries with padding for organism size
-        const padding = org.size / 2;
-        org.x = Phaser.Math.Clamp(org.x, padding, width - padding);
-        org.y = Phaser.Math.Clamp(org.y, padding, height - padding);
+    // Fully eaten or rotted away
+    this.corpses.forEach((graphics, id) => {
+      if (seen.has(id)) return;
+      graphics.destroy();
+      this.corpses.delete(id);
+    });
+  }
 
-        // Update container position with smooth lerp
-        container.x = Phaser.Math.Linear(container.x, org.x, 0.15);
-        container.y = Phaser.Math.Linear(container.y, org.y, 0.15);
+  // Interpolate sprites between the last two snapshots every frame
+  update(time: number) {
+    if (this.organismData.size === 0) return;
+    const motion = this.isAquariumMode ? AQUARIUM_MOTION : LIVE_MOTION;
+    // Snapshots arrive less often below 1×, above it they just cover more ticks
+    const snapshotInterval = TICK_INTERVAL / Math.min(this.speed, 1);
+    const progress = Phaser.Math.Clamp(
+      (time - this.lastSnapshotAt) / snapshotInterval,
+      0,
+      1,
+    );
+
+    this.organismData.forEach((org) => {
+      const container = this.organisms.get(org.id);
+      if (!container) return;
+      const phase = org.animationPhase ?? 0;
+
+      if (org.type !== "plant" && org.locomotion !== "sessile") {
+        const from = this.previousPositions.get(org.id) ?? org;
+        const position = this.toCanvas({
+          x: Phaser.Math.Linear(from.x, org.x, progress),
+          y: Phaser.Math.Linear(from.y, org.y, progress),
+        });
+        container.x = position.x;
+        container.y = position.y;
 
         // Apply rotation based on direction (for non-radial organisms)
         if (org.type !== "decomposer" && org.type !== "microbe") {
           container.rotation = Phaser.Math.Linear(
             container.rotation,
-            org.direction,
-            0.1,
+            org.direction ?? 0,
+            motion.turn,
           );
         }
 
         // Apply idle animation (subtle scale pulsing)
-        const pulseScale = 1 + Math.sin(org.animationPhase) * 0.05;
+        const pulseScale = 1 + Math.sin(phase) * motion.pulse;
         container.setScale(pulseScale);
 
         // Update depth based on y position for proper layering (base of 100 to stay above background)
         container.setDepth(100 + Math.floor(container.y));
-
-        // Spawn locomotion particles
-        this.spawnLocomotionParticles(org);
       } else {
         // Plants have gentle swaying animation
-        const sway = Math.sin(this.animationTime + org.animationPhase) * 0.05;
+        const sway =
+          Math.sin(this.animationTime * motion.swaySpeed + phase) * motion.sway;
         container.rotation = sway;
-        const pulseScale = 1 + Math.sin(org.animationPhase * 0.5) * 0.03;
+        const pulseScale =
+          1 + Math.sin(phase * motion.plantPulseSpeed) * motion.plantPulse;
         container.setScale(pulseScale);
       }
-
-      // Update energy
-      org.energy -= 0.03;
-      if (org.type === "plant") {
-        // Plants gain energy from "photosynthesis"
-        org.energy += 0.08;
-      }
-      org.energy = Phaser.Math.Clamp(org.energy, 0, 100);
-
-      // Update age
-      org.age += 1;
-
-      // Update energy bar
-      const energyBar = container.getData(
-        "energyBar",
-      ) as Phaser.GameObjects.Graphics;
-      if (energyBar) {
-        this.updateEnergyBar(energyBar, org);
-      }
-
-      // Handle reproduction
-      if (org.energy > 80 && Math.random() < org.reproductionRate * 0.1) {
-        this.handleReproduction(org);
-      }
-
-      // Check for death
-      if (org.energy <= 0 || org.age >= org.maxAge) {
-        this.handleOrganismDeath(id);
-      }
     });
-
-    // Update particles
-    this.updateParticles();
-
-    // Check for interactions
-    this.checkInteractions();
-  }
-
-  private getLocomotionModifiers(locomotion: LocomotionType): {
-    speedMult: number;
-    gravityMult: number;
-  } {
-    switch (locomotion) {
-      case "flying":
-        return { speedMult: 1.5, gravityMult: 0.1 };
-      case "gliding":
-        return { speedMult: 1.2, gravityMult: 0.3 };
-      case "swimming":
-        return { speedMult: 1.0, gravityMult: 0.2 };
-      case "floating":
-        return { speedMult: 0.5, gravityMult: 0.0 };
-      case "hopping":
-        return { speedMult: 1.3, gravityMult: 0.8 };
-      case "slithering":
-        return { speedMult: 0.8, gravityMult: 1.0 };
-      case "burrowing":
-        return { speedMult: 0.6, gravityMult: 1.2 };
-      case "crawling":
-        return { speedMult: 0.7, gravityMult: 1.0 };
-      case "walking":
-      default:
-        return { speedMult: 1.0, gravityMult: 1.0 };
-    }
   }
 
   private spawnLocomotionParticles(org: Organism) {
     const color = Phaser.Display.Color.HexStringToColor(org.color).color;
+    const { x, y } = this.toCanvas(org);
 
     // Only spawn particles occasionally for performance
     if (Math.random() > 0.3) return;
@@ -1144,8 +1310,8 @@ export class MainScene extends Phaser.Scene {
       case "floating":
         // Bubble particles
         this.particles.push({
-          x: org.x - (Math.cos(org.direction || 0) * org.size) / 2,
-          y: org.y - (Math.sin(org.direction || 0) * org.size) / 2,
+          x: x - (Math.cos(org.direction || 0) * org.size) / 2,
+          y: y - (Math.sin(org.direction || 0) * org.size) / 2,
           color: 0xadd8e6,
           alpha: 0.6,
           size: 2 + Math.random() * 3,
@@ -1161,8 +1327,8 @@ export class MainScene extends Phaser.Scene {
         // Air trail particles
         if (Math.random() > 0.5) {
           this.particles.push({
-            x: org.x - (Math.cos(org.direction || 0) * org.size) / 2,
-            y: org.y,
+            x: x - (Math.cos(org.direction || 0) * org.size) / 2,
+            y: y,
             color: 0xffffff,
             alpha: 0.3,
             size: 1 + Math.random() * 2,
@@ -1177,12 +1343,13 @@ export class MainScene extends Phaser.Scene {
       case "hopping":
         // Dust particles on landing
         const hopPhase =
-          (this.animationTime * 3 + (org.animationPhase || 0)) % (Math.PI * 2);
+          (this.animationTime * 3 + (org.animationPhase || 0)) %
+          (Math.PI * 2);
         if (hopPhase > Math.PI - 0.2 && hopPhase < Math.PI + 0.2) {
           for (let i = 0; i < 3; i++) {
             this.particles.push({
-              x: org.x + (Math.random() - 0.5) * org.size,
-              y: org.y + org.size / 2,
+              x: x + (Math.random() - 0.5) * org.size,
+              y: y + org.size / 2,
               color: 0x8b7355,
               alpha: 0.5,
               size: 2 + Math.random() * 2,
@@ -1198,8 +1365,8 @@ export class MainScene extends Phaser.Scene {
       case "slithering":
         // Trail particles
         this.particles.push({
-          x: org.x - (Math.cos(org.direction || 0) * org.size) / 2,
-          y: org.y - (Math.sin(org.direction || 0) * org.size) / 2,
+          x: x - (Math.cos(org.direction || 0) * org.size) / 2,
+          y: y - (Math.sin(org.direction || 0) * org.size) / 2,
           color: color,
           alpha: 0.2,
           size: org.size / 4,
@@ -1367,40 +1534,17 @@ export class MainScene extends Phaser.Scene {
     }
   }
 
-  private handleReproduction(parent: Organism) {
-    // Limit total organisms for performance
-    if (this.organismData.size >= 50) return;
-
-    // Reduce parent energy
-    parent.energy -= 30;
-
-    // Create offspring
-    const offspring: Organism = {
-      ...parent,
-      id: `org-${this.nextOrganismId++}`,
-      x: parent.x + (Math.random() - 0.5) * parent.size * 3,
-      y: parent.y + (Math.random() - 0.5) * parent.size * 3,
-      energy: 50,
-      age: 0,
-      direction: Math.random() * Math.PI * 2,
-      animationPhase: Math.random() * Math.PI * 2,
-      // Slight mutation in size and speed
-      size: parent.size * (0.9 + Math.random() * 0.2),
-      speed: parent.speed * (0.9 + Math.random() * 0.2),
-      generation: (parent.generation || 1) + 1,
-    };
-
-    // Add to simulation
-    this.organismData.set(offspring.id, offspring);
+  private handleBirth(offspring: Organism) {
     const container = this.createOrganismSprite(offspring);
     this.organisms.set(offspring.id, container);
+    const { x, y } = this.toCanvas(offspring);
 
     // Birth particle effect
     for (let i = 0; i < 8; i++) {
       const angle = (i / 8) * Math.PI * 2;
       this.particles.push({
-        x: offspring.x,
-        y: offspring.y,
+        x,
+        y,
         color: Phaser.Display.Color.HexStringToColor(offspring.color).color,
         alpha: 0.8,
         size: 3,
@@ -1411,300 +1555,6 @@ export class MainScene extends Phaser.Scene {
       });
     }
   }
-
-  private calculateEnhancedMovement(org: Organism): { x: number; y: number } {
-    const speed = org.speed;
-    let dx = 0;
-    let dy = 0;
-
-    switch (org.behavior) {
-      case "passive":
-        // Random wandering with momentum
-        dx = (Math.random() - 0.5) * speed;
-        dy = (Math.random() - 0.5) * speed;
-        break;
-
-      case "aggressive":
-        // Move toward nearest prey with higher speed
-        const prey = this.findNearestPrey(org);
-        if (prey) {
-          const angle = Math.atan2(prey.y - org.y, prey.x - org.x);
-          dx = Math.cos(angle) * speed * 1.5;
-          dy = Math.sin(angle) * speed * 1.5;
-        } else {
-          dx = (Math.random() - 0.5) * speed;
-          dy = (Math.random() - 0.5) * speed;
-        }
-        break;
-
-      case "ambush":
-        // Stay still, then burst toward prey when close
-        const nearbyPrey = this.findNearestPrey(org);
-        if (nearbyPrey && this.getDistance(org, nearbyPrey) < 80) {
-          const angle = Math.atan2(nearbyPrey.y - org.y, nearbyPrey.x - org.x);
-          dx = Math.cos(angle) * speed * 2.5;
-          dy = Math.sin(angle) * speed * 2.5;
-        }
-        break;
-
-      case "territorial":
-        // Stay in area but patrol
-        const patrolAngle =
-          Math.sin(this.currentTick * 0.02 + parseInt(org.id, 36)) * Math.PI;
-        dx = Math.cos(patrolAngle) * speed * 0.5;
-        dy = Math.sin(patrolAngle) * speed * 0.5;
-        break;
-
-      case "social":
-      case "schooling":
-        // Move toward center of nearby allies, align direction
-        const allies = this.findNearbyAllies(org, 100);
-        if (allies.length > 0) {
-          let avgX = 0,
-            avgY = 0,
-            avgDx = 0,
-            avgDy = 0;
-          allies.forEach((ally) => {
-            avgX += ally.x;
-            avgY += ally.y;
-            avgDx += Math.cos(ally.direction || 0);
-            avgDy += Math.sin(ally.direction || 0);
-          });
-          avgX /= allies.length;
-          avgY /= allies.length;
-
-          // Cohesion - move toward center
-          const toCenter = Math.atan2(avgY - org.y, avgX - org.x);
-          dx = Math.cos(toCenter) * speed * 0.3;
-          dy = Math.sin(toCenter) * speed * 0.3;
-
-          // Alignment - match average direction
-          dx += (avgDx / allies.length) * speed * 0.5;
-          dy += (avgDy / allies.length) * speed * 0.5;
-
-          // Separation - avoid getting too close
-          allies.forEach((ally) => {
-            const dist = this.getDistance(org, ally);
-            if (dist < org.size * 2) {
-              const away = Math.atan2(org.y - ally.y, org.x - ally.x);
-              dx += Math.cos(away) * speed * 0.5;
-              dy += Math.sin(away) * speed * 0.5;
-            }
-          });
-        } else {
-          dx = (Math.random() - 0.5) * speed;
-          dy = (Math.random() - 0.5) * speed;
-        }
-        break;
-
-      case "grazing":
-        // Slow, steady movement with occasional direction changes
-        if (Math.random() < 0.02) {
-          org.targetX = org.x + (Math.random() - 0.5) * 200;
-          org.targetY = org.y + (Math.random() - 0.5) * 200;
-        }
-        if (org.targetX !== undefined && org.targetY !== undefined) {
-          const toTarget = Math.atan2(org.targetY - org.y, org.targetX - org.x);
-          dx = Math.cos(toTarget) * speed * 0.5;
-          dy = Math.sin(toTarget) * speed * 0.5;
-        }
-        break;
-
-      case "solitary":
-        // Move away from others
-        const nearest = this.findNearestOrganism(org);
-        if (nearest && this.getDistance(org, nearest) < 100) {
-          const angle = Math.atan2(org.y - nearest.y, org.x - nearest.x);
-          dx = Math.cos(angle) * speed;
-          dy = Math.sin(angle) * speed;
-        } else {
-          dx = (Math.random() - 0.5) * speed;
-          dy = (Math.random() - 0.5) * speed;
-        }
-        break;
-
-      case "migratory":
-        // Move in consistent direction with gradual turning
-        const migrationAngle =
-          this.currentTick * 0.005 + (parseInt(org.id, 36) % 10);
-        dx = Math.cos(migrationAngle) * speed;
-        dy = Math.sin(migrationAngle) * speed * 0.5;
-        break;
-    }
-
-    return { x: dx, y: dy };
-  }
-
-  private findNearbyAllies(org: Organism, radius: number): Organism[] {
-    const allies: Organism[] = [];
-    this.organismData.forEach((other) => {
-      if (other.id === org.id) return;
-      if (
-        other.species === org.species &&
-        this.getDistance(org, other) < radius
-      ) {
-        allies.push(other);
-      }
-    });
-    return allies;
-  }
-
-  private findNearestPrey(predator: Organism): Organism | null {
-    let nearest: Organism | null = null;
-    let minDist = Infinity;
-
-    this.organismData.forEach((org) => {
-      if (org.id === predator.id) return;
-      if (
-        predator.type === "carnivore" &&
-        (org.type === "herbivore" || org.type === "omnivore")
-      ) {
-        const dist = this.getDistance(predator, org);
-        if (dist < minDist) {
-          minDist = dist;
-          nearest = org;
-        }
-      }
-    });
-
-    return nearest;
-  }
-
-  // @ts-ignore: kept for future use
-  private findNearestAlly(org: Organism): Organism | null {
-    let nearest: Organism | null = null;
-    let minDist = Infinity;
-
-    this.organismData.forEach((other) => {
-      if (other.id === org.id) return;
-      if (other.species === org.species) {
-        const dist = this.getDistance(org, other);
-        if (dist < minDist) {
-          minDist = dist;
-          nearest = other;
-        }
-      }
-    });
-
-    return nearest;
-  }
-
-  private findNearestOrganism(org: Organism): Organism | null {
-    let nearest: Organism | null = null;
-    let minDist = Infinity;
-
-    this.organismData.forEach((other) => {
-      if (other.id === org.id) return;
-      const dist = this.getDistance(org, other);
-      if (dist < minDist) {
-        minDist = dist;
-        nearest = other;
-      }
-    });
-
-    return nearest;
-  }
-
-  private getDistance(a: Organism, b: Organism): number {
-    return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
-  }
-
-  private inferLocomotion(org: Organism): LocomotionType {
-    // Infer locomotion based on organism type and biome
-    const biome = this.worldConfig?.biome || "forest";
-
-    if (org.type === "plant") return "sessile";
-    if (org.type === "microbe") return "floating";
-
-    // Biome-specific defaults
-    if (biome === "ocean" || biome === "swamp") {
-      if (org.type === "carnivore") return "swimming";
-      if (org.type === "herbivore")
-        return Math.random() > 0.5 ? "swimming" : "floating";
-      return "swimming";
-    }
-
-    if (biome === "cave") {
-      return Math.random() > 0.5 ? "crawling" : "flying";
-    }
-
-    // Default based on behavior and type
-    if (org.behavior === "migratory")
-      return Math.random() > 0.5 ? "flying" : "walking";
-    if (org.type === "carnivore")
-      return Math.random() > 0.3 ? "walking" : "flying";
-    if (org.type === "decomposer") return "crawling";
-
-    // Random variety for others
-    const locomotions: LocomotionType[] = [
-      "walking",
-      "hopping",
-      "crawling",
-      "slithering",
-    ];
-    return locomotions[Math.floor(Math.random() * locomotions.length)];
-  }
-
-  private checkInteractions() {
-    const organisms = Array.from(this.organismData.values());
-
-    for (let i = 0; i < organisms.length; i++) {
-      for (let j = i + 1; j < organisms.length; j++) {
-        const a = organisms[i];
-        const b = organisms[j];
-        const dist = this.getDistance(a, b);
-
-        if (dist < (a.size + b.size) / 2) {
-          this.handleInteraction(a, b);
-        }
-      }
-    }
-  }
-
-  private handleInteraction(a: Organism, b: Organism) {
-    const midX = (a.x + b.x) / 2;
-    const midY = (a.y + b.y) / 2;
-
-    // Predation - carnivore attacks
-    if (
-      a.type === "carnivore" &&
-      (b.type === "herbivore" || b.type === "plant")
-    ) {
-      a.energy = Math.min(100, a.energy + 25);
-      b.energy -= 60;
-      // Attack particles
-      this.spawnInteractionParticles(midX, midY, 0xff4444, 0xffff00, "attack");
-    } else if (
-      b.type === "carnivore" &&
-      (a.type === "herbivore" || a.type === "plant")
-    ) {
-      b.energy = Math.min(100, b.energy + 25);
-      a.energy -= 60;
-      this.spawnInteractionParticles(midX, midY, 0xff4444, 0xffff00, "attack");
-    }
-
-    // Herbivore eating plants
-    else if (a.type === "herbivore" && b.type === "plant") {
-      a.energy = Math.min(100, a.energy + 15);
-      b.energy -= 25;
-      // Eating particles
-      this.spawnInteractionParticles(midX, midY, 0x90ee90, 0xffffff, "eat");
-    } else if (b.type === "herbivore" && a.type === "plant") {
-      b.energy = Math.min(100, b.energy + 15);
-      a.energy -= 25;
-      this.spawnInteractionParticles(midX, midY, 0x90ee90, 0xffffff, "eat");
-    }
-
-    // Social species grouping - energy boost when near allies
-    else if (
-      a.species === b.species &&
-      (a.behavior === "social" || a.behavior === "schooling")
-    ) {
-      a.energy = Math.min(100, a.energy + 0.5);
-      b.energy = Math.min(100, b.energy + 0.5);
-    }
-  }
-
   private spawnInteractionParticles(
     x: number,
     y: number,
@@ -1731,51 +1581,53 @@ export class MainScene extends Phaser.Scene {
     }
   }
 
-  private handleOrganismDeath(id: string) {
-    const container = this.organisms.get(id);
-    const orgData = this.organismData.get(id);
+  private handleOrganismDeath(orgData: Organism) {
+    const container = this.organisms.get(orgData.id);
+    if (!container) return;
 
-    if (container && orgData) {
-      // Death particle burst
-      const color = Phaser.Display.Color.HexStringToColor(orgData.color).color;
-      for (let i = 0; i < 12; i++) {
-        const angle = (i / 12) * Math.PI * 2;
-        this.particles.push({
-          x: container.x,
-          y: container.y,
-          color: i % 2 === 0 ? color : 0x808080,
-          alpha: 0.8,
-          size: 2 + Math.random() * 3,
-          vx: Math.cos(angle) * (1 + Math.random() * 2),
-          vy: Math.sin(angle) * (1 + Math.random() * 2),
-          life: 30,
-          maxLife: 30,
-        });
-      }
+    // The engine has already removed the organism, the sprite just fades out
+    this.organisms.delete(orgData.id);
+    container.disableInteractive();
 
-      // Fade out animation with spin
-      this.tweens.add({
-        targets: container,
-        alpha: 0,
-        scale: 0.3,
-        rotation: container.rotation + Math.PI,
-        duration: 600,
-        ease: "Power2",
-        onComplete: () => {
-          container.destroy();
-          this.organisms.delete(id);
-          this.organismData.delete(id);
-        },
+    // Death particle burst
+    const color = Phaser.Display.Color.HexStringToColor(orgData.color).color;
+    for (let i = 0; i < 12; i++) {
+      const angle = (i / 12) * Math.PI * 2;
+      this.particles.push({
+        x: container.x,
+        y: container.y,
+        color: i % 2 === 0 ? color : 0x808080,
+        alpha: 0.8,
+        size: 2 + Math.random() * 3,
+        vx: Math.cos(angle) * (1 + Math.random() * 2),
+        vy: Math.sin(angle) * (1 + Math.random() * 2),
+        life: 30,
+        maxLife: 30,
       });
     }
+
+    // Fade out animation with spin
+    this.tweens.add({
+      targets: container,
+      alpha: 0,
+      scale: 0.3,
+      rotation: container.rotation + Math.PI,
+      duration: 600,
+      ease: "Power2",
+      onComplete: () => {
+        container.destroy();
+      },
+    });
   }
 
+  // End the run now; the worker reports back with the final state
   public stopSimulation() {
-    this.isRunning = false;
-    if (this.tickTimer) {
-      this.tickTimer.destroy();
-      this.tickTimer = null;
-    }
+    this.postToWorker({ type: "stop" });
+  }
+
+  private handleComplete(state: SimulationState) {
+    // The aquarium keeps the ecosystem going, the generation's result is fixed here
+    this.finalState = state;
     // Start aquarium mode by default when simulation ends
     this.startAquariumMode();
     if (this.callbacks) {
@@ -1784,132 +1636,70 @@ export class MainScene extends Phaser.Scene {
   }
 
   public startAquariumMode() {
-    if (this.aquariumTimer) return; // Already running
+    if (this.isAquariumMode) return; // Already running
     this.isAquariumMode = true;
-    this.aquariumTimer = this.time.addEvent({
-      delay: 50,
-      callback: this.updateAquariumMode,
-      callbackScope: this,
-      loop: true,
-    });
+    this.postToWorker({ type: "resume" });
   }
 
   public stopAquariumMode() {
     this.isAquariumMode = false;
-    if (this.aquariumTimer) {
-      this.aquariumTimer.destroy();
-      this.aquariumTimer = null;
-    }
+    this.postToWorker({ type: "pause" });
   }
 
-  private updateAquariumMode() {
-    // Use canvas dimensions for bounds
-    const width = this.scale.width;
-    const height = this.scale.height;
-    const gravity = this.worldConfig?.gravity ?? 1;
-
-    // Update animation time
-    this.animationTime += 0.05;
-
-    // Just update movement and visuals, no game logic
-    this.organismData.forEach((org, id) => {
-      const container = this.organisms.get(id);
-      if (!container) return;
-
-      // Initialize runtime state if needed
-      if (org.direction === undefined)
-        org.direction = Math.random() * Math.PI * 2;
-      if (org.animationPhase === undefined)
-        org.animationPhase = Math.random() * Math.PI * 2;
-
-      org.animationPhase += 0.08;
-
-      if (org.type !== "plant" && org.locomotion !== "sessile") {
-        // Gentle movement
-        const movement = this.calculateEnhancedMovement(org);
-        const locomotionMod = this.getLocomotionModifiers(org.locomotion);
-
-        org.x += movement.x * locomotionMod.speedMult * 0.4; // Slower in aquarium mode
-        org.y += movement.y * locomotionMod.speedMult * 0.4;
-        org.y += (gravity - 1) * locomotionMod.gravityMult * 0.03;
-
-        // Update direction
-        if (Math.abs(movement.x) > 0.01 || Math.abs(movement.y) > 0.01) {
-          const targetDir = Math.atan2(movement.y, movement.x);
-          org.direction = Phaser.Math.Angle.RotateTo(
-            org.direction,
-            targetDir,
-            0.05,
-          );
-        }
-
-        // Locomotion-specific animations
-        if (org.locomotion === "flying" || org.locomotion === "gliding") {
-          org.y += Math.sin(this.animationTime * 2 + org.animationPhase) * 0.4;
-        } else if (
-          org.locomotion === "swimming" ||
-          org.locomotion === "floating"
-        ) {
-          org.y += Math.sin(this.animationTime + org.animationPhase) * 0.25;
-          org.x +=
-            Math.sin(this.animationTime * 0.5 + org.animationPhase) * 0.15;
-        }
-
-        // Clamp to boundaries
-        const padding = org.size / 2;
-        org.x = Phaser.Math.Clamp(org.x, padding, width - padding);
-        org.y = Phaser.Math.Clamp(org.y, padding, height - padding);
-
-        // Smooth position update
-        container.x = Phaser.Math.Linear(container.x, org.x, 0.08);
-        container.y = Phaser.Math.Linear(container.y, org.y, 0.08);
+  public pauseSimulation() {
+    this.postToWorker({ type: "pause" });
+  }
 
-        // Apply rotation
-        if (org.type !== "decomposer" && org.type !== "microbe") {
-          container.rotation = Phaser.Math.Linear(
-            container.rotation,
-            org.direction,
-            0.05,
-          );
-        }
+  public resumeSimulation() {
+    this.postToWorker({ type: "resume" });
+  }
 
-        // Idle animation
-        const pulseScale = 1 + Math.sin(org.animationPhase) * 0.04;
-        container.setScale(pulseScale);
+  public setSpeed(speed: SimulationSpeed) {
+    this.speed = speed;
+    this.postToWorker({ type: "speed", speed });
+  }
 
-        container.setDepth(100 + Math.floor(container.y));
+  // Finish the run at once; only the final state is drawn
+  public skipToEnd() {
+    this.postToWorker({ type: "skip" });
+  }
 
-        // Occasional particles in aquarium mode
-        if (Math.random() < 0.1) {
-          this.spawnLocomotionParticles(org);
-        }
-      } else {
-        // Plants sway
-        const sway =
-          Math.sin(this.animationTime * 0.7 + org.animationPhase) * 0.04;
-        container.rotation = sway;
-        const pulseScale = 1 + Math.sin(org.animationPhase * 0.3) * 0.02;
-        container.setScale(pulseScale);
-      }
-    });
+  public getOrganisms(): Organism[] {
+    return (
+      this.finalState?.organisms ??
+      Array.from(this.organismData.values(), (org) => ({ ...org }))
+    );
+  }
 
-    // Update particles
-    this.updateParticles();
+  // The world with the compounds as the run has changed them
+  public getWorld(): WorldConfig | null {
+    if (this.finalState) return this.finalState.world;
+    if (!this.worldConfig || !this.compounds) return this.worldConfig;
+    return { ...this.worldConfig, compounds: this.compounds };
   }
 
-  public pauseSimulation() {
-    this.isRunning = false;
+  // Engine bookkeeping for the run so far, fixed once it completes
+  public getStats(): SimulationStats | null {
+    return this.finalState?.statistics ?? this.stats;
   }
 
-  public resumeSimulation() {
-    this.isRunning = true;
+  // Notable events of the run so far
+  public getEvents(): SimulationEvent[] {
+    return this.finalState?.events ?? [...this.runEvents];
   }
 
-  public getOrganisms(): Organism[] {
-    return Array.from(this.organismData.values());
+  // Population over the run so far, the full generation once it completes
+  public getTimeSeries(): TimeSeries {
+    return (
+      this.finalState?.timeSeries ?? {
+        generation: this.generation,
+        interval: this.sampleInterval,
+        samples: [...this.samples],
+      }
+    );
   }
 
   public getCurrentTick(): number {
-    return this.currentTick;
+    return this.finalState?.tick ?? this.currentTick;
   }
 }
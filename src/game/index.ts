@@ -1,6 +1,6 @@
 import Phaser from 'phaser';
 import { MainScene, TextureConfig, FallbackTextureConfig, ImageTextureConfig, SimulationCallbacks } from './MainScene';
-import { Organism, WorldConfig } from '@/types';
+import { Organism, SimulationEvent, SimulationSpeed, SimulationStats, TimeSeries, WorldConfig } from '@/types';
 
 export type { TextureConfig, FallbackTextureConfig, ImageTextureConfig };
 
@@ -49,6 +49,8 @@ export class PetridiseGame {
     organisms: Organism[],
     texture: TextureConfig,
     maxTicks: number,
+    seed: number,
+    generation: number,
     callbacks: SimulationCallbacks
   ) {
     const sceneData = {
@@ -56,6 +58,8 @@ export class PetridiseGame {
       organisms,
       texture,
       maxTicks,
+      seed,
+      generation,
       callbacks
     };
 
@@ -81,10 +85,34 @@ export class PetridiseGame {
     this.scene?.stopSimulation();
   }
 
+  setSpeed(speed: SimulationSpeed) {
+    this.scene?.setSpeed(speed);
+  }
+
+  skipToEnd() {
+    this.scene?.skipToEnd();
+  }
+
   getOrganisms(): Organism[] {
     return this.scene?.getOrganisms() || [];
   }
 
+  getWorld(): WorldConfig | null {
+    return this.scene?.getWorld() ?? null;
+  }
+
+  getStats(): SimulationStats | null {
+    return this.scene?.getStats() ?? null;
+  }
+
+  getEvents(): SimulationEvent[] {
+    return this.scene?.getEvents() ?? [];
+  }
+
+  getTimeSeries(): TimeSeries | null {
+    return this.scene?.getTimeSeries() ?? null;
+  }
+
   getCurrentTick(): number {
     return this.scene?.getCurrentTick() || 0;
   }
@@ -0,0 +1,64 @@
+import { GenerationPreview, GenerationProgress } from '@/types';
+import { isEventStream, readEventStream } from '@/utils/eventStream';
+
+export function createPreview(): GenerationPreview {
+  return { attempt: 1, received: 0, organisms: [] };
+}
+
+// The preview after one more step. A new attempt starts it over
+export function applyProgress(preview: GenerationPreview, progress: GenerationProgress): GenerationPreview {
+  switch (progress.stage) {
+    case 'prompt-sent':
+      return { ...createPreview(), stage: progress.stage, attempt: progress.attempt };
+    case 'tokens':
+      return {
+        ...preview,
+        stage: preview.stage === 'prompt-sent' ? progress.stage : preview.stage,
+        received: progress.received
+      };
+    case 'world':
+      return { ...preview, stage: progress.stage, world: progress.world };
+    case 'organism':
+      return { ...preview, stage: progress.stage, organisms: [...preview.organisms, progress.organism] };
+    default:
+      return { ...preview, stage: progress.stage };
+  }
+}
+
+/**
+ * POST to a route that can stream its progress, handing each step to
+ * `onProgress` and resolving with the result. Servers that answer with
+ * plain JSON instead work the same, just without progress.
+ */
+export async function postWithProgress<T>(
+  url: string,
+  body: object,
+  headers: Record<string, string>,
+  onProgress: (progress: GenerationProgress) => void,
+  failure: string
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { ...headers, Accept: 'text/event-stream, application/json' },
+    body: JSON.stringify(body)
+  });
+
+  if (!isEventStream(response)) {
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || failure);
+    }
+    return response.json();
+  }
+
+  let result: T | undefined;
+  let error = failure;
+  await readEventStream(response, ({ event, data }) => {
+    if (event === 'progress') onProgress(JSON.parse(data));
+    else if (event === 'result') result = JSON.parse(data);
+    else if (event === 'error') error = JSON.parse(data).error || failure;
+  });
+  // A stream that ended without a result was cut off or failed
+  if (result === undefined) throw new Error(error);
+  return result;
+}
@@ -1,2 +1,11 @@
-export { useSimulation } from './useSimulation';
+export { useSimulation, getApiHeaders } from './useSimulation';
 export type { ApiDebugData } from './useSimulation';
+export { parseWorldFile, collectTimeSeries } from './worldFile';
+export {
+  listWorlds,
+  renameWorld,
+  duplicateWorld,
+  deleteWorld,
+  getImage,
+  putImage
+} from './worldStore';
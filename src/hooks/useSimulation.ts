@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   SimulationStatus,
   WorldConfig,
@@ -8,11 +8,32 @@ import {
   ConfigFormState,
   GenerateWorldResponse,
   EvolveResponse,
-  ExportedWorld
+  EvolutionMode,
+  ExportedWorld,
+  GenerationPreview,
+  GenerationProgress,
+  TimeSeries,
+  GenerationRecord,
+  Branch,
+  ForkOptions
 } from '@/types';
 import { TextureConfig, FallbackTextureConfig } from '@/game';
+import { generateSeed } from '@/utils';
+import { buildLineage, evolveByRules } from '@/engine';
+import {
+  EXPORT_VERSION,
+  MAIN_BRANCH_NAME,
+  collectTimeSeries,
+  createBranch,
+  migrateExport,
+  parseWorldFile
+} from './worldFile';
+import { applyProgress, createPreview, postWithProgress } from './generationStream';
+import { createWorldId, loadWorld, saveWorld } from './worldStore';
 
 const STORAGE_KEY_API_KEY = 'petridise_gemini_api_key';
+const STORAGE_KEY_EVOLUTION_MODE = 'petridise_evolution_mode';
+const EVOLUTION_MODES: EvolutionMode[] = ['ai', 'rules', 'hybrid'];
 
 const DEFAULT_STATS: SimulationStats = {
   totalOrganisms: 0,
@@ -31,23 +52,51 @@ export interface ApiDebugData {
   timestamp: Date;
 }
 
+// JSON headers for the API, with the user's own Gemini key when one is set
+export function getApiHeaders(apiKey = localStorage.getItem(STORAGE_KEY_API_KEY)): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['X-Gemini-Api-Key'] = apiKey;
+  }
+  return headers;
+}
+
 export function useSimulation() {
   const [status, setStatus] = useState<SimulationStatus>('configuring');
   const [isGenerating, setIsGenerating] = useState(false);
   const [isEvolving, setIsEvolving] = useState(false);
+  const [preview, setPreview] = useState<GenerationPreview | null>(null); // What has streamed in so far
   const [generation, setGeneration] = useState(1);
   const [world, setWorld] = useState<WorldConfig | null>(null);
   const [organisms, setOrganisms] = useState<Organism[]>([]);
   const [events, setEvents] = useState<SimulationEvent[]>([]);
   const [stats, setStats] = useState<SimulationStats>(DEFAULT_STATS);
+  const [timeSeries, setTimeSeries] = useState<TimeSeries[]>([]); // One per completed generation
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [activeBranchId, setActiveBranchId] = useState('');
+  const [worldId, setWorldId] = useState<string | null>(null); // Where the world is saved in the library
+  const resumedBranches = useRef<Branch[] | null>(null); // As loaded from the library, no need to save them back
   const [texture, setTexture] = useState<TextureConfig | null>(null);
   const [narrative, setNarrative] = useState('');
   const [maxTicks, setMaxTicks] = useState(600);
+  const [seed, setSeed] = useState(() => generateSeed());
   const [error, setError] = useState<string | null>(null);
   const [evolveResult, setEvolveResult] = useState<EvolveResponse | null>(null);
   const [apiDebugHistory, setApiDebugHistory] = useState<ApiDebugData[]>([]);
   const [realOrganismsOnly, setRealOrganismsOnly] = useState(false);
   const [userApiKey, setUserApiKey] = useState<string>('');
+  const [evolutionMode, setEvolutionMode] = useState<EvolutionMode>('ai');
+
+  // The state above describes the latest generation of the active branch
+  const activeBranch = branches.find(branch => branch.id === activeBranchId);
+  const history = useMemo(() => activeBranch?.history ?? [], [activeBranch]);
+  const lineage = useMemo(() => buildLineage(history), [history]);
+
+  const updateHistory = useCallback((update: (history: GenerationRecord[]) => GenerationRecord[]) => {
+    setBranches(prev => prev.map(branch =>
+      branch.id === activeBranchId ? { ...branch, history: update(branch.history) } : branch
+    ));
+  }, [activeBranchId]);
 
   // Load API key from localStorage on mount
   useEffect(() => {
@@ -57,6 +106,19 @@ export function useSimulation() {
     }
   }, []);
 
+  // Load the evolution mode last picked
+  useEffect(() => {
+    const storedMode = localStorage.getItem(STORAGE_KEY_EVOLUTION_MODE) as EvolutionMode | null;
+    if (storedMode && EVOLUTION_MODES.includes(storedMode)) {
+      setEvolutionMode(storedMode);
+    }
+  }, []);
+
+  const updateEvolutionMode = useCallback((mode: EvolutionMode) => {
+    setEvolutionMode(mode);
+    localStorage.setItem(STORAGE_KEY_EVOLUTION_MODE, mode);
+  }, []);
+
   // Save API key to localStorage when changed
   const updateApiKey = useCallback((key: string) => {
     setUserApiKey(key);
@@ -68,13 +130,7 @@ export function useSimulation() {
   }, []);
 
   // Helper to get headers with API key
-  const getApiHeaders = useCallback(() => {
-    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-    if (userApiKey) {
-      headers['X-Gemini-Api-Key'] = userApiKey;
-    }
-    return headers;
-  }, [userApiKey]);
+  const getHeaders = useCallback(() => getApiHeaders(userApiKey), [userApiKey]);
 
   const addDebugEntry = (entry: ApiDebugData) => {
     setApiDebugHistory(prev => [...prev, entry]);
@@ -84,9 +140,14 @@ export function useSimulation() {
     setApiDebugHistory([]);
   };
 
+  const showProgress = useCallback((progress: GenerationProgress) => {
+    setPreview(prev => applyProgress(prev ?? createPreview(), progress));
+  }, []);
+
   const generateWorld = useCallback(async (config: ConfigFormState) => {
     setStatus('generating');
     setIsGenerating(true);
+    setPreview(createPreview());
     setError(null);
 
     const requestBody = {
@@ -96,19 +157,14 @@ export function useSimulation() {
     };
 
     try {
-      // Generate world
-      const worldResponse = await fetch('/api/generate-world', {
-        method: 'POST',
-        headers: getApiHeaders(),
-        body: JSON.stringify(requestBody)
-      });
-
-      if (!worldResponse.ok) {
-        const errorData = await worldResponse.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to generate world');
-      }
-
-      const worldData: GenerateWorldResponse = await worldResponse.json();
+      // Generate world, showing it on the generating screen as it streams in
+      const worldData = await postWithProgress<GenerateWorldResponse>(
+        '/api/generate-world',
+        requestBody,
+        getHeaders(),
+        showProgress,
+        'Failed to generate world'
+      );
 
       // Log debug data
       addDebugEntry({
@@ -124,9 +180,10 @@ export function useSimulation() {
         world: worldData.world
       };
 
+      showProgress({ stage: 'texture-started' });
       const textureResponse = await fetch('/api/generate-texture', {
         method: 'POST',
-        headers: getApiHeaders(),
+        headers: getHeaders(),
         body: JSON.stringify(textureRequestBody)
       });
 
@@ -149,15 +206,34 @@ export function useSimulation() {
           timestamp: new Date()
         });
       }
+      showProgress({ stage: 'texture-finished' });
 
       // Set state
-      setWorld(worldData.world);
+      const initialWorld: WorldConfig = {
+        ...worldData.world,
+        carryingCapacity: config.carryingCapacity,
+        mutation: config.mutation
+      };
+      const worldSeed = config.seed ?? generateSeed();
+      setWorld(initialWorld);
       setOrganisms(worldData.organisms);
       setTexture(textureData);
       setNarrative(worldData.narrative || 'A new world emerges...');
       setMaxTicks(config.simulationDuration * 20);
+      setSeed(worldSeed);
       setGeneration(1);
       setEvents([]);
+      setTimeSeries([]);
+      const mainBranch = createBranch(MAIN_BRANCH_NAME, [{
+        generation: 1,
+        seed: worldSeed,
+        world: initialWorld,
+        organisms: worldData.organisms,
+        narrative: worldData.narrative || 'A new world emerges...'
+      }]);
+      setBranches([mainBranch]);
+      setActiveBranchId(mainBranch.id);
+      setWorldId(createWorldId());
       setStats({
         ...DEFAULT_STATS,
         totalOrganisms: worldData.organisms.length
@@ -166,20 +242,23 @@ export function useSimulation() {
       setRealOrganismsOnly(config.realOrganismsOnly);
       setStatus('running');
       setIsGenerating(false);
+      setPreview(null);
 
     } catch (err) {
       console.error('Error generating world:', err);
       setError(err instanceof Error ? err.message : 'Failed to generate world');
       setStatus('configuring');
       setIsGenerating(false);
+      setPreview(null);
     }
-  }, [getApiHeaders]);
+  }, [getHeaders, showProgress]);
 
   const evolve = useCallback(async () => {
     if (!world) return;
 
     setStatus('evolving');
     setIsEvolving(true);
+    setPreview(createPreview());
     setError(null);
 
     const evolveRequestBody = {
@@ -188,30 +267,54 @@ export function useSimulation() {
       organisms,
       events,
       statistics: stats,
-      realOrganismsOnly
+      timeSeries: timeSeries.find(series => series.generation === generation),
+      realOrganismsOnly,
+      temperature: activeBranch?.aiTemperature
     };
 
-    try {
-      const response = await fetch('/api/evolve', {
-        method: 'POST',
-        headers: getApiHeaders(),
-        body: JSON.stringify(evolveRequestBody)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to evolve world');
-      }
-
-      const evolveData: EvolveResponse = await response.json();
+    const requestEvolve = async (body: object): Promise<EvolveResponse> => {
+      const evolveData = await postWithProgress<EvolveResponse>(
+        '/api/evolve',
+        body,
+        getHeaders(),
+        showProgress,
+        'Failed to evolve world'
+      );
 
       // Log debug data
       addDebugEntry({
         type: 'evolve',
-        request: evolveRequestBody,
+        request: body,
         response: evolveData,
         timestamp: new Date()
       });
+      return evolveData;
+    };
+
+    try {
+      let evolveData: EvolveResponse;
+      if (evolutionMode === 'ai') {
+        evolveData = await requestEvolve(evolveRequestBody);
+      } else {
+        // The rules decide what happens, in hybrid mode the AI then names and narrates it
+        const outcome = evolveByRules({
+          generation,
+          seed,
+          world,
+          founders: history.find(record => record.generation === generation)?.organisms ?? [],
+          survivors: organisms,
+          statistics: stats,
+          timeSeries: evolveRequestBody.timeSeries
+        });
+        evolveData = outcome;
+        if (evolutionMode === 'hybrid') {
+          try {
+            evolveData = await requestEvolve({ ...evolveRequestBody, outcome });
+          } catch (err) {
+            console.warn('AI could not narrate the evolution, keeping the rules\' account:', err);
+          }
+        }
+      }
       
       setEvolveResult(evolveData);
       
@@ -220,6 +323,20 @@ export function useSimulation() {
         setWorld(prev => prev ? { ...prev, ...evolveData.worldChanges } : null);
       }
 
+      updateHistory(prev => [
+        ...updateRecord(prev, generation, {
+          worldChanges: evolveData.worldChanges,
+          evolutionEvents: evolveData.events
+        }),
+        {
+          generation: generation + 1,
+          seed,
+          world: { ...world, ...evolveData.worldChanges },
+          organisms: evolveData.organisms,
+          narrative: evolveData.narrative
+        }
+      ]);
+
       // Update organisms for next run
       setOrganisms(evolveData.organisms);
       setEvents(evolveData.events);
@@ -230,13 +347,15 @@ export function useSimulation() {
         totalOrganisms: evolveData.organisms.length
       }));
       setIsEvolving(false);
+      setPreview(null);
 
     } catch (err) {
       console.error('Error evolving:', err);
       setError(err instanceof Error ? err.message : 'Failed to evolve');
       setIsEvolving(false);
+      setPreview(null);
     }
-  }, [world, generation, organisms, events, stats, getApiHeaders]);
+  }, [world, generation, seed, organisms, events, stats, timeSeries, history, activeBranch, evolutionMode, updateHistory, getHeaders, showProgress]);
 
   const continueSimulation = useCallback(async () => {
     if (!evolveResult) {
@@ -247,12 +366,92 @@ export function useSimulation() {
     setEvolveResult(null);
   }, [evolve, evolveResult]);
 
-  const completeRun = useCallback((finalOrganisms: Organism[], finalStats: SimulationStats) => {
+  const completeRun = useCallback((
+    finalOrganisms: Organism[],
+    finalStats: SimulationStats,
+    finalWorld?: WorldConfig,
+    finalTimeSeries?: TimeSeries | null,
+    runEvents?: SimulationEvent[]
+  ) => {
     setOrganisms(finalOrganisms);
+    // What happened during the run, until evolving replaces it with the AI's account
+    if (runEvents) setEvents(runEvents);
+    if (finalWorld) setWorld(finalWorld);
+    if (finalTimeSeries) {
+      // Replaces an earlier series if the same generation is run again
+      setTimeSeries(prev => [
+        ...prev.filter(series => series.generation !== generation),
+        finalTimeSeries
+      ]);
+    }
     setStats(finalStats);
+    updateHistory(prev => updateRecord(prev, generation, {
+      survivors: finalOrganisms,
+      events: runEvents,
+      stats: finalStats,
+      timeSeries: finalTimeSeries ?? undefined
+    }));
     setStatus('completed');
+  }, [generation, updateHistory]);
+
+  // Make a branch active and pick up where its latest generation left off
+  const showBranch = useCallback((branch: Branch) => {
+    const record = branch.history[branch.history.length - 1];
+    setActiveBranchId(branch.id);
+    setGeneration(record.generation);
+    if (record.world) setWorld(record.world);
+    if (record.seed !== undefined) setSeed(record.seed);
+    setNarrative(record.narrative || '');
+    setTimeSeries(collectTimeSeries(branch.history));
+    setEvolveResult(null);
+    setError(null);
+
+    if (record.survivors) {
+      setOrganisms(record.survivors);
+      setEvents(record.events || []);
+      setStats(record.stats || { ...DEFAULT_STATS, totalOrganisms: record.survivors.length });
+      setStatus('completed');
+    } else {
+      // Not run yet, so run it
+      setOrganisms(record.organisms || []);
+      setEvents([]);
+      setStats({ ...DEFAULT_STATS, totalOrganisms: record.organisms?.length || 0 });
+      setStatus('running');
+    }
   }, []);
 
+  const switchBranch = useCallback((id: string) => {
+    const branch = branches.find(candidate => candidate.id === id);
+    if (branch) showBranch(branch);
+  }, [branches, showBranch]);
+
+  // Fork the active branch at a past generation and run the fork from there
+  const forkBranch = useCallback((options: ForkOptions) => {
+    const source = history.find(record => record.generation === options.generation);
+    if (!source?.world || !source.organisms) {
+      setError(`Generation ${options.generation} cannot be forked, its starting population was not saved`);
+      return;
+    }
+
+    const branch: Branch = {
+      ...createBranch(options.name, [
+        ...history.filter(record => record.generation < options.generation),
+        {
+          generation: options.generation,
+          seed: options.seed,
+          world: { ...source.world, ...options.worldChanges },
+          organisms: source.organisms,
+          narrative: source.narrative
+        }
+      ]),
+      parentId: activeBranchId,
+      forkGeneration: options.generation,
+      aiTemperature: options.aiTemperature
+    };
+    setBranches(prev => [...prev, branch]);
+    showBranch(branch);
+  }, [history, activeBranchId, showBranch]);
+
   const reset = useCallback(() => {
     setStatus('configuring');
     setGeneration(1);
@@ -260,6 +459,10 @@ export function useSimulation() {
     setOrganisms([]);
     setEvents([]);
     setStats(DEFAULT_STATS);
+    setTimeSeries([]);
+    setBranches([]);
+    setActiveBranchId('');
+    setWorldId(null);
     setTexture(null);
     setNarrative('');
     setError(null);
@@ -274,18 +477,33 @@ export function useSimulation() {
     if (!world) return null;
     
     const exportData: ExportedWorld = {
-      version: '1.0',
+      version: EXPORT_VERSION,
       exportedAt: new Date().toISOString(),
       generation,
+      seed,
       world,
       organisms,
       events,
       stats,
-      narrative
+      narrative,
+      lineage,
+      branches,
+      activeBranch: activeBranchId
     };
     
     return exportData;
-  }, [world, generation, organisms, events, stats, narrative]);
+  }, [world, generation, seed, organisms, events, stats, narrative, lineage, branches, activeBranchId]);
+
+  // Autosave whenever the world or its texture changes, such as when a
+  // world is created, a run completes, a generation evolves or a branch is forked
+  useEffect(() => {
+    if (!worldId || branches === resumedBranches.current) return;
+    const data = exportWorld();
+    if (!data) return;
+    saveWorld(worldId, data, texture ?? undefined).catch(err => {
+      console.warn('Could not save world:', err);
+    });
+  }, [branches, worldId, exportWorld, texture]);
 
   // Download world as JSON file
   const downloadWorld = useCallback(() => {
@@ -303,26 +521,38 @@ export function useSimulation() {
     URL.revokeObjectURL(url);
   }, [exportWorld]);
 
+  // Load an imported or saved world and pick up where its active timeline left off
+  const restoreWorld = useCallback((data: ExportedWorld, worldTexture: TextureConfig, id: string) => {
+    const restoredBranches = data.branches || [];
+    const active = restoredBranches.find(branch => branch.id === data.activeBranch) ?? restoredBranches[0];
+
+    setWorldId(id);
+    setTexture(worldTexture);
+    setBranches(restoredBranches);
+    setMaxTicks(600); // Default simulation duration
+    setRealOrganismsOnly(false);
+    setIsGenerating(false);
+    if (active) {
+      showBranch(active);
+      return;
+    }
+
+    setWorld(data.world);
+    setOrganisms(data.organisms);
+    setEvents(data.events || []);
+    setTimeSeries([]);
+    setStats(data.stats || { ...DEFAULT_STATS, totalOrganisms: data.organisms.length });
+    setNarrative(data.narrative || 'Imported world');
+    setGeneration(data.generation || 1);
+    setSeed(data.seed ?? generateSeed());
+    setError(null);
+    setStatus('running');
+  }, [showBranch]);
+
   // Import world from JSON
   const importWorld = useCallback(async (file: File): Promise<boolean> => {
     try {
-      const text = await file.text();
-      const data: ExportedWorld = JSON.parse(text);
-      
-      // Validate the imported data
-      if (!data.version || !data.world || !data.organisms) {
-        throw new Error('Invalid world file format');
-      }
-      
-      // Set all the state
-      setWorld(data.world);
-      setOrganisms(data.organisms);
-      setEvents(data.events || []);
-      setStats(data.stats || { ...DEFAULT_STATS, totalOrganisms: data.organisms.length });
-      setNarrative(data.narrative || 'Imported world');
-      setGeneration(data.generation || 1);
-      setMaxTicks(600); // Default simulation duration
-      setRealOrganismsOnly(false);
+      const data = parseWorldFile(await file.text());
       
       // Generate texture for the imported world
       setStatus('generating');
@@ -335,7 +565,7 @@ export function useSimulation() {
 
       const textureResponse = await fetch('/api/generate-texture', {
         method: 'POST',
-        headers: getApiHeaders(),
+        headers: getHeaders(),
         body: JSON.stringify(textureRequestBody)
       });
 
@@ -346,50 +576,88 @@ export function useSimulation() {
         textureData = getDefaultTexture(data.world.biome);
       }
 
-      setTexture(textureData);
-      setStatus('running');
-      setIsGenerating(false);
-      setError(null);
-      
+      // Imports go into the library as a world of their own
+      restoreWorld(data, textureData, createWorldId());
       return true;
     } catch (err) {
       console.error('Error importing world:', err);
       setError(err instanceof Error ? err.message : 'Failed to import world');
       return false;
     }
-  }, [getApiHeaders]);
+  }, [getHeaders, restoreWorld]);
+
+  // Resume a world from the library
+  const resumeWorld = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const stored = await loadWorld(id);
+      if (!stored) {
+        throw new Error('Saved world not found');
+      }
+      const data = migrateExport(stored.data);
+      resumedBranches.current = data.branches ?? null;
+      restoreWorld(data, stored.texture ?? getDefaultTexture(data.world.biome), id);
+      return true;
+    } catch (err) {
+      console.error('Error resuming world:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resume world');
+      return false;
+    }
+  }, [restoreWorld]);
 
   return {
     // State
     status,
     isGenerating,
     isEvolving,
+    preview,
     generation,
     world,
     organisms,
     events,
     stats,
+    timeSeries,
+    lineage,
+    history,
+    branches,
+    activeBranchId,
     texture,
     narrative,
     maxTicks,
+    seed,
     error,
     evolveResult,
     apiDebugHistory,
     userApiKey,
+    evolutionMode,
     // Actions
     generateWorld,
     evolve,
     continueSimulation,
     completeRun,
+    forkBranch,
+    switchBranch,
     reset,
     clearDebugHistory,
     updateApiKey,
+    updateEvolutionMode,
     exportWorld,
     downloadWorld,
-    importWorld
+    importWorld,
+    resumeWorld
   };
 }
 
+// Merge what became known about a generation into its record
+function updateRecord(
+  history: GenerationRecord[],
+  generation: number,
+  changes: Partial<GenerationRecord>
+): GenerationRecord[] {
+  return history.map(record =>
+    record.generation === generation ? { ...record, ...changes } : record
+  );
+}
+
 function getDefaultTexture(biome: string): FallbackTextureConfig {
   const textures: Record<string, FallbackTextureConfig> = {
     ocean: {
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { ExportedWorld, SimulationStats, TimeSeries, WorldConfig } from '@/types';
+import { EXPORT_VERSION, MAIN_BRANCH_NAME, migrateExport, parseWorldFile } from './worldFile';
+
+const WORLD: WorldConfig = {
+  name: 'Test Dish',
+  width: 800,
+  height: 600,
+  gravity: 1,
+  temperature: 20,
+  humidity: 50,
+  compounds: { oxygen: 50, water: 50, nitrogen: 50, carbon: 50, minerals: 50 },
+  biome: 'grassland'
+};
+
+const STATS: SimulationStats = {
+  totalOrganisms: 0,
+  births: 0,
+  deaths: 0,
+  extinctions: [],
+  newSpecies: [],
+  dominantSpecies: '',
+  biodiversityIndex: 0
+};
+
+const series = (generation: number): TimeSeries => ({ generation, interval: 10, samples: [] });
+
+// A 1.0 export three generations in, with the time series of each
+const V1_FILE: ExportedWorld = {
+  version: '1.0',
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  generation: 3,
+  world: WORLD,
+  organisms: [],
+  events: [],
+  stats: STATS,
+  narrative: 'Moss spreads.',
+  timeSeries: [series(3), series(1), series(2)]
+};
+
+describe('migrateExport', () => {
+  it('rebuilds the history of a 1.0 file from its time series', () => {
+    const migrated = migrateExport(V1_FILE);
+    const [main] = migrated.branches!;
+
+    expect(migrated.timeSeries).toBeUndefined();
+    expect(main.history.map(record => record.generation)).toEqual([1, 2, 3]);
+    expect(main.history[0]).toEqual({ generation: 1, timeSeries: series(1) });
+    expect(main.history[2]).toMatchObject({ world: WORLD, narrative: 'Moss spreads.', timeSeries: series(3) });
+  });
+
+  it('makes the single timeline of a 2.0 file its main branch', () => {
+    const history = [{ generation: 1, world: WORLD }];
+    const migrated = migrateExport({ ...V1_FILE, version: '2.0', timeSeries: undefined, history });
+
+    expect(migrated).toMatchObject({ version: EXPORT_VERSION, activeBranch: migrated.branches![0].id });
+    expect(migrated.history).toBeUndefined();
+    expect(migrated.branches).toEqual([
+      expect.objectContaining({ name: MAIN_BRANCH_NAME, createdAt: V1_FILE.exportedAt, history })
+    ]);
+  });
+
+  it('leaves current files alone', () => {
+    const current = migrateExport(V1_FILE);
+    expect(migrateExport(current)).toBe(current);
+  });
+});
+
+describe('parseWorldFile', () => {
+  it('migrates what it reads', () => {
+    expect(parseWorldFile(JSON.stringify(V1_FILE)).version).toBe(EXPORT_VERSION);
+  });
+
+  it('rejects files that are not worlds', () => {
+    expect(() => parseWorldFile(JSON.stringify({ version: '2.1' }))).toThrow('Invalid world file format');
+  });
+});
@@ -0,0 +1,69 @@
+import { Branch, ExportedWorld, GenerationRecord, TimeSeries } from '@/types';
+import { generateId } from '@/utils';
+
+// World file format written by exportWorld, older files are migrated on import
+export const EXPORT_VERSION = '2.1';
+
+export const MAIN_BRANCH_NAME = 'Main timeline';
+
+// Every recorded time series of a branch, oldest first
+export function collectTimeSeries(history: GenerationRecord[]): TimeSeries[] {
+  return history.flatMap(record => record.timeSeries ? [record.timeSeries] : []);
+}
+
+export function createBranch(name: string, history: GenerationRecord[]): Branch {
+  return {
+    id: `branch-${generateId()}`,
+    name,
+    createdAt: new Date().toISOString(),
+    history
+  };
+}
+
+// Read an exported world, throwing on anything that is not one
+export function parseWorldFile(text: string): ExportedWorld {
+  const data: ExportedWorld = JSON.parse(text);
+  if (!data.version || !data.world || !data.organisms) {
+    throw new Error('Invalid world file format');
+  }
+  return migrateExport(data);
+}
+
+// Bring a world up to the current format, one version at a time
+export function migrateExport(data: ExportedWorld): ExportedWorld {
+  let migrated = data;
+  if (migrated.version === '1.0') migrated = migrateFromV1(migrated);
+  if (migrated.version === '2.0') migrated = migrateFromV2(migrated);
+  return migrated;
+}
+
+/**
+ * 1.0 files kept only the current generation plus a time series per
+ * generation, so earlier generations come back with just their series.
+ */
+function migrateFromV1(data: ExportedWorld): ExportedWorld {
+  const { timeSeries = [], ...rest } = data;
+  const current: GenerationRecord = {
+    generation: data.generation || 1,
+    seed: data.seed,
+    world: data.world,
+    organisms: data.organisms,
+    narrative: data.narrative,
+    events: data.events,
+    stats: data.stats,
+    timeSeries: timeSeries.find(series => series.generation === data.generation)
+  };
+  const earlier: GenerationRecord[] = timeSeries
+    .filter(series => series.generation < current.generation)
+    .sort((a, b) => a.generation - b.generation)
+    .map(series => ({ generation: series.generation, timeSeries: series }));
+
+  return { ...rest, version: '2.0', history: [...earlier, current] };
+}
+
+// 2.0 files had a single timeline, which becomes the main branch
+function migrateFromV2(data: ExportedWorld): ExportedWorld {
+  const { history = [], ...rest } = data;
+  const main = { ...createBranch(MAIN_BRANCH_NAME, history), createdAt: data.exportedAt };
+  return { ...rest, version: '2.1', branches: [main], activeBranch: main.id };
+}
@@ -0,0 +1,167 @@
+import { ExportedWorld, SavedWorldSummary } from '@/types';
+import type { TextureConfig } from '@/game';
+import { compressImageForStorage, generateId } from '@/utils';
+
+const DB_NAME = 'petridise';
+const DB_VERSION = 1;
+
+// Summaries are listed often, the worlds behind them only loaded to resume
+const LIBRARY_STORE = 'library';
+const WORLD_STORE = 'worlds';
+// Generated world images and organism portraits, by cache key
+const IMAGE_STORE = 'images';
+
+export interface StoredWorld {
+  id: string;
+  data: ExportedWorld;
+  texture?: TextureConfig;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+        db.createObjectStore(WORLD_STORE, { keyPath: 'id' });
+        db.createObjectStore(IMAGE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Let the next call try again
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+}
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function whenDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function read<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  return toPromise(db.transaction(store).objectStore(store).get(key));
+}
+
+// A summary and its world are always written and deleted together
+async function writeWorld(summary: SavedWorldSummary, world: StoredWorld): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([LIBRARY_STORE, WORLD_STORE], 'readwrite');
+  transaction.objectStore(LIBRARY_STORE).put(summary);
+  transaction.objectStore(WORLD_STORE).put(world);
+  return whenDone(transaction);
+}
+
+// Saved worlds, most recently changed first
+export async function listWorlds(): Promise<SavedWorldSummary[]> {
+  const db = await openDatabase();
+  const summaries: SavedWorldSummary[] = await toPromise(
+    db.transaction(LIBRARY_STORE).objectStore(LIBRARY_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Save a world under `id`, replacing what was saved there before. A name
+ * the world was given in the library is kept.
+ */
+export async function saveWorld(id: string, data: ExportedWorld, texture?: TextureConfig): Promise<void> {
+  const existing = await read<SavedWorldSummary>(LIBRARY_STORE, id);
+  const now = new Date().toISOString();
+  const active = data.branches?.find(branch => branch.id === data.activeBranch);
+
+  const summary: SavedWorldSummary = {
+    id,
+    name: existing?.name ?? data.world.name,
+    biome: data.world.biome,
+    generation: active?.history[active.history.length - 1]?.generation ?? data.generation,
+    branchCount: data.branches?.length ?? 1,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    // The background never changes, so its thumbnail is only made once
+    thumbnail: existing?.thumbnail ?? await makeThumbnail(texture),
+    palette: texture?.type === 'fallback' ? texture.gradientColors : undefined
+  };
+  return writeWorld(summary, { id, data, texture });
+}
+
+export function loadWorld(id: string): Promise<StoredWorld | undefined> {
+  return read<StoredWorld>(WORLD_STORE, id);
+}
+
+export async function renameWorld(id: string, name: string): Promise<void> {
+  const summary = await read<SavedWorldSummary>(LIBRARY_STORE, id);
+  if (!summary) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(LIBRARY_STORE, 'readwrite');
+  transaction.objectStore(LIBRARY_STORE).put({ ...summary, name, updatedAt: new Date().toISOString() });
+  return whenDone(transaction);
+}
+
+export async function duplicateWorld(id: string): Promise<SavedWorldSummary | undefined> {
+  const [summary, world] = await Promise.all([
+    read<SavedWorldSummary>(LIBRARY_STORE, id),
+    loadWorld(id)
+  ]);
+  if (!summary || !world) return undefined;
+
+  const now = new Date().toISOString();
+  const copy: SavedWorldSummary = {
+    ...summary,
+    id: createWorldId(),
+    name: `${summary.name} (copy)`,
+    createdAt: now,
+    updatedAt: now
+  };
+  await writeWorld(copy, { ...world, id: copy.id });
+  return copy;
+}
+
+export async function deleteWorld(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([LIBRARY_STORE, WORLD_STORE], 'readwrite');
+  transaction.objectStore(LIBRARY_STORE).delete(id);
+  transaction.objectStore(WORLD_STORE).delete(id);
+  return whenDone(transaction);
+}
+
+export function createWorldId(): string {
+  return `world-${generateId()}`;
+}
+
+export function getImage(key: string): Promise<string | undefined> {
+  return read<string>(IMAGE_STORE, key);
+}
+
+export async function putImage(key: string, dataUrl: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(IMAGE_STORE, 'readwrite');
+  transaction.objectStore(IMAGE_STORE).put(dataUrl, key);
+  return whenDone(transaction);
+}
+
+async function makeThumbnail(texture?: TextureConfig): Promise<string | undefined> {
+  if (texture?.type !== 'image') return undefined;
+  try {
+    return await compressImageForStorage(texture.imageData, 240, 160, 0.6);
+  } catch {
+    return undefined;
+  }
+}
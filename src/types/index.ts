@@ -8,6 +8,15 @@ export interface WorldConfig {
   humidity: number; // 0-100%
   compounds: Compounds;
   biome: BiomeType;
+  foodWeb?: FoodWebOverrides; // Overrides for the default food web
+  carryingCapacity?: number; // Most organisms the world supports at once
+  mutation?: MutationSettings; // How offspring inherit, defaults in src/engine/genetics.ts
+}
+
+export interface MutationSettings {
+  rate: number; // 0-1, chance that each gene mutates at birth
+  strength: number; // 0-1, size of a mutation relative to the gene's value
+  sexualReproduction: boolean; // Animals need a nearby mate of their species
 }
 
 export interface Compounds {
@@ -52,11 +61,35 @@ export interface Organism {
   diet?: DietType;
   reproductionRate: number;
   generation?: number; // Which generation this organism first appeared
+  genome?: Genome; // Heritable values, derived from the fields above when missing
   // Runtime state (not saved)
   direction?: number; // Current facing direction in radians
   targetX?: number; // For pathfinding
   targetY?: number;
   animationPhase?: number; // For idle animations
+  infection?: number; // Ticks left of a microbe-borne disease
+}
+
+// Genome Types
+// What an organism passes on; its size, speed, colors, traits, maxAge and
+// reproductionRate are this genome expressed
+export interface Genome {
+  size: number;
+  speed: number;
+  color: string;
+  secondaryColor?: string;
+  traits: Record<string, number>; // Trait name to value, 0-100
+  maxAge: number;
+  reproductionRate: number;
+  behaviorWeights: BehaviorWeights;
+}
+
+// Multipliers on the movement an organism's behavior produces, 1 is neutral
+export interface BehaviorWeights {
+  pursuit: number; // Chasing prey
+  cohesion: number; // Drawing toward and aligning with allies
+  avoidance: number; // Keeping away from others
+  wander: number; // Aimless roaming
 }
 
 export type OrganismType = 
@@ -97,15 +130,53 @@ export type LocomotionType =
   | 'gliding'
   | 'sessile'; // For plants/stationary organisms
 
+// Food Web Types
+// Who eats whom. Consumers are keyed by OrganismType or DietType (diet wins),
+// targets by OrganismType or 'corpse' for dead remains.
+export type FoodWebConsumer = OrganismType | DietType;
+export type FoodWebTarget = OrganismType | 'corpse';
+
+export type InteractionMode =
+  | 'predation' // Attack that deals heavy damage
+  | 'grazing' // Eat part of a plant
+  | 'parasitism' // Small steady drain on a host
+  | 'infection' // Infect a host with a disease that spreads to its kin
+  | 'scavenging'; // Feed on a corpse
+
+export interface FoodWebEntry {
+  mode: InteractionMode;
+  energyGain: number; // Energy the consumer gains per successful contact
+  energyLoss: number; // Energy the target loses per successful contact
+  successChance: number; // 0-1, before trait modifiers
+}
+
+export type FoodWeb = Partial<Record<FoodWebConsumer, Partial<Record<FoodWebTarget, FoodWebEntry>>>>;
+
+// Entries set to null remove a default pairing
+export type FoodWebOverrides = Partial<
+  Record<FoodWebConsumer, Partial<Record<FoodWebTarget, Partial<FoodWebEntry> | null>>>
+>;
+
 export interface Trait {
   name: string;
   value: number;
   description: string;
+  category?: TraitCategory; // Inferred from the name when missing
 }
 
+// What a trait does in the simulation (see src/engine/traitEffects.ts)
+export type TraitCategory =
+  | 'camouflage'
+  | 'armor'
+  | 'venom'
+  | 'senses'
+  | 'metabolism'
+  | 'fertility';
+
 // Simulation State Types
 export interface SimulationState {
   id: string;
+  seed: number; // Seed for the run's random source, replays the run exactly
   generation: number;
   tick: number;
   maxTicks: number;
@@ -114,6 +185,7 @@ export interface SimulationState {
   organisms: Organism[];
   events: SimulationEvent[];
   statistics: SimulationStats;
+  timeSeries: TimeSeries;
 }
 
 export type SimulationStatus = 
@@ -131,9 +203,84 @@ export interface SimulationStats {
   extinctions: string[];
   newSpecies: string[];
   dominantSpecies: string;
-  biodiversityIndex: number;
+  biodiversityIndex: number; // Simpson's diversity, 1 - Σp², from 0 to 1
+  shannonIndex?: number; // Shannon entropy H' = -Σ p ln p (missing in older exports)
+  deathsByCause?: Record<DeathCause, number>; // Missing in older exports
 }
 
+// Life Event Types
+// Bookkeeping notifications from the engine, one per birth, death, extinction or speciation
+export type DeathCause = 'starvation' | 'old-age' | 'predation' | 'disease';
+
+export type LifeEvent =
+  | {
+      kind: 'birth';
+      tick: number;
+      organismId: string;
+      species: string;
+      parentId: string;
+      mateId?: string; // Set for sexual reproduction
+    }
+  | {
+      kind: 'death';
+      tick: number;
+      organismId: string;
+      species: string;
+      cause: DeathCause;
+      killerId?: string; // Set for predation
+    }
+  | { kind: 'extinction'; tick: number; species: string }
+  | {
+      kind: 'speciation';
+      tick: number;
+      species: string; // The new species
+      name: string; // Common name its members take
+      parentSpecies: string;
+      organismIds: string[];
+    };
+
+// Time Series Types
+// Population sampled every few ticks during a run
+export interface TimeSeriesSample {
+  tick: number;
+  population: number;
+  bySpecies: Record<string, number>;
+  byType: Partial<Record<OrganismType, number>>;
+  meanEnergy: number;
+  births: number; // Since the previous sample
+  deaths: number;
+  predations: number; // Successful predation attacks
+  phenotypes?: Record<string, Phenotype>; // Mean body per species (missing in older exports)
+}
+
+// Average inherited body of a species at one moment, to follow microevolution
+export interface Phenotype {
+  size: number;
+  speed: number;
+  maxAge: number;
+}
+
+export interface TimeSeries {
+  generation: number;
+  interval: number; // Ticks between samples
+  samples: TimeSeriesSample[];
+}
+
+// Lineage Types
+// Every species a world has seen, alive or extinct, and where it came from
+export interface LineageNode {
+  species: string;
+  parent?: string; // Species it branched off from, missing for founders
+  type: OrganismType;
+  color: string;
+  originGeneration: number;
+  extinctGeneration?: number; // Last generation it was alive in
+  names: string[]; // Common names its members have gone by
+  specimen: Organism; // First member seen, kept for its details once extinct
+}
+
+export type Lineage = Record<string, LineageNode>;
+
 // Events Types
 export interface SimulationEvent {
   id: string;
@@ -157,7 +304,10 @@ export type EventType =
   | 'climate_change'
   | 'natural_disaster'
   | 'symbiosis'
-  | 'predation';
+  | 'predation'
+  | 'population_boom'
+  | 'population_crash'
+  | 'dominance';
 
 // API Response Types
 export interface GenerateWorldResponse {
@@ -181,12 +331,44 @@ export interface GenerateTextureResponse {
   description: string;
 }
 
+// Streaming Types
+// How far /api/generate-world or /api/evolve has got, sent as server-sent
+// events to clients that accept them. The texture stages come from the client
+export type GenerationProgress =
+  | { stage: 'prompt-sent'; attempt: number }
+  | { stage: 'tokens'; received: number } // Characters of the answer so far
+  | { stage: 'world'; world: WorldConfig }
+  | { stage: 'organism'; organism: Organism }
+  | { stage: 'texture-started' }
+  | { stage: 'texture-finished' };
+
+export type GenerationStage = GenerationProgress['stage'];
+
+// What the generating screen shows while a generation streams in
+export interface GenerationPreview {
+  stage?: GenerationStage; // Latest stage reached, tokens aside
+  attempt: number;
+  received: number;
+  world?: WorldConfig;
+  organisms: Organism[];
+}
+
 // UI State Types
+// Playback speed multiplier for a running simulation
+export type SimulationSpeed = 0.25 | 1 | 4 | 16;
+
+// Who evolves a generation: the AI, the rule-based engine in
+// src/engine/evolution.ts, or the rules with the AI naming and narrating
+export type EvolutionMode = 'ai' | 'rules' | 'hybrid';
+
 export interface ConfigFormState {
   useRandom: boolean;
   worldConfig: Partial<WorldConfig>;
   simulationDuration: number; // in seconds
   realOrganismsOnly: boolean; // Only generate organisms that exist on Earth
+  seed?: number; // Fixed simulation seed, random when omitted
+  carryingCapacity: number; // Population limit for the world
+  mutation: MutationSettings;
 }
 
 // Organism Image Generation
@@ -201,13 +383,69 @@ export interface GenerateOrganismImageResponse {
 }
 
 // Export/Import Types
+// One generation of a world's history, from how it began to how it ended.
+// Generations carried over from a 1.0 file only have what that format kept.
+export interface GenerationRecord {
+  generation: number;
+  seed?: number;
+  world?: WorldConfig; // As the generation began
+  organisms?: Organism[]; // The population it began with
+  narrative?: string; // Told as it began
+  survivors?: Organism[]; // Alive when its run ended
+  events?: SimulationEvent[]; // Logged during its run
+  stats?: SimulationStats;
+  timeSeries?: TimeSeries;
+  worldChanges?: Partial<WorldConfig>; // Made on evolving into the next generation
+  evolutionEvents?: SimulationEvent[]; // The account of that evolution, by the AI or the rules
+}
+
+// A timeline of a world. Forks share their parent's history up to the
+// generation they were forked at and go their own way from there.
+export interface Branch {
+  id: string;
+  name: string;
+  parentId?: string; // Branch it was forked from, missing for the original
+  forkGeneration?: number; // Generation of the parent it was forked at
+  aiTemperature?: number; // Sampling temperature for evolving, 0-2
+  createdAt: string;
+  history: GenerationRecord[]; // Oldest first
+}
+
+// What to change when forking a past generation
+export interface ForkOptions {
+  generation: number;
+  name: string;
+  seed: number;
+  worldChanges?: Partial<WorldConfig>;
+  aiTemperature?: number;
+}
+
+// A world in the local library, without the world itself
+export interface SavedWorldSummary {
+  id: string;
+  name: string; // Defaults to the world's name, can be renamed
+  biome: BiomeType;
+  generation: number; // Of the active timeline
+  branchCount: number;
+  createdAt: string;
+  updatedAt: string;
+  thumbnail?: string; // Small data URL of the world's background image
+  palette?: string[]; // Background colors, for worlds without an image
+}
+
 export interface ExportedWorld {
   version: string; // For future compatibility
   exportedAt: string;
   generation: number;
+  seed?: number; // Simulation seed (missing in older exports)
   world: WorldConfig;
   organisms: Organism[];
   events: SimulationEvent[];
   stats: SimulationStats;
   narrative: string;
+  timeSeries?: TimeSeries[]; // Only in 1.0 exports, kept in the history since 2.0
+  lineage?: Lineage; // Missing in older exports, rebuilt from the organisms
+  history?: GenerationRecord[]; // Only in 2.0 exports, kept per branch since 2.1
+  branches?: Branch[]; // Since 2.1
+  activeBranch?: string; // Id of the branch the rest of the file describes
 }
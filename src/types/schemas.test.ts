@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationEngine } from '@/engine';
+import { WorldConfig } from './index';
+import { parseEvolveResponse, parseGenerateWorldResponse, retryPrompt } from './schemas';
+
+const WORLD: WorldConfig = {
+  name: 'Test Dish',
+  width: 800,
+  height: 600,
+  gravity: 1,
+  temperature: 20,
+  humidity: 50,
+  compounds: { oxygen: 60, water: 40, nitrogen: 30, carbon: 20, minerals: 10 },
+  biome: 'grassland'
+};
+
+describe('parseGenerateWorldResponse', () => {
+  it('repairs what it can and reports it', () => {
+    const { data, violations } = parseGenerateWorldResponse(JSON.stringify({
+      world: { ...WORLD, temperature: 400, biome: 'savanna' },
+      organisms: [
+        { name: 'Moss', diet: 'photosynthesis', locomotion: 'rooted', size: '12' },
+        { name: 'Grazer', type: 'herbivore', x: 5000, y: 100, color: 'c98' }
+      ]
+    }));
+
+    expect(data?.world.temperature).toBe(100);
+    expect(data?.world.biome).toBe('grassland');
+    expect(data?.narrative).toBe('A new world emerges...');
+    const [moss, grazer] = data!.organisms;
+    expect(moss).toMatchObject({ type: 'plant', species: 'Moss', locomotion: 'sessile', speed: 0 });
+    expect(grazer).toMatchObject({ x: WORLD.width, color: '#cc9988', locomotion: 'walking' });
+    expect(violations.length).toBeGreaterThan(0);
+    expect(violations.every(violation => violation.repaired)).toBe(true);
+  });
+
+  it('drops organisms that cannot be used', () => {
+    const { data, violations } = parseGenerateWorldResponse(JSON.stringify({
+      world: WORLD,
+      organisms: [{ name: 'Moss', type: 'plant' }, { type: 'herbivore' }]
+    }));
+
+    expect(data?.organisms.map(org => org.name)).toEqual(['Moss']);
+    expect(violations).toContainEqual(expect.objectContaining({ path: 'organisms[1]', repaired: true }));
+  });
+
+  it('rejects responses without a usable world or population', () => {
+    expect(parseGenerateWorldResponse('not json').data).toBeUndefined();
+
+    const { data, violations } = parseGenerateWorldResponse(JSON.stringify({ world: WORLD, organisms: [] }));
+    expect(data).toBeUndefined();
+    expect(retryPrompt('Make a world.', violations)).toContain('- organisms: has 0 usable items out of 0');
+  });
+});
+
+describe('parseEvolveResponse', () => {
+  const evolveResponse = (worldChanges: object) => JSON.stringify({
+    organisms: [{ name: 'Moss', type: 'plant' }, { name: 'Grazer', type: 'herbivore' }],
+    events: [],
+    worldChanges,
+    narrative: 'Oxygen thins.'
+  });
+
+  it('keeps the world\'s compounds that a change leaves out', () => {
+    const { data, violations } = parseEvolveResponse(evolveResponse({ compounds: { oxygen: 25 } }), WORLD);
+
+    expect(data?.worldChanges.compounds).toEqual({ ...WORLD.compounds, oxygen: 25 });
+    expect(violations.filter(violation => violation.path.startsWith('worldChanges'))).toEqual([]);
+  });
+
+  it('evolves into a world the engine can run', () => {
+    const { data } = parseEvolveResponse(evolveResponse({ compounds: { oxygen: 25 } }), WORLD);
+    // Applied the way useSimulation applies world changes
+    const world = { ...WORLD, ...data!.worldChanges };
+    const state = new SimulationEngine({ world, organisms: data!.organisms, maxTicks: 200, seed: 1 }).run();
+
+    Object.values(state.world.compounds).forEach(value => expect(Number.isFinite(value)).toBe(true));
+    state.organisms.forEach(org => expect(Number.isFinite(org.energy)).toBe(true));
+  });
+
+  it('defaults missing compounds when the world is unknown', () => {
+    const { data, violations } = parseEvolveResponse(evolveResponse({ compounds: { oxygen: 25 } }));
+
+    expect(data?.worldChanges.compounds).toEqual({ oxygen: 25, water: 50, nitrogen: 50, carbon: 50, minerals: 50 });
+    expect(violations).toContainEqual(expect.objectContaining({ path: 'worldChanges.compounds.water', repaired: true }));
+  });
+});
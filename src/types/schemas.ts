@@ -0,0 +1,614 @@
+import type {
+  BehaviorType,
+  BiomeType,
+  Compounds,
+  DietType,
+  EventType,
+  EvolveResponse,
+  GenerateWorldResponse,
+  LocomotionType,
+  Organism,
+  OrganismType,
+  TraitCategory,
+  WorldConfig
+} from './index';
+
+/**
+ * Runtime schemas for what Gemini sends back from /api/generate-world and
+ * /api/evolve. Hybrid evolution's narrations, also answered by
+ * /api/evolve, have a schema of their own. The model's JSON is checked
+ * against them on the server: anything recoverable is repaired (clamped,
+ * defaulted or normalized) and only output that cannot be used at all is
+ * rejected.
+ */
+
+// One problem found in a response. Repaired ones were fixed in place
+export interface SchemaViolation {
+  path: string; // e.g. organisms[3].locomotion
+  message: string;
+  repaired: boolean;
+}
+
+export interface SchemaResult<T> {
+  data?: T; // Missing when the response was unusable
+  violations: SchemaViolation[];
+}
+
+// The world as Gemini describes it, the texture is generated separately
+export type GeneratedWorld = Omit<GenerateWorldResponse, 'backgroundTexture'>;
+
+// Gemini's names and words for an evolution the rules decided
+export interface EvolutionNarration {
+  species: { from: string; species: string; name: string }[]; // New names for new species
+  events: { id: string; title: string; description: string }[];
+  narrative?: string;
+  nextGenerationSuggestions: string[];
+}
+
+// The complete parts of a response that is still arriving
+export interface PartialResponse {
+  world?: WorldConfig;
+  organisms: Organism[];
+}
+
+export interface WorldBounds {
+  width: number;
+  height: number;
+}
+
+type Fields = Record<string, unknown>;
+
+// A default, or one worked out from the rest of the object being checked.
+// Arrays and objects are made by a function so no two share one
+type Fallback = string | number | boolean | ((parent: Fields) => unknown);
+
+type Schema = (
+  | { kind: 'string' }
+  | { kind: 'number'; min: number; max: number; integer?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: readonly string[]; aliases?: Record<string, string> }
+  | { kind: 'color' }
+  | { kind: 'array'; items: Schema; minItems?: number; uniqueId?: boolean }
+  | { kind: 'object'; fields: Record<string, Schema>; partial?: boolean }
+) & {
+  fallback?: Fallback;
+  optional?: boolean; // Dropped instead of rejected when missing or invalid
+};
+
+const BIOMES: readonly BiomeType[] = [
+  'ocean', 'forest', 'desert', 'tundra', 'swamp', 'volcanic', 'grassland', 'cave', 'alien'
+];
+const ORGANISM_TYPES: readonly OrganismType[] = [
+  'plant', 'herbivore', 'carnivore', 'omnivore', 'decomposer', 'microbe'
+];
+const BEHAVIORS: readonly BehaviorType[] = [
+  'passive', 'aggressive', 'territorial', 'social', 'solitary', 'migratory', 'schooling', 'ambush', 'grazing'
+];
+const DIETS: readonly DietType[] = ['photosynthesis', 'herbivore', 'carnivore', 'omnivore', 'decomposer'];
+const LOCOMOTIONS: readonly LocomotionType[] = [
+  'walking', 'swimming', 'flying', 'hopping', 'slithering', 'burrowing', 'floating', 'crawling', 'gliding', 'sessile'
+];
+const TRAIT_CATEGORIES: readonly TraitCategory[] = [
+  'camouflage', 'armor', 'venom', 'senses', 'metabolism', 'fertility'
+];
+const EVENT_TYPES: readonly EventType[] = [
+  'birth', 'death', 'evolution', 'mutation', 'migration', 'disease', 'extinction', 'speciation',
+  'climate_change', 'natural_disaster', 'symbiosis', 'predation', 'population_boom', 'population_crash', 'dominance'
+];
+const SIGNIFICANCES = ['minor', 'moderate', 'major', 'catastrophic'] as const;
+
+// Biomes the model tends to invent, mapped to the closest one we render
+const BIOME_ALIASES: Record<string, BiomeType> = {
+  sea: 'ocean', marine: 'ocean', reef: 'ocean', coral_reef: 'ocean', deep_sea: 'ocean',
+  jungle: 'forest', rainforest: 'forest', woodland: 'forest', taiga: 'forest',
+  dunes: 'desert', arid: 'desert', badlands: 'desert',
+  arctic: 'tundra', antarctic: 'tundra', ice: 'tundra', glacier: 'tundra', snow: 'tundra',
+  marsh: 'swamp', wetland: 'swamp', bog: 'swamp', mangrove: 'swamp',
+  lava: 'volcanic', volcano: 'volcanic', hydrothermal: 'volcanic',
+  savanna: 'grassland', plains: 'grassland', prairie: 'grassland', meadow: 'grassland', steppe: 'grassland',
+  cavern: 'cave', underground: 'cave', subterranean: 'cave'
+};
+
+const LOCOMOTION_ALIASES: Record<string, LocomotionType> = {
+  stationary: 'sessile', rooted: 'sessile', none: 'sessile',
+  running: 'walking', walk: 'walking', swim: 'swimming', flight: 'flying', fly: 'flying',
+  hop: 'hopping', jumping: 'hopping', slither: 'slithering', burrow: 'burrowing', digging: 'burrowing',
+  drifting: 'floating', float: 'floating', crawl: 'crawling', glide: 'gliding'
+};
+
+const DIET_TYPES: Partial<Record<string, OrganismType>> = {
+  photosynthesis: 'plant',
+  herbivore: 'herbivore',
+  carnivore: 'carnivore',
+  omnivore: 'omnivore',
+  decomposer: 'decomposer'
+};
+
+const TRAIT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    name: { kind: 'string' },
+    value: { kind: 'number', min: 0, max: 100, fallback: 50 },
+    description: { kind: 'string', fallback: '' },
+    category: { kind: 'enum', values: TRAIT_CATEGORIES, optional: true }
+  }
+};
+
+// Within the limits mutation keeps genes to (see src/engine/genetics.ts)
+const ORGANISM_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id: { kind: 'string', fallback: () => randomId('org') },
+    name: { kind: 'string' },
+    species: { kind: 'string', fallback: parent => parent.name },
+    description: { kind: 'string', optional: true },
+    ancestry: { kind: 'array', items: { kind: 'string' }, fallback: () => [] },
+    type: {
+      kind: 'enum',
+      values: ORGANISM_TYPES,
+      fallback: parent => typeof parent.diet === 'string' ? DIET_TYPES[parent.diet] : undefined
+    },
+    x: { kind: 'number', min: 0, max: Infinity, optional: true },
+    y: { kind: 'number', min: 0, max: Infinity, optional: true },
+    size: { kind: 'number', min: 2, max: 80, fallback: 15 },
+    color: { kind: 'color', fallback: '#9ca3af' },
+    secondaryColor: { kind: 'color', optional: true },
+    energy: { kind: 'number', min: 0, max: 100, fallback: 80 },
+    age: { kind: 'number', min: 0, max: Infinity, integer: true, fallback: 0 },
+    maxAge: { kind: 'number', min: 50, max: 5000, integer: true, fallback: 500 },
+    speed: { kind: 'number', min: 0, max: 10, fallback: parent => parent.type === 'plant' ? 0 : 2 },
+    traits: { kind: 'array', items: TRAIT_SCHEMA, fallback: () => [] },
+    behavior: { kind: 'enum', values: BEHAVIORS, fallback: 'passive' },
+    locomotion: {
+      kind: 'enum',
+      values: LOCOMOTIONS,
+      aliases: LOCOMOTION_ALIASES,
+      fallback: parent => parent.type === 'plant' ? 'sessile' : 'walking'
+    },
+    diet: { kind: 'enum', values: DIETS, optional: true },
+    reproductionRate: { kind: 'number', min: 0, max: 1, fallback: 0.04 },
+    generation: { kind: 'number', min: 1, max: Infinity, integer: true, optional: true }
+  }
+};
+
+const DEFAULT_COMPOUND = 50;
+const COMPOUND_SCHEMA: Schema = { kind: 'number', min: 0, max: 100, fallback: DEFAULT_COMPOUND };
+const COMPOUND_FIELDS: Record<string, Schema> = {
+  oxygen: COMPOUND_SCHEMA,
+  water: COMPOUND_SCHEMA,
+  nitrogen: COMPOUND_SCHEMA,
+  carbon: COMPOUND_SCHEMA,
+  minerals: COMPOUND_SCHEMA
+};
+
+const DEFAULT_BOUNDS: WorldBounds = { width: 1000, height: 700 };
+
+// The ranges the configuration form offers
+const WORLD_FIELDS: Record<string, Schema> = {
+  name: { kind: 'string', fallback: 'Unnamed World' },
+  width: { kind: 'number', min: 400, max: 3200, integer: true, fallback: DEFAULT_BOUNDS.width },
+  height: { kind: 'number', min: 300, max: 2400, integer: true, fallback: DEFAULT_BOUNDS.height },
+  gravity: { kind: 'number', min: 0.1, max: 2, fallback: 1 },
+  temperature: { kind: 'number', min: -50, max: 100, fallback: 20 },
+  humidity: { kind: 'number', min: 0, max: 100, fallback: 50 },
+  compounds: {
+    kind: 'object',
+    fields: COMPOUND_FIELDS,
+    fallback: () => ({ oxygen: 50, water: 50, nitrogen: 50, carbon: 50, minerals: 50 })
+  },
+  biome: { kind: 'enum', values: BIOMES, aliases: BIOME_ALIASES, fallback: 'alien' },
+  carryingCapacity: { kind: 'number', min: 10, max: 2000, integer: true, optional: true }
+};
+
+const WORLD_SCHEMA: Schema = { kind: 'object', fields: WORLD_FIELDS };
+
+const EVENT_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    id: { kind: 'string', fallback: () => randomId('event') },
+    tick: { kind: 'number', min: 0, max: Infinity, integer: true, fallback: 0 },
+    type: { kind: 'enum', values: EVENT_TYPES, fallback: 'evolution' },
+    title: { kind: 'string' },
+    description: { kind: 'string', fallback: '' },
+    affectedOrganisms: { kind: 'array', items: { kind: 'string' }, fallback: () => [] },
+    significance: { kind: 'enum', values: SIGNIFICANCES, fallback: 'moderate' }
+  }
+};
+
+const GENERATE_WORLD_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    world: WORLD_SCHEMA,
+    organisms: { kind: 'array', items: ORGANISM_SCHEMA, minItems: 1, uniqueId: true },
+    narrative: { kind: 'string', fallback: 'A new world emerges...' }
+  }
+};
+
+const EVOLVE_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    // An empty population is a valid outcome, everything may have died
+    organisms: { kind: 'array', items: ORGANISM_SCHEMA, uniqueId: true },
+    events: { kind: 'array', items: EVENT_SCHEMA, uniqueId: true, fallback: () => [] },
+    worldChanges: {
+      kind: 'object',
+      fields: {
+        // Only the fields that changed, compounds included
+        ...WORLD_FIELDS,
+        compounds: { kind: 'object', fields: COMPOUND_FIELDS, partial: true }
+      },
+      partial: true,
+      fallback: () => ({})
+    },
+    narrative: { kind: 'string', fallback: '' },
+    shouldContinue: {
+      kind: 'boolean',
+      fallback: parent => !Array.isArray(parent.organisms) || parent.organisms.length > 0
+    },
+    nextGenerationSuggestions: { kind: 'array', items: { kind: 'string' }, fallback: () => [] }
+  }
+};
+
+const NARRATION_SCHEMA: Schema = {
+  kind: 'object',
+  fields: {
+    species: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          from: { kind: 'string' },
+          species: { kind: 'string' },
+          name: { kind: 'string', fallback: parent => parent.species }
+        }
+      },
+      fallback: () => []
+    },
+    events: {
+      kind: 'array',
+      items: {
+        kind: 'object',
+        fields: {
+          id: { kind: 'string' },
+          title: { kind: 'string' },
+          description: { kind: 'string', fallback: '' }
+        }
+      },
+      fallback: () => []
+    },
+    // The rules' own narrative stands in when missing
+    narrative: { kind: 'string', optional: true },
+    nextGenerationSuggestions: { kind: 'array', items: { kind: 'string' }, fallback: () => [] }
+  }
+};
+
+// Marks a value that cannot be used, so its parent has to drop or reject it
+const INVALID = Symbol('invalid');
+
+export function parseGenerateWorldResponse(text: string): SchemaResult<GeneratedWorld> {
+  const result = validate<GeneratedWorld>(GENERATE_WORLD_SCHEMA, text);
+  if (result.data) placeOrganisms(result.data.organisms, result.data.world, result.violations);
+  return result;
+}
+
+/**
+ * `world` is the one that was evolved. Its changes are applied before
+ * placing, and compounds the changes leave out keep the world's values, as
+ * they replace its compounds as a whole.
+ */
+export function parseEvolveResponse(
+  text: string,
+  world: Partial<WorldBounds & Pick<WorldConfig, 'compounds'>> = {}
+): SchemaResult<EvolveResponse> {
+  const result = validate<EvolveResponse>(EVOLVE_SCHEMA, text);
+  if (result.data) {
+    const { worldChanges } = result.data;
+    if (worldChanges.compounds) {
+      worldChanges.compounds = completeCompounds(worldChanges.compounds, world.compounds, result.violations);
+    }
+    placeOrganisms(result.data.organisms, {
+      width: worldChanges.width ?? world.width ?? DEFAULT_BOUNDS.width,
+      height: worldChanges.height ?? world.height ?? DEFAULT_BOUNDS.height
+    }, result.violations);
+  }
+  return result;
+}
+
+export function parseNarrationResponse(text: string): SchemaResult<EvolutionNarration> {
+  return validate<EvolutionNarration>(NARRATION_SCHEMA, text);
+}
+
+/**
+ * What a streamed world or evolution already holds: the world once its
+ * object has closed, and each organism whose object has. They are checked
+ * like a full response, and any that cannot be used are left out.
+ */
+export function parsePartialResponse(text: string): PartialResponse {
+  const partial: PartialResponse = { organisms: [] };
+  scanClosedValues(text, (key, json) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      return;
+    }
+    const value = checkPresent(key === 'world' ? WORLD_SCHEMA : ORGANISM_SCHEMA, raw, key, []);
+    if (value === INVALID) return;
+    if (key === 'world') partial.world = value as WorldConfig;
+    else partial.organisms.push(value as Organism);
+  });
+  return partial;
+}
+
+// One violation per line, for logs and for telling the model what to fix
+export function describeViolations(violations: SchemaViolation[]): string {
+  return violations.map(violation => `- ${violation.path || 'response'}: ${violation.message}`).join('\n');
+}
+
+// The prompt again, with what made the last answer unusable
+export function retryPrompt(prompt: string, violations: SchemaViolation[]): string {
+  return `${prompt}
+
+Your previous response could not be used:
+${describeViolations(violations.filter(violation => !violation.repaired))}
+
+Return the complete JSON object again with these problems fixed.`;
+}
+
+function validate<T>(schema: Schema, text: string): SchemaResult<T> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { violations: [{ path: '', message: 'is not valid JSON', repaired: false }] };
+  }
+
+  const violations: SchemaViolation[] = [];
+  const value = checkPresent(schema, raw, '', violations);
+  if (value === INVALID) {
+    if (!violations.some(violation => !violation.repaired)) {
+      violations.push({ path: '', message: 'is not a JSON object of the expected shape', repaired: false });
+    }
+    return { violations };
+  }
+  return { data: value as T, violations };
+}
+
+// A value that is present, checked against its schema
+function checkPresent(schema: Schema, value: unknown, path: string, violations: SchemaViolation[]): unknown {
+  const reject = (message: string) => {
+    violations.push({ path, message, repaired: false });
+    return INVALID;
+  };
+  const repair = (message: string, repaired: unknown) => {
+    violations.push({ path, message, repaired: true });
+    return repaired;
+  };
+
+  switch (schema.kind) {
+    case 'string':
+      if (typeof value === 'number') return repair('was a number, converted to a string', String(value));
+      if (typeof value !== 'string' || !value.trim()) return reject('must be a non-empty string');
+      return value;
+
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return reject('must be a number');
+      let fixed = schema.integer ? Math.round(number) : number;
+      fixed = Math.min(schema.max, Math.max(schema.min, fixed));
+      if (fixed !== number) {
+        return repair(`${number} is outside ${schema.min} to ${schema.max}, set to ${fixed}`, fixed);
+      }
+      return typeof value === 'string' ? repair('was a string, converted to a number', fixed) : fixed;
+    }
+
+    case 'boolean':
+      if (value === 'true' || value === 'false') return repair('was a string, converted to a boolean', value === 'true');
+      if (typeof value !== 'boolean') return reject('must be true or false');
+      return value;
+
+    case 'enum': {
+      if (typeof value !== 'string') return reject(`must be one of ${schema.values.join(', ')}`);
+      if (schema.values.includes(value)) return value;
+      const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+      const known = schema.values.includes(key) ? key : schema.aliases?.[key];
+      if (known) return repair(`"${value}" is not allowed, read as "${known}"`, known);
+      return reject(`"${value}" is not one of ${schema.values.join(', ')}`);
+    }
+
+    case 'color': {
+      if (typeof value !== 'string') return reject('must be a hex color like #FF5733');
+      const hex = toHexColor(value);
+      if (!hex) return reject(`"${value}" is not a hex color like #FF5733`);
+      return hex === value ? value : repair(`"${value}" normalized to ${hex}`, hex);
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) return reject('must be an array');
+      const items: unknown[] = [];
+      value.forEach((item, index) => {
+        const itemPath = `${path}[${index}]`;
+        const problems: SchemaViolation[] = [];
+        const checked = item === undefined || item === null
+          ? INVALID
+          : checkPresent(schema.items, item, itemPath, problems);
+        if (checked === INVALID) {
+          // Dropping the item repairs the list, as long as enough are left
+          const reasons = problems.filter(problem => !problem.repaired);
+          violations.push({
+            path: itemPath,
+            message: `dropped (${reasons.map(reason => `${reason.path.slice(itemPath.length).replace(/^\./, '') || 'value'} ${reason.message}`).join('; ') || 'empty'})`,
+            repaired: true
+          });
+        } else {
+          violations.push(...problems);
+          items.push(checked);
+        }
+      });
+
+      if (schema.uniqueId) dedupeIds(items, path, violations);
+      const minItems = schema.minItems ?? (value.length > 0 ? 1 : 0);
+      if (items.length < minItems) {
+        return reject(`has ${items.length} usable items out of ${value.length}, needs at least ${minItems}`);
+      }
+      return items;
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return reject('must be an object');
+      const input = value as Fields;
+      const output: Fields = {};
+      let usable = true;
+
+      Object.entries(schema.fields).forEach(([key, field]) => {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const present = input[key] !== undefined && input[key] !== null;
+        if (!present && (schema.partial || field.optional)) return;
+
+        const problems: SchemaViolation[] = [];
+        const checked = present ? checkPresent(field, input[key], fieldPath, problems) : INVALID;
+        if (checked !== INVALID) {
+          violations.push(...problems);
+          output[key] = checked;
+          return;
+        }
+
+        // Fallbacks may look at fields already checked, or at the raw input.
+        // A partial object only holds what changed, so nothing is made up
+        const fallback = schema.partial ? undefined : typeof field.fallback === 'function'
+          ? field.fallback({ ...input, ...output })
+          : field.fallback;
+        const reason = present ? problems.filter(problem => !problem.repaired).map(problem => problem.message).join('; ') : 'is missing';
+        if (fallback !== undefined) {
+          violations.push({ path: fieldPath, message: `${reason}, set to ${JSON.stringify(fallback)}`, repaired: true });
+          output[key] = fallback;
+        } else if (field.optional || schema.partial) {
+          violations.push({ path: fieldPath, message: `${reason}, removed`, repaired: true });
+        } else {
+          violations.push(...(present ? problems : [{ path: fieldPath, message: 'is required', repaired: false }]));
+          usable = false;
+        }
+      });
+
+      return usable ? output : INVALID;
+    }
+  }
+}
+
+function dedupeIds(items: unknown[], path: string, violations: SchemaViolation[]): void {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    const entry = item as { id: string };
+    if (!seen.has(entry.id)) {
+      seen.add(entry.id);
+      return;
+    }
+    let copy = 2;
+    while (seen.has(`${entry.id}-${copy}`)) copy++;
+    const id = `${entry.id}-${copy}`;
+    violations.push({ path: `${path}[${index}].id`, message: `duplicate id "${entry.id}", renamed to "${id}"`, repaired: true });
+    entry.id = id;
+    seen.add(id);
+  });
+}
+
+/**
+ * Walks JSON that may stop anywhere, handing over the root's `world` object
+ * and each object in its `organisms` array as soon as they close.
+ */
+function scanClosedValues(text: string, onValue: (key: 'world' | 'organisms', json: string) => void): void {
+  const open: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  let lastString = '';
+  let key = ''; // The root key whose value is being read
+  let valueStart = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        lastString = text.slice(stringStart + 1, i);
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (char === ':' && open.length === 1) {
+      key = lastString;
+    } else if (char === '{' || char === '[') {
+      open.push(char);
+      const isWorld = key === 'world' && open.length === 2;
+      const isOrganism = key === 'organisms' && open.length === 3 && open[1] === '[';
+      if (char === '{' && (isWorld || isOrganism)) valueStart = i;
+    } else if (char === '}' || char === ']') {
+      const depth = open.length;
+      open.pop();
+      if (valueStart >= 0 && depth === (key === 'world' ? 2 : 3)) {
+        onValue(key as 'world' | 'organisms', text.slice(valueStart, i + 1));
+        valueStart = -1;
+      }
+      if (depth === 2) key = '';
+    }
+  }
+}
+
+// Changed compounds with the rest filled in from the world, or defaulted without one
+function completeCompounds(
+  changes: Partial<Compounds>,
+  current: Compounds | undefined,
+  violations: SchemaViolation[]
+): Compounds {
+  const complete = { ...changes } as Compounds;
+  (Object.keys(COMPOUND_FIELDS) as (keyof Compounds)[]).forEach(name => {
+    if (complete[name] !== undefined) return;
+    if (current) {
+      complete[name] = current[name];
+    } else {
+      complete[name] = DEFAULT_COMPOUND;
+      violations.push({ path: `worldChanges.compounds.${name}`, message: 'is missing, set to the default', repaired: true });
+    }
+  });
+  return complete;
+}
+
+// Keep organisms inside the world, scattering any that came without a position
+function placeOrganisms(
+  organisms: { x: number; y: number }[],
+  bounds: WorldBounds,
+  violations: SchemaViolation[]
+): void {
+  organisms.forEach((org, index) => {
+    (['x', 'y'] as const).forEach(axis => {
+      const max = axis === 'x' ? bounds.width : bounds.height;
+      const path = `organisms[${index}].${axis}`;
+      if (org[axis] === undefined) {
+        org[axis] = Math.round(Math.random() * max);
+        violations.push({ path, message: 'is missing, placed at random', repaired: true });
+      } else if (org[axis] > max) {
+        violations.push({ path, message: `${org[axis]} is outside the world, set to ${max}`, repaired: true });
+        org[axis] = max;
+      }
+    });
+  });
+}
+
+// #RGB, #RRGGBB and the same without the #, as #RRGGBB
+function toHexColor(value: string): string | undefined {
+  const match = /^#?([a-f\d]{3}|[a-f\d]{6})$/i.exec(value.trim());
+  if (!match) return undefined;
+  const digits = match[1].length === 3
+    ? match[1].split('').map(digit => digit + digit).join('')
+    : match[1];
+  return `#${digits}`;
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}-${Math.random().toString(36).slice(2, 10)}`;
+}
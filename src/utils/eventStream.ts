@@ -0,0 +1,52 @@
+/**
+ * Server-sent events over fetch, shared by the server (reading Gemini's
+ * stream, writing our own) and the client (reading ours). EventSource
+ * cannot POST, so the stream is read straight from the response body.
+ */
+
+export interface StreamedEvent {
+  event: string; // "message" when the event had no name
+  data: string;
+}
+
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export function isEventStream(response: Response): boolean {
+  return (response.headers.get('Content-Type') || '').includes('text/event-stream');
+}
+
+// Reads a text/event-stream body to its end, handing over each event as it completes
+export async function readEventStream(response: Response, onEvent: (event: StreamedEvent) => void): Promise<void> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const frames = buffered.split(/\r?\n\r?\n/);
+    buffered = done ? '' : frames.pop() || '';
+    frames.forEach(frame => {
+      const event = parseFrame(frame);
+      if (event) onEvent(event);
+    });
+    if (done) return;
+  }
+}
+
+function parseFrame(frame: string): StreamedEvent | undefined {
+  let event = 'message';
+  const data: string[] = [];
+  frame.split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon === 0) return; // A comment
+    const field = colon < 0 ? line : line.slice(0, colon);
+    const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  });
+  return data.length > 0 ? { event, data: data.join('\n') } : undefined;
+}
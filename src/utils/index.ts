@@ -1,5 +1,27 @@
-export function generateId(): string {
-  return Math.random().toString(36).substring(2, 11);
+// A source of uniformly distributed numbers in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+/**
+ * Create a deterministic random source (mulberry32). The same seed always
+ * produces the same sequence, so simulation runs can be replayed exactly.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+export function generateId(random: RandomSource = Math.random): string {
+  return random().toString(36).substring(2, 11);
 }
 
 export function clamp(value: number, min: number, max: number): number {
@@ -10,18 +32,36 @@ export function lerp(start: number, end: number, t: number): number {
   return start + (end - start) * t;
 }
 
-export function randomRange(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+/**
+ * Rotate an angle (radians) towards a target by at most `step`, taking the
+ * shortest way around the circle.
+ */
+export function rotateTowards(current: number, target: number, step: number): number {
+  if (current === target) return current;
+
+  const fullTurn = Math.PI * 2;
+  if (Math.abs(target - current) <= step || Math.abs(target - current) >= fullTurn - step) {
+    return target;
+  }
+
+  if (Math.abs(target - current) > Math.PI) {
+    target += target < current ? fullTurn : -fullTurn;
+  }
+  return target > current ? current + step : current - step;
 }
 
-export function randomInt(min: number, max: number): number {
-  return Math.floor(randomRange(min, max + 1));
+export function randomRange(min: number, max: number, random: RandomSource = Math.random): number {
+  return random() * (max - min) + min;
 }
 
-export function shuffleArray<T>(array: T[]): T[] {
+export function randomInt(min: number, max: number, random: RandomSource = Math.random): number {
+  return Math.floor(randomRange(min, max + 1, random));
+}
+
+export function shuffleArray<T>(array: T[], random: RandomSource = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -49,6 +89,27 @@ export function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+export function getEventEmoji(type: string): string {
+  const emojis: Record<string, string> = {
+    birth: '🐣',
+    death: '💀',
+    evolution: '🧬',
+    mutation: '🔬',
+    migration: '🦅',
+    disease: '🦠',
+    extinction: '☠️',
+    speciation: '🌟',
+    climate_change: '🌡️',
+    natural_disaster: '💥',
+    symbiosis: '🤝',
+    predation: '🦁',
+    population_boom: '📈',
+    population_crash: '📉',
+    dominance: '👑'
+  };
+  return emojis[type] || '📝';
+}
+
 export function debounce<T extends (...args: unknown[]) => unknown>(
   func: T,
   wait: number